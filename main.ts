@@ -4,8 +4,22 @@
  */
 
 // Core rsync functionality
-export { default as RsyncManager } from './src/rsync/lib/rsync.js';
-export type { RsyncOptions, RsyncTransferResult } from './src/rsync/lib/rsync.js';
+export { default as RsyncManager, RSYNC_PARTIAL_DIR } from './src/rsync/lib/rsync.js';
+export type { RsyncOptions, RsyncTransferResult, ChangePreview } from './src/rsync/lib/rsync.js';
+export { SnapshotManager, parseSnapshotName, formatSnapshotName, freedBytes } from './src/rsync/lib/snapshots.js';
+export type { Snapshot, SnapshotResult, SnapshotInode } from './src/rsync/lib/snapshots.js';
+export { selectRetained } from './src/rsync/lib/retention.js';
+export type { RetentionPolicy, PruneOptions, PruneResult, PrunedSnapshot } from './src/rsync/lib/retention.js';
+export { parseItemizedChanges, parseStats, ITEMIZE_OUT_FORMAT } from './src/rsync/lib/rsyncParser.js';
+export type {
+    RsyncEstimate,
+    RsyncStats,
+    RsyncFileCounts,
+    ItemizedChange,
+    ItemizedAttributes,
+    ItemizedUpdateType,
+    ItemizedFileType
+} from './src/rsync/lib/rsyncParser.js';
 
 // Compatibility checking
 export { 
@@ -31,23 +45,93 @@ export {
 } from './src/transfer/manager.js';
 export type { 
     UnifiedTransferOptions, 
-    MethodSelectionResult 
+    MethodSelectionResult,
+    ProviderRegistration,
+    UnifiedTransferManagerOptions,
+    TransferRetryOptions
 } from './src/transfer/manager.js';
 
 // Transfer interfaces and types
 export type {
     TransferOptions,
     TransferResult,
+    TransferAttempt,
     TransferTarget,
     TransferProgress,
-    TransferProvider,
-    FallbackCapabilities
+    FallbackCapabilities,
+    TransferStrategy,
+    TransferStatus,
+    TransferredFile,
+    TransferEstimate,
+    ConflictMode,
+    ConflictDecision,
+    FileConflict
 } from './src/transfer/interfaces.js';
+export { PauseSignal, TransferProvider } from './src/transfer/interfaces.js';
+export { TransferHandle } from './src/transfer/handle.js';
+export type {
+    TransferHandleStatus,
+    TransferStateChange,
+    TransferControls
+} from './src/transfer/handle.js';
+export { TransferQueue } from './src/transfer/queue.js';
+export type {
+    QueueJob,
+    QueueJobStatus,
+    SavedQueueJob,
+    TransferQueueOptions
+} from './src/transfer/queue.js';
+export {
+    verifyTree,
+    keptByConflictPolicy,
+    repairMismatches,
+    hashFile,
+    XXH32
+} from './src/transfer/verification.js';
+export type {
+    VerifyMode,
+    VerificationResult,
+    VerificationMismatch
+} from './src/transfer/verification.js';
+export { ManifestManager } from './src/transfer/manifest.js';
+export type {
+    ManifestFormat,
+    ManifestEntry,
+    ManifestOptions,
+    ManifestMismatch,
+    ManifestVerificationResult
+} from './src/transfer/manifest.js';
+export { FilterSet, DEFAULT_IGNORE_FILES } from './src/transfer/filters.js';
+export type {
+    FilterRule,
+    FilterOptions,
+    FilteredEntry,
+    IgnoreFileContent
+} from './src/transfer/filters.js';
+export { TwoWaySync } from './src/transfer/two-way-sync.js';
+export type {
+    SyncSide,
+    ConflictPolicy,
+    ConflictResolution,
+    SyncConflict,
+    SyncAction,
+    TwoWaySyncOptions,
+    TwoWaySyncResult,
+    TwoWaySyncState
+} from './src/transfer/two-way-sync.js';
+export { TransferJournal } from './src/transfer/journal.js';
+export type {
+    JournalJob,
+    JournalJobStatus,
+    JournalSessionStats,
+    RecoveredJob
+} from './src/transfer/journal.js';
 
 // Platform-specific providers (for advanced usage)
 export { RobocopyProvider, XCopyProvider } from './src/transfer/providers/windows.js';
 export { DittoProvider } from './src/transfer/providers/macos.js';
 export { CpProvider, TarProvider, ScpProvider } from './src/transfer/providers/linux.js';
+export { NodeFsProvider } from './src/transfer/providers/node.js';
 
 // Advanced transfer utilities
 export {
@@ -61,6 +145,8 @@ export type {
     SSHProbeResult,
     NetworkConnectionResult,
     FileMetadata,
+    EnumerateOptions,
+    EnumerationError,
     FileTransferTiming,
     TransferSession,
     CopyOperation
@@ -76,6 +162,57 @@ export type {
     ZipResult
 } from './src/utils/zip-utils.js';
 
+// Typed transfer errors
+export {
+    TransferError,
+    FileSystemError,
+    ConnectionError,
+    ConfigurationError,
+    PartialTransferError,
+    classifyResult,
+    classifyMessage,
+    classifyRsyncExit,
+    classifyRobocopyExit,
+    classifyNodeError,
+    parseFileErrors,
+    RETRYABLE_ERROR_CODES
+} from './src/transfer/errors.js';
+export type { TransferErrorCode, FileError } from './src/transfer/errors.js';
+
+// Credentials for shares, archives and ssh logins, kept off command lines
+export {
+    CredentialProvider,
+    MemoryKeyring,
+    resolveCredentials,
+    redactSecrets,
+    redactResult
+} from './src/transfer/credentials.js';
+export type {
+    Credentials,
+    CredentialRequest,
+    CredentialPurpose,
+    CredentialResolver,
+    Keyring
+} from './src/transfer/credentials.js';
+
+// Logging
+export { createLogger, getLogger, setDefaultLogger, silentLogger, redactText } from './src/utils/logger.js';
+export type { Logger, LoggerOptions, LogLevel, LogEntry, LogFields, RedactionOptions } from './src/utils/logger.js';
+
+// Running external tools without a shell
+export {
+    runCommand,
+    runRemoteCommand,
+    commandExists,
+    quoteShellArg,
+    shellCommand
+} from './src/utils/command-runner.js';
+export type {
+    RunCommandOptions,
+    CommandResult,
+    SshConnection
+} from './src/utils/command-runner.js';
+
 // File operation retry utilities (for handling locked files on Windows)
 export {
     retryFileOperation,
@@ -86,6 +223,7 @@ export {
     unlinkWithRetry,
     mkdirWithRetry,
     statWithRetry,
+    calculateDelay,
     DEFAULT_RETRY_OPTIONS
 } from './src/utils/file-retry.js';
 export type {
@@ -6,9 +6,13 @@ import inquirer from 'inquirer';
 import { RsyncCompatibilityChecker } from '../lib/rsyncChecker.js';
 import RsyncManager from '../lib/rsync.js';
 import { existsSync } from 'fs';
+import { createLogger, setDefaultLogger } from '../../utils/logger.js';
 
 const program = new Command();
 
+// Installation progress from the library is part of what the CLI shows
+setDefaultLogger(createLogger({ level: 'info', write: (_line, entry) => console.log(entry.message) }));
+
 program
     .name('rsync-checker')
     .description('Check Rsync compatibility and get installation instructions')
@@ -346,6 +350,10 @@ program
             
             if (result.success) {
                 console.log(chalk.green('Backup completed successfully!'));
+                console.log(`Snapshot: ${result.snapshotPath}`);
+                if (result.linkDest) {
+                    console.log(`Unchanged files hard-linked against ${result.linkDest}`);
+                }
                 if (options.verbose) {
                     console.log('Output:', result.output);
                 }
@@ -0,0 +1,91 @@
+/**
+ * Grandfather-father-son retention for snapshot backups. Count rules keep the newest snapshot
+ * in each of the last N hours/days/weeks/months; size rules then drop the oldest survivors
+ * until the backup root fits. The newest snapshot is never pruned.
+ */
+export interface RetentionPolicy {
+    keepLast?: number;          // Always keep the N most recent snapshots
+    hourly?: number;            // Newest snapshot in each of the last N hours that have one
+    daily?: number;
+    weekly?: number;            // ISO weeks
+    monthly?: number;
+    yearly?: number;
+    maxTotalSize?: number;      // Bytes on disk for all snapshots together
+    minFreeSpace?: number;      // Bytes to leave free on the backup filesystem
+}
+
+export interface PruneOptions {
+    dryRun?: boolean;           // Report what would be deleted without deleting it
+}
+
+export interface PrunedSnapshot {
+    id: string;
+    date: Date;
+    reason: string;             // e.g. 'not kept by any rule', 'maxTotalSize'
+}
+
+export interface PruneResult {
+    dryRun: boolean;
+    kept: { id: string; date: Date; reasons: string[] }[];
+    deleted: PrunedSnapshot[];
+    freedBytes: number;         // Counted per inode, so files shared with kept snapshots don't count
+    totalSizeBefore: number;
+    totalSizeAfter: number;
+    freeSpaceBefore?: number;   // Only measured when minFreeSpace is set
+}
+
+type PeriodRule = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+const PERIOD_KEYS: { [rule in PeriodRule]: (date: Date) => string } = {
+    hourly: (date) => date.toISOString().slice(0, 13),
+    daily: (date) => date.toISOString().slice(0, 10),
+    weekly: isoWeek,
+    monthly: (date) => date.toISOString().slice(0, 7),
+    yearly: (date) => date.toISOString().slice(0, 4)
+};
+
+function isoWeek(date: Date): string {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    // The ISO week belongs to the year of its Thursday
+    day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+    const firstThursday = new Date(Date.UTC(day.getUTCFullYear(), 0, 4));
+    const week = 1 + Math.round(((day.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+    return `${day.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Apply the count rules. Returns the reasons each kept snapshot survived; anything missing
+ * from the map is to be deleted. With no count rules at all every snapshot is kept.
+ */
+export function selectRetained(snapshots: { id: string; date: Date }[], policy: RetentionPolicy): Map<string, string[]> {
+    const newestFirst = [...snapshots].sort((a, b) => b.date.getTime() - a.date.getTime());
+    const kept = new Map<string, string[]>();
+    const keep = (id: string, reason: string) => kept.set(id, [...(kept.get(id) || []), reason]);
+
+    const rules = (Object.keys(PERIOD_KEYS) as PeriodRule[]).filter(rule => (policy[rule] ?? 0) > 0);
+    if (!policy.keepLast && rules.length === 0) {
+        newestFirst.forEach(snapshot => keep(snapshot.id, 'no count rules'));
+        return kept;
+    }
+
+    newestFirst.slice(0, policy.keepLast ?? 0).forEach(snapshot => keep(snapshot.id, 'keepLast'));
+
+    for (const rule of rules) {
+        let lastPeriod: string | undefined;
+        let count = 0;
+        for (const snapshot of newestFirst) {
+            if (count >= policy[rule]!) break;
+            const period = PERIOD_KEYS[rule](snapshot.date);
+            if (period !== lastPeriod) {
+                keep(snapshot.id, rule);
+                lastPeriod = period;
+                count++;
+            }
+        }
+    }
+
+    if (newestFirst.length > 0) {
+        keep(newestFirst[0].id, 'newest');
+    }
+    return kept;
+}
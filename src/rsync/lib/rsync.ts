@@ -2,6 +2,14 @@ import { RsyncCompatibilityChecker } from './rsyncChecker.js';
 import type { RsyncCompatibilityResult } from './rsyncChecker.js';
 import { execSync, spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { RsyncProgressTracker, parseDryRunTotals, parseEstimate, parseStats, parseItemizedChanges, ITEMIZE_OUT_FORMAT } from './rsyncParser.js';
+import { processGroupOptions, bindAbortSignal, killProcessTree } from '../../utils/process-control.js';
+import { shellCommand } from '../../utils/command-runner.js';
+import type { RsyncTotals, RsyncEstimate, RsyncStats, ItemizedChange } from './rsyncParser.js';
+import type { PauseSignal } from '../../transfer/interfaces.js';
+import { SnapshotManager } from './snapshots.js';
+import type { Snapshot, SnapshotResult } from './snapshots.js';
+import type { RetentionPolicy, PruneOptions, PruneResult } from './retention.js';
 
 export interface RsyncOptions {
     archive?: boolean;          // -a (archive mode)
@@ -17,7 +25,12 @@ export interface RsyncOptions {
     preservePerms?: boolean;    // -p (preserve permissions)
     preserveTimes?: boolean;    // -t (preserve times)
     checksum?: boolean;         // -c (checksum)
+    update?: boolean;           // --update (skip files that are newer on the receiver)
+    ignoreExisting?: boolean;   // --ignore-existing (only create files)
+    backupSuffix?: string;      // --backup --suffix=SUFFIX (keep replaced files beside the new ones)
+    stats?: boolean;            // --stats (default: true), parsed into RsyncTransferResult.stats
     customArgs?: string[];      // Additional custom arguments
+    protectArgs?: boolean;      // -s (remote paths reach the remote rsync as-is, not through its shell)
     // Remote transfer options
     sshKey?: string;           // SSH private key file path
     sshPort?: number;          // SSH port (default 22)
@@ -25,8 +38,17 @@ export interface RsyncOptions {
     sshOptions?: string[];     // Additional SSH options
     bandwidth?: number;        // Bandwidth limit in KB/s
     timeout?: number;          // Connection timeout in seconds
+    precomputeTotals?: boolean; // Run a --stats dry run first so progress has real totals
+    signal?: AbortSignal;      // Abort to kill rsync (and its ssh child)
+    pauseSignal?: PauseSignal; // Pause stops rsync; resume restarts it from the files kept in RSYNC_PARTIAL_DIR
 }
 
+/**
+ * Where interrupted rsync runs keep partly transferred files, relative to each destination
+ * directory, so the next run picks up where they stopped. rsync excludes it from the transfer.
+ */
+export const RSYNC_PARTIAL_DIR = '.rsync-partial';
+
 export interface RsyncTransferResult {
     success: boolean;
     exitCode: number;
@@ -37,6 +59,8 @@ export interface RsyncTransferResult {
     duration?: number;
     sourceSize?: number;
     transferRate?: string;
+    cancelled?: boolean;
+    stats?: RsyncStats;         // Parsed --stats block
 }
 
 export interface TransferTarget {
@@ -55,6 +79,14 @@ export interface FileInfo {
     lastModified?: Date;
 }
 
+export interface ChangePreview {
+    changes: ItemizedChange[];
+    created: number;            // New files, directories and links
+    updated: number;            // Existing entries whose content or attributes change
+    deleted: number;            // Only with delete: true
+    bytesToTransfer: number;    // Sum of file sizes that will be sent
+}
+
 /**
  * Enhanced RsyncManager with compatibility checking and comprehensive transfer capabilities
  */
@@ -128,16 +160,32 @@ class RsyncManager extends EventEmitter {
         // Common options
         if (options.verbose) args.push('-v');
         if (options.compress) args.push('-z');
-        if (options.progress) args.push('--progress');
+        if (options.progress) {
+            args.push('--progress');
+            // Whole-transfer progress overrides the per-file lines where supported
+            if (this.progressMode() === 'total') args.push('--info=progress2');
+        }
         if (options.delete) args.push('--delete');
         if (options.dryRun) args.push('--dry-run');
         if (options.checksum) args.push('-c');
+        if (options.update) args.push('--update');
+        if (options.ignoreExisting) args.push('--ignore-existing');
+        if (options.backupSuffix) args.push('--backup', `--suffix=${options.backupSuffix}`);
+        if (options.stats !== false) args.push('--stats');
+        if (options.protectArgs) args.push('--protect-args');
 
         // Bandwidth limiting
         if (options.bandwidth) {
             args.push('--bwlimit', options.bandwidth.toString());
         }
 
+        // Include patterns come first so they win over excludes (rsync stops at the first match)
+        if (options.include) {
+            options.include.forEach(pattern => {
+                args.push('--include', pattern);
+            });
+        }
+
         // Exclude patterns
         if (options.exclude) {
             options.exclude.forEach(pattern => {
@@ -145,13 +193,6 @@ class RsyncManager extends EventEmitter {
             });
         }
 
-        // Include patterns
-        if (options.include) {
-            options.include.forEach(pattern => {
-                args.push('--include', pattern);
-            });
-        }
-
         // Custom arguments (including SSH options)
         if (options.customArgs) {
             args.push(...options.customArgs);
@@ -165,6 +206,8 @@ class RsyncManager extends EventEmitter {
 
     /**
      * Synchronize files from source to destination
+     *
+     * Emits 'progress' with a parsed TransferProgress and 'output' with raw stdout chunks.
      */
     async sync(source: string, destination: string, options: RsyncOptions = {}): Promise<RsyncTransferResult> {
         if (!this.isReady()) {
@@ -172,76 +215,141 @@ class RsyncManager extends EventEmitter {
         }
 
         const startTime = Date.now();
-        const command = this.buildCommand(source, destination, options);
+        if (options.signal?.aborted) {
+            return this.createCancelledResult(startTime, '');
+        }
 
-        return new Promise((resolve) => {
-            const process = spawn(command[0], command.slice(1), {
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
+        const totals = options.progress && options.precomputeTotals && !options.dryRun
+            ? await this.estimateTotals(source, destination, options)
+            : undefined;
+        // A pause stops rsync, so every run keeps its partial files for the restart to resume from.
+        // (--append-verify would be the alternative, but rsync refuses it alongside --partial-dir.)
+        const keepPartial = options.pauseSignal && !options.customArgs?.some(arg => arg.startsWith('--partial-dir'));
+        const command = this.buildCommand(source, destination, keepPartial
+            ? { ...options, customArgs: [...(options.customArgs || []), `--partial-dir=${RSYNC_PARTIAL_DIR}`] }
+            : options);
+        const tracker = options.progress ? new RsyncProgressTracker(this.progressMode(), totals) : null;
 
+        return new Promise((resolve) => {
             let output = '';
             let errorOutput = '';
 
-            process.stdout?.on('data', (data) => {
-                const chunk = data.toString();
-                output += chunk;
-                this.emit('progress', chunk);
-            });
-
-            process.stderr?.on('data', (data) => {
-                const chunk = data.toString();
-                errorOutput += chunk;
-                this.emit('error-output', chunk);
-            });
+            const launch = async (args: string[], resuming = false) => {
+                await options.pauseSignal?.waitUntilResumed(options.signal);
+                if (options.signal?.aborted) {
+                    resolve(this.createCancelledResult(startTime, output));
+                    return;
+                }
+                if (resuming) {
+                    this.emit('resumed');
+                }
+                run(args);
+            };
 
-            process.on('close', (exitCode) => {
-                const duration = Date.now() - startTime;
-                const success = exitCode === 0;
+            const run = (args: string[]) => {
+                let interrupted = false;
+                const process = spawn(args[0], args.slice(1), {
+                    stdio: ['ignore', 'pipe', 'pipe'],
+                    ...processGroupOptions()
+                });
+                const unbindAbort = bindAbortSignal(process, options.signal);
 
-                // Parse output for transfer statistics
-                let bytesTransferred: number | undefined;
-                let filesTransferred: number | undefined;
+                // rsync is stopped rather than suspended so its network connection can't time out
+                const onPause = () => {
+                    interrupted = true;
+                    killProcessTree(process);
+                    this.emit('paused');
+                };
+                options.pauseSignal?.on('pause', onPause);
 
-                const transferMatch = output.match(/sent ([\d,]+) bytes\s+received ([\d,]+) bytes/);
-                if (transferMatch) {
-                    bytesTransferred = parseInt(transferMatch[1].replace(/,/g, '')) + 
-                                     parseInt(transferMatch[2].replace(/,/g, ''));
-                }
+                process.stdout?.on('data', (data) => {
+                    const chunk = data.toString();
+                    output += chunk;
+                    this.emit('output', chunk);
+                    tracker?.push(chunk).forEach(progress => this.emit('progress', progress));
+                });
 
-                const filesMatch = output.match(/Number of files transferred: (\d+)/);
-                if (filesMatch) {
-                    filesTransferred = parseInt(filesMatch[1]);
-                }
+                process.stderr?.on('data', (data) => {
+                    const chunk = data.toString();
+                    errorOutput += chunk;
+                    this.emit('error-output', chunk);
+                });
 
-                const result: RsyncTransferResult = {
-                    success,
-                    exitCode: exitCode || 0,
-                    output,
-                    error: errorOutput || undefined,
-                    bytesTransferred,
-                    filesTransferred,
-                    duration
-                };
+                process.on('close', (exitCode) => {
+                    unbindAbort();
+                    options.pauseSignal?.off('pause', onPause);
+
+                    if (options.signal?.aborted) {
+                        const result = this.createCancelledResult(startTime, output);
+                        this.emit('cancelled', result);
+                        resolve(result);
+                        return;
+                    }
+
+                    if (interrupted) {
+                        launch(command, true);
+                        return;
+                    }
+
+                    const duration = Date.now() - startTime;
+                    const success = exitCode === 0;
+
+                    // Restarts after a pause each print their own block; the last one covers the final run
+                    const stats = parseStats(output.slice(output.lastIndexOf('Number of files:')));
+
+                    const result: RsyncTransferResult = {
+                        success,
+                        exitCode: exitCode ?? -1,
+                        output,
+                        error: errorOutput || undefined,
+                        bytesTransferred: stats ? stats.totalBytesSent + stats.totalBytesReceived : undefined,
+                        filesTransferred: stats?.regularFilesTransferred,
+                        duration,
+                        sourceSize: stats?.totalFileSize ?? totals?.totalBytes,
+                        stats
+                    };
+
+                    this.emit('complete', result);
+                    resolve(result);
+                });
 
-                this.emit('complete', result);
-                resolve(result);
-            });
+                process.on('error', (error) => {
+                    unbindAbort();
+                    options.pauseSignal?.off('pause', onPause);
+                    const result: RsyncTransferResult = {
+                        success: false,
+                        exitCode: -1,
+                        output,
+                        error: error.message,
+                        duration: Date.now() - startTime
+                    };
+                    
+                    this.emit('error', error);
+                    resolve(result);
+                });
+            };
 
-            process.on('error', (error) => {
-                const result: RsyncTransferResult = {
-                    success: false,
-                    exitCode: -1,
-                    output,
-                    error: error.message,
-                    duration: Date.now() - startTime
-                };
-                
-                this.emit('error', error);
-                resolve(result);
-            });
+            launch(command);
         });
     }
 
+    /**
+     * Size up a transfer with `rsync --dry-run --stats`. Against an empty or missing destination
+     * the transfer figures equal the totals; against an existing copy they show the delta.
+     */
+    async estimate(source: string, destination: string, options: RsyncOptions = {}): Promise<RsyncEstimate> {
+        if (!this.isReady()) {
+            throw new Error('RsyncManager not initialized or rsync not available');
+        }
+
+        const run = await this.runStatsDryRun(source, destination, options);
+        // 23/24 mean some files couldn't be read or vanished; the stats still cover the rest
+        if (run.exitCode !== 0 && run.exitCode !== 23 && run.exitCode !== 24) {
+            throw new Error(`rsync estimate failed (exit ${run.exitCode}): ${run.error.trim() || 'no output'}`);
+        }
+        return parseEstimate(run.output);
+    }
+
     /**
      * Perform a dry run to see what would be transferred
      */
@@ -270,6 +378,7 @@ class RsyncManager extends EventEmitter {
         const transferOptions = { ...options };
         if (dest.isRemote) {
             transferOptions.compress = transferOptions.compress !== false; // Default to compression for remote
+            transferOptions.protectArgs = transferOptions.protectArgs !== false;
             
             // Add SSH options if specified
             if (options.sshKey || options.sshPort || options.sshOptions) {
@@ -313,7 +422,12 @@ class RsyncManager extends EventEmitter {
         };
 
         const sourceStr = this.buildDestinationString(source, options);
-        return this.sync(sourceStr, localDestination, options);
+        const sshArgs = options.sshKey || options.sshPort || options.sshOptions ? this.buildSSHArgs(options) : [];
+        return this.sync(sourceStr, localDestination, {
+            protectArgs: true,
+            ...options,
+            customArgs: [...(options.customArgs || []), ...sshArgs]
+        });
     }
 
     /**
@@ -346,34 +460,92 @@ class RsyncManager extends EventEmitter {
     }
 
     /**
-     * Backup files with timestamped destination
+     * Back up into a new timestamped snapshot under `backupRoot`, hard-linking unchanged files
+     * against the previous snapshot
      */
-    async backup(source: string, backupRoot: string, options: RsyncOptions = {}): Promise<RsyncTransferResult> {
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-        const backupPath = `${backupRoot}/backup-${timestamp}`;
-        
-        const backupOptions = {
-            ...options,
-            recursive: true,
-            archive: true,
-            compress: true
-        };
+    async backup(source: string, backupRoot: TransferTarget | string, options: RsyncOptions = {}): Promise<SnapshotResult> {
+        return this.snapshots(backupRoot, options).createSnapshot(source, options);
+    }
 
-        return this.transfer(source, backupPath, backupOptions);
+    /**
+     * Snapshots under a local or remote backup root, oldest first
+     */
+    async listSnapshots(backupRoot: TransferTarget | string, options: RsyncOptions = {}): Promise<Snapshot[]> {
+        return this.snapshots(backupRoot, options).listSnapshots();
+    }
+
+    /**
+     * Restore a snapshot (or 'latest') from a backup root to `destination`
+     */
+    async restoreSnapshot(backupRoot: TransferTarget | string, snapshotId: string, destination: TransferTarget | string,
+                          options: RsyncOptions = {}): Promise<RsyncTransferResult> {
+        return this.snapshots(backupRoot, options).restoreSnapshot(snapshotId, destination, options);
+    }
+
+    /**
+     * Delete snapshots under a backup root that the retention policy doesn't keep
+     */
+    async pruneSnapshots(backupRoot: TransferTarget | string, policy: RetentionPolicy,
+                         options: RsyncOptions & PruneOptions = {}): Promise<PruneResult> {
+        return this.snapshots(backupRoot, options).pruneSnapshots(policy, { dryRun: options.dryRun });
+    }
+
+    /**
+     * Snapshot manager for a backup root; `options` supplies the SSH settings for remote roots
+     */
+    snapshots(backupRoot: TransferTarget | string, options: RsyncOptions = {}): SnapshotManager {
+        const root = typeof backupRoot === 'string' ? this.parseDestination(backupRoot) : backupRoot;
+        return new SnapshotManager(this, root, options);
     }
 
     /**
-     * Get information about files that would be transferred
+     * List what a transfer would do, one itemized entry per file, directory, link or deletion
      */
     async getTransferInfo(source: string, destination: TransferTarget | string,
-                         options: RsyncOptions = {}): Promise<FileInfo[]> {
+                         options: RsyncOptions = {}): Promise<ItemizedChange[]> {
         const dryRunResult = await this.transfer(source, destination, {
             ...options,
             dryRun: true,
-            verbose: true
+            verbose: false,
+            progress: false,
+            precomputeTotals: false,
+            stats: false,
+            customArgs: [...(options.customArgs || []), '--itemize-changes', `--out-format=${ITEMIZE_OUT_FORMAT}`]
         });
 
-        return this.parseTransferInfo(dryRunResult.output);
+        // 23/24 mean some files couldn't be read or vanished; the listing still covers the rest
+        if (!dryRunResult.success && dryRunResult.exitCode !== 23 && dryRunResult.exitCode !== 24) {
+            throw new Error(`rsync dry run failed (exit ${dryRunResult.exitCode}): ${dryRunResult.error?.trim() || 'no output'}`);
+        }
+
+        return parseItemizedChanges(dryRunResult.output);
+    }
+
+    /**
+     * Itemized changes plus counts, for showing what a sync or mirror is about to do
+     */
+    async previewChanges(source: string, destination: TransferTarget | string,
+                         options: RsyncOptions = {}): Promise<ChangePreview> {
+        const changes = await this.getTransferInfo(source, destination, options);
+        const preview: ChangePreview = { changes, created: 0, updated: 0, deleted: 0, bytesToTransfer: 0 };
+
+        for (const change of changes) {
+            if (change.updateType === 'deleted') {
+                preview.deleted++;
+                continue;
+            }
+            if (change.isNew) {
+                preview.created++;
+            } else {
+                preview.updated++;
+            }
+            // Only data actually sent counts; new directories and attribute changes move no content
+            if ((change.updateType === 'sent' || change.updateType === 'received') && change.fileType === 'file') {
+                preview.bytesToTransfer += change.size;
+            }
+        }
+
+        return preview;
     }
 
     /**
@@ -451,52 +623,95 @@ class RsyncManager extends EventEmitter {
      * Build SSH arguments for remote transfers
      */
     private buildSSHArgs(options: RsyncOptions): string[] {
-        const sshArgs: string[] = [];
+        const ssh = ['ssh'];
         
         if (options.sshKey) {
-            sshArgs.push('-e', `ssh -i "${options.sshKey}"`);
+            ssh.push('-i', options.sshKey);
         }
         
         if (options.sshPort && options.sshPort !== 22) {
-            const existingSSH = sshArgs.length > 1 ? sshArgs[1] : 'ssh';
-            sshArgs[1] = `${existingSSH} -p ${options.sshPort}`;
+            ssh.push('-p', options.sshPort.toString());
         }
         
         if (options.sshOptions) {
-            const existingSSH = sshArgs.length > 1 ? sshArgs[1] : 'ssh';
-            sshArgs[1] = `${existingSSH} ${options.sshOptions.join(' ')}`;
+            ssh.push(...options.sshOptions.flatMap(option => option.split(/\s+/).filter(Boolean)));
         }
 
         if (options.timeout) {
-            const existingSSH = sshArgs.length > 1 ? sshArgs[1] : 'ssh';
-            sshArgs[1] = `${existingSSH} -o ConnectTimeout=${options.timeout}`;
+            ssh.push('-o', `ConnectTimeout=${options.timeout}`);
         }
 
-        return sshArgs;
+        // rsync splits the -e command line itself, honoring shell-style quotes
+        return ['-e', shellCommand(ssh[0], ssh.slice(1))];
+    }
+
+    private createCancelledResult(startTime: number, output: string): RsyncTransferResult {
+        return {
+            success: false,
+            exitCode: -1,
+            output,
+            error: 'Transfer cancelled',
+            duration: Date.now() - startTime,
+            cancelled: true
+        };
     }
 
     /**
-     * Parse transfer information from dry run output
+     * Whole-transfer progress (--info=progress2) needs rsync 3.1.0 or newer
      */
-    private parseTransferInfo(output: string): FileInfo[] {
-        const files: FileInfo[] = [];
-        const lines = output.split('\n');
-        
-        for (const line of lines) {
-            // Parse rsync dry-run output format
-            const fileMatch = line.match(/^([>c]f[+.][+.][+.][+.][+.][+.][+.][+.][+.]) (.+)$/);
-            if (fileMatch) {
-                const [, flags, path] = fileMatch;
-                files.push({
-                    path,
-                    size: 0, // Size not available in basic dry-run
-                    isDirectory: flags.includes('d'),
-                    permissions: flags.substring(1, 10)
-                });
-            }
-        }
-        
-        return files;
+    private progressMode(): 'file' | 'total' {
+        const version = this.compatibilityResult?.version;
+        const match = version?.match(/^(\d+)\.(\d+)/);
+        if (!match) return 'file';
+
+        const [major, minor] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+        return major > 3 || (major === 3 && minor >= 1) ? 'total' : 'file';
+    }
+
+    /**
+     * Run a quiet dry run with --stats to learn how many files and bytes the real run will move
+     */
+    private async estimateTotals(source: string, destination: string, options: RsyncOptions): Promise<RsyncTotals | undefined> {
+        const run = await this.runStatsDryRun(source, destination, options);
+        return run.exitCode === 0 ? parseDryRunTotals(run.output) : undefined;
+    }
+
+    /**
+     * Dry run with --stats and return whatever rsync printed
+     */
+    private runStatsDryRun(source: string, destination: string, options: RsyncOptions): Promise<{ exitCode: number; output: string; error: string }> {
+        const command = this.buildCommand(source, destination, {
+            ...options,
+            dryRun: true,
+            progress: false,
+            verbose: false,
+            stats: true
+        });
+
+        return new Promise((resolve) => {
+            let output = '';
+            let error = '';
+            const process = spawn(command[0], command.slice(1), {
+                stdio: ['ignore', 'pipe', 'pipe'],
+                ...processGroupOptions()
+            });
+            const unbindAbort = bindAbortSignal(process, options.signal);
+
+            process.stdout?.on('data', (data) => {
+                output += data.toString();
+            });
+
+            process.stderr?.on('data', (data) => {
+                error += data.toString();
+            });
+
+            process.on('close', (exitCode) => {
+                unbindAbort();
+                resolve({ exitCode: exitCode ?? -1, output, error });
+            });
+
+            process.on('error', (err) => resolve({ exitCode: -1, output, error: err.message }));
+        });
     }
 
     /**
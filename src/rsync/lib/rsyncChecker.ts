@@ -1,6 +1,7 @@
 import * as os from 'os';
 import { execSync, spawn } from 'child_process';
 import { SYSTEM } from '../../sys/system.js';
+import { getLogger, Logger } from '../../utils/logger.js';
 
 export interface RsyncCompatibilityResult {
     isAvailable: boolean;
@@ -24,6 +25,10 @@ export interface InstallationMethod {
  * Comprehensive Rsync compatibility checker for all major operating systems
  */
 export class RsyncCompatibilityChecker {
+    private static get logger(): Logger {
+        return getLogger('rsync-checker');
+    }
+
     /**
      * Check if Rsync is available on the current system
      */
@@ -50,7 +55,7 @@ export class RsyncCompatibilityChecker {
             };
         } catch (error) {
             // Standard rsync not found, check alternative locations
-            console.log('Standard rsync not found in PATH, checking alternative locations...');
+            this.logger.debug('Standard rsync not found in PATH, checking alternative locations...');
         }
 
         // Check alternative installation locations
@@ -81,28 +86,28 @@ export class RsyncCompatibilityChecker {
             // Check Git Bash installation
             const gitResult = await this.checkRsyncInGitBash();
             if (gitResult.isAvailable) {
-                console.log('Found rsync in Git Bash installation');
+                this.logger.debug('Found rsync in Git Bash installation');
                 return gitResult;
             }
 
             // Check WSL installations
             const wslResult = await this.checkRsyncInWSL();
             if (wslResult.isAvailable) {
-                console.log('Found rsync in WSL installation');
+                this.logger.debug('Found rsync in WSL installation');
                 return wslResult;
             }
 
             // Check Scoop installation
             const scoopResult = await this.checkRsyncInScoop();
             if (scoopResult.isAvailable) {
-                console.log('Found rsync in Scoop installation');
+                this.logger.debug('Found rsync in Scoop installation');
                 return scoopResult;
             }
 
             // Check Chocolatey installation
             const chocoResult = await this.checkRsyncInChocolatey();
             if (chocoResult.isAvailable) {
-                console.log('Found rsync in Chocolatey installation');
+                this.logger.debug('Found rsync in Chocolatey installation');
                 return chocoResult;
             }
         }
@@ -271,25 +276,25 @@ export class RsyncCompatibilityChecker {
             
             // Skip non-executable methods (manual installation required)
             if (!method.isExecutable) {
-                console.log(`Skipping ${method.method} (manual installation required)`);
+                this.logger.debug(`Skipping ${method.method} (manual installation required)`);
                 lastError = `${method.method} requires manual installation`;
                 continue;
             }
             
             try {
-                console.log(`Attempting to install rsync using ${method.method}...`);
-                console.log(`Running: ${method.command}`);
+                this.logger.info(`Attempting to install rsync using ${method.method}...`);
+                this.logger.info(`Running: ${method.command}`);
 
                 // Skip methods that require admin privileges on non-Windows systems
                 if (method.requiresAdmin && platform !== 'win32') {
-                    console.log(`Skipping ${method.method} (requires admin privileges)`);
+                    this.logger.debug(`Skipping ${method.method} (requires admin privileges)`);
                     lastError = `${method.method} requires admin privileges`;
                     continue;
                 }
 
                 // Check if the required tool is available before attempting installation
                 if (!this.isInstallationToolAvailable(method)) {
-                    console.log(`Skipping ${method.method} (tool not available)`);
+                    this.logger.debug(`Skipping ${method.method} (tool not available)`);
                     lastError = `${method.method} tool not available`;
                     continue;
                 }
@@ -310,7 +315,7 @@ export class RsyncCompatibilityChecker {
                 } else {
                     // Special handling for methods that might need additional steps
                     if (method.method === 'Git Bash') {
-                        console.log('Git installed but rsync not found. Checking if rsync is available in Git Bash...');
+                        this.logger.debug('Git installed but rsync not found. Checking if rsync is available in Git Bash...');
                         // Try to find rsync in Git installation
                         try {
                             execSync('where git', { stdio: 'pipe' });
@@ -325,7 +330,7 @@ export class RsyncCompatibilityChecker {
                             // Git not found in PATH
                         }
                     } else if (method.method === 'WSL2') {
-                        console.log('WSL2 setup completed. Checking if rsync is available in WSL...');
+                        this.logger.debug('WSL2 setup completed. Checking if rsync is available in WSL...');
                         const wslResult = await this.checkRsyncInWSL();
                         if (wslResult.isAvailable) {
                             return {
@@ -335,7 +340,7 @@ export class RsyncCompatibilityChecker {
                         }
                     }
                     
-                    console.log(`${method.method} installation completed but rsync is still not available`);
+                    this.logger.warn(`${method.method} installation completed but rsync is still not available`);
                     lastError = `${method.method} installation completed but rsync not found`;
                     continue;
                 }
@@ -344,10 +349,10 @@ export class RsyncCompatibilityChecker {
                 
                 // Enhanced error handling for specific scenarios
                 if (method.method === 'Chocolatey' && errorMessage.includes('Access to the path')) {
-                    console.log(`${method.method} failed due to permissions. Try running as administrator.`);
+                    this.logger.warn(`${method.method} failed due to permissions. Try running as administrator.`);
                     lastError = `${method.method} requires administrator privileges`;
                 } else if (method.method === 'Git Bash' && errorMessage.includes('already installed')) {
-                    console.log('Git is already installed. Checking for rsync availability...');
+                    this.logger.debug('Git is already installed. Checking for rsync availability...');
                     // Check if rsync is available in existing Git installation
                     const gitResult = await this.checkRsyncInGitBash();
                     if (gitResult.isAvailable) {
@@ -358,7 +363,7 @@ export class RsyncCompatibilityChecker {
                     }
                     lastError = `Git installed but rsync not found in Git Bash`;
                 } else if (method.method === 'WSL2' && errorMessage.includes('already exists')) {
-                    console.log('WSL Ubuntu already exists. Attempting to install rsync inside WSL...');
+                    this.logger.info('WSL Ubuntu already exists. Attempting to install rsync inside WSL...');
                     try {
                         execSync('wsl sudo apt update && wsl sudo apt install -y rsync', { 
                             stdio: 'inherit',
@@ -373,11 +378,11 @@ export class RsyncCompatibilityChecker {
                         }
                         lastError = `WSL rsync installation completed but not accessible`;
                     } catch (wslError) {
-                        console.log(`Failed to install rsync in WSL: ${wslError}`);
+                        this.logger.warn(`Failed to install rsync in WSL: ${wslError}`);
                         lastError = `WSL rsync installation failed: ${wslError}`;
                     }
                 } else {
-                    console.log(`${method.method} installation failed: ${errorMessage}`);
+                    this.logger.warn(`${method.method} installation failed: ${errorMessage}`);
                     lastError = `${method.method} failed: ${errorMessage}`;
                 }
                 continue;
@@ -415,13 +420,13 @@ export class RsyncCompatibilityChecker {
         const viableMethods = executableMethods.filter(method => {
             // Skip methods where rsync is already available
             if (this.isRsyncAlreadyAvailableForMethod(method)) {
-                console.log(`Skipping ${method.method} - rsync already available in this location`);
+                this.logger.debug(`Skipping ${method.method} - rsync already available in this location`);
                 return false;
             }
             
             // Skip methods where prerequisites don't exist
             if (!this.arePrerequisitesMet(method)) {
-                console.log(`Skipping ${method.method} - prerequisites not met`);
+                this.logger.debug(`Skipping ${method.method} - prerequisites not met`);
                 return false;
             }
             
@@ -0,0 +1,416 @@
+import type { TransferProgress } from '../../transfer/interfaces.js';
+import type { FileInfo } from './rsync.js';
+
+/**
+ * A single progress line as printed by rsync --progress or --info=progress2, e.g.
+ * "      1,234,567  45%   12.34MB/s    0:00:12 (xfr#3, to-chk=10/20)"
+ */
+export interface RsyncProgressLine {
+    bytes: number;
+    percentage: number;
+    rate: string;
+    eta: string;
+    transferNumber?: number;    // xfr#N - set on the final line of each file
+    remainingToCheck?: number;  // to-chk=R/T
+    totalToCheck?: number;
+}
+
+/**
+ * Totals gathered from a dry run with --stats
+ */
+export interface RsyncTotals {
+    totalFiles: number;
+    totalBytes: number;
+}
+
+/**
+ * Size of a source tree and of the part that would actually be sent, from a --stats dry run
+ */
+export interface RsyncEstimate {
+    totalFiles: number;         // Regular files in the source
+    totalBytes: number;         // "Total file size"
+    filesToTransfer: number;
+    bytesToTransfer: number;    // "Total transferred file size"
+}
+
+/**
+ * Entry counts split by type, from "(reg: 1,000, dir: 20, link: 3)". Older rsync prints no breakdown.
+ */
+export interface RsyncFileCounts {
+    total: number;
+    regular?: number;
+    directories?: number;
+    symlinks?: number;
+    devices?: number;
+    specials?: number;
+}
+
+/**
+ * Everything in the block rsync prints with --stats. Fields missing from older versions'
+ * output are left undefined.
+ */
+export interface RsyncStats {
+    files: RsyncFileCounts;                 // "Number of files"
+    createdFiles?: RsyncFileCounts;         // "Number of created files" (3.1+)
+    deletedFiles?: RsyncFileCounts;         // "Number of deleted files" (3.1+)
+    regularFilesTransferred: number;        // "Number of regular files transferred" ("files transferred" before 3.1)
+    totalFileSize: number;                  // Bytes in the source file list
+    totalTransferredFileSize: number;       // Bytes of the files that were sent
+    literalData: number;                    // Bytes sent as new data
+    matchedData: number;                    // Bytes reconstructed from the destination's existing copy
+    fileListSize: number;
+    fileListGenerationTime?: number;        // Seconds
+    fileListTransferTime?: number;          // Seconds
+    totalBytesSent: number;                 // On the wire, including protocol overhead
+    totalBytesReceived: number;
+    bytesPerSecond?: number;
+    speedup?: number;                       // totalFileSize / bytes on the wire
+}
+
+/**
+ * First character of an itemize string: '<' sent, '>' received, 'c' created or changed locally,
+ * 'h' hard link, '.' attributes only, '*' deleted
+ */
+export type ItemizedUpdateType = 'sent' | 'received' | 'created' | 'hardlink' | 'attributes' | 'deleted';
+
+export type ItemizedFileType = 'file' | 'directory' | 'symlink' | 'device' | 'special';
+
+/**
+ * Which attributes differ. All false for new items, which are flagged with `isNew` instead.
+ */
+export interface ItemizedAttributes {
+    checksum: boolean;      // Content differs (or link/device target for non-files)
+    size: boolean;
+    time: boolean;
+    perms: boolean;
+    owner: boolean;
+    group: boolean;
+    acl: boolean;
+    xattr: boolean;
+}
+
+/**
+ * One line of rsync's itemized output
+ */
+export interface ItemizedChange extends FileInfo {
+    itemize: string;                // Raw flags, e.g. '>f.st......' or '*deleting'
+    updateType: ItemizedUpdateType;
+    fileType: ItemizedFileType;
+    isNew: boolean;
+    attributes: ItemizedAttributes;
+    linkTarget?: string;            // Symlink or hard link target
+}
+
+/**
+ * Output format getTransferInfo asks rsync for: flags, size in bytes, name and link target
+ */
+export const ITEMIZE_OUT_FORMAT = '%i %l %n%L';
+
+const ITEMIZE_LINE = /^([<>ch.][fdLDS][.+ ?a-zA-Z]{7,9}|\*deleting)\s+([\d,.]+)\s(.+)$/;
+
+const FILE_TYPES: { [flag: string]: ItemizedFileType } = {
+    f: 'file', d: 'directory', L: 'symlink', D: 'device', S: 'special'
+};
+
+const UPDATE_TYPES: { [flag: string]: ItemizedUpdateType } = {
+    '<': 'sent', '>': 'received', c: 'created', h: 'hardlink', '.': 'attributes', '*': 'deleted'
+};
+
+const PROGRESS_LINE = /^\s*([\d,.]+[KMGTP]?)\s+(\d{1,3})%\s+(\S+\/s)\s+(\d+:\d{2}(?::\d{2})?)(?:\s+\((?:xfr|xfer)#(\d+),\s*(?:to-chk|to-check|ir-chk)=(\d+)\/(\d+)\))?/;
+
+const NON_FILE_LINES = [
+    /^sending incremental file list/,
+    /^receiving incremental file list/,
+    /^building file list/,
+    /^created directory/,
+    /^sent [\d,.]+\S* bytes/,
+    /^total size is/,
+    /^Number of /,
+    /^Total /,
+    /^Literal data/,
+    /^Matched data/,
+    /^File list /,
+    /^\s*$/,
+    /\/$/    // directories
+];
+
+/**
+ * Parse a size printed by rsync, with or without thousands separators or a human-readable suffix
+ */
+export function parseRsyncSize(value: string): number {
+    const match = value.trim().match(/^([\d,.]+)([KMGTP]?)/i);
+    if (!match) return 0;
+
+    const multipliers: { [key: string]: number } = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3, T: 1024 ** 4, P: 1024 ** 5 };
+    const unit = match[2].toUpperCase();
+    // Without a suffix, commas and dots are thousands separators depending on locale
+    const numeric = unit ? parseFloat(match[1].replace(/,/g, '')) : parseInt(match[1].replace(/[,.]/g, ''), 10);
+
+    return Math.round(numeric * multipliers[unit]);
+}
+
+/**
+ * Parse one rsync progress line, returning null for anything else
+ */
+export function parseProgressLine(line: string): RsyncProgressLine | null {
+    const match = line.match(PROGRESS_LINE);
+    if (!match) return null;
+
+    const [, bytes, percentage, rate, eta, transferNumber, remaining, total] = match;
+    return {
+        bytes: parseRsyncSize(bytes),
+        percentage: parseInt(percentage, 10),
+        rate,
+        eta,
+        transferNumber: transferNumber !== undefined ? parseInt(transferNumber, 10) : undefined,
+        remainingToCheck: remaining !== undefined ? parseInt(remaining, 10) : undefined,
+        totalToCheck: total !== undefined ? parseInt(total, 10) : undefined
+    };
+}
+
+/**
+ * Parse a decimal rsync prints with a fixed number of places, such as a rate or a speedup
+ */
+function parseRsyncDecimal(value: string): number {
+    return parseFloat(value.replace(/,/g, ''));
+}
+
+/**
+ * Parse "1,234 (reg: 1,000, dir: 234)" into counts
+ */
+function parseFileCounts(value: string): RsyncFileCounts {
+    const counts: RsyncFileCounts = { total: parseRsyncSize(value) };
+    const keys: { [label: string]: keyof Omit<RsyncFileCounts, 'total'> } = {
+        reg: 'regular', dir: 'directories', link: 'symlinks', dev: 'devices', special: 'specials'
+    };
+
+    const breakdown = value.match(/\(([^)]*)\)/);
+    for (const part of breakdown ? breakdown[1].split(',') : []) {
+        const [label, count] = part.split(':').map(item => item.trim());
+        if (keys[label] && count) {
+            counts[keys[label]] = parseRsyncSize(count);
+        }
+    }
+    return counts;
+}
+
+/**
+ * Parse the --stats block out of rsync output. Returns undefined when there isn't one.
+ */
+export function parseStats(output: string): RsyncStats | undefined {
+    const field = (label: string): string | undefined => {
+        const match = output.match(new RegExp(`^${label}:[ \\t]*(.+)$`, 'm'));
+        return match?.[1].trim();
+    };
+    const size = (label: string): number => {
+        const value = field(label);
+        return value ? parseRsyncSize(value) : 0;
+    };
+    const seconds = (label: string): number | undefined => {
+        const value = field(label);
+        return value ? parseRsyncDecimal(value) : undefined;
+    };
+
+    const files = field('Number of files');
+    if (files === undefined) return undefined;
+
+    const created = field('Number of created files');
+    const deleted = field('Number of deleted files');
+    // rsync >= 3.1 reports "regular files"; older versions count every transferred entry
+    const transferred = field('Number of regular files transferred') ?? field('Number of files transferred');
+    const summary = output.match(/^sent ([\d,.]+[KMGTP]?) bytes\s+received ([\d,.]+[KMGTP]?) bytes\s+([\d,.]+[KMGTP]?) bytes\/sec/m);
+    const speedup = output.match(/speedup is ([\d,.]+)/);
+
+    return {
+        files: parseFileCounts(files),
+        createdFiles: created !== undefined ? parseFileCounts(created) : undefined,
+        deletedFiles: deleted !== undefined ? parseFileCounts(deleted) : undefined,
+        regularFilesTransferred: transferred ? parseRsyncSize(transferred) : 0,
+        totalFileSize: size('Total file size'),
+        totalTransferredFileSize: size('Total transferred file size'),
+        literalData: size('Literal data'),
+        matchedData: size('Matched data'),
+        fileListSize: size('File list size'),
+        fileListGenerationTime: seconds('File list generation time'),
+        fileListTransferTime: seconds('File list transfer time'),
+        // "Total bytes sent" is missing from some older versions; the summary line always has it
+        totalBytesSent: field('Total bytes sent') !== undefined ? size('Total bytes sent') : (summary ? parseRsyncSize(summary[1]) : 0),
+        totalBytesReceived: field('Total bytes received') !== undefined ? size('Total bytes received') : (summary ? parseRsyncSize(summary[2]) : 0),
+        bytesPerSecond: summary ? (/[KMGTP]$/i.test(summary[3]) ? parseRsyncSize(summary[3]) : parseRsyncDecimal(summary[3])) : undefined,
+        speedup: speedup ? parseRsyncDecimal(speedup[1]) : undefined
+    };
+}
+
+/**
+ * Extract file and byte totals from the --stats block of a dry run
+ */
+export function parseDryRunTotals(output: string): RsyncTotals {
+    const stats = parseStats(output);
+    return {
+        totalFiles: stats?.regularFilesTransferred ?? 0,
+        totalBytes: stats?.totalTransferredFileSize ?? 0
+    };
+}
+
+/**
+ * Extract source and transfer sizes from the --stats block of a dry run
+ */
+export function parseEstimate(output: string): RsyncEstimate {
+    const stats = parseStats(output);
+    return {
+        // Older versions print no breakdown, so fall back to the count of every entry
+        totalFiles: stats ? stats.files.regular ?? stats.files.total : 0,
+        totalBytes: stats?.totalFileSize ?? 0,
+        filesToTransfer: stats?.regularFilesTransferred ?? 0,
+        bytesToTransfer: stats?.totalTransferredFileSize ?? 0
+    };
+}
+
+/**
+ * Parse output produced with `--out-format=${ITEMIZE_OUT_FORMAT}`, skipping anything else rsync printed
+ */
+export function parseItemizedChanges(output: string): ItemizedChange[] {
+    const changes: ItemizedChange[] = [];
+
+    for (const line of output.split('\n')) {
+        const match = line.replace(/\r$/, '').match(ITEMIZE_LINE);
+        if (!match) continue;
+
+        const [, itemize, size, name] = match;
+        const deleted = itemize === '*deleting';
+        let fileType: ItemizedFileType = deleted
+            ? (name.endsWith('/') ? 'directory' : 'file')
+            : FILE_TYPES[itemize[1]];
+
+        // %L appends " -> target" for symlinks and " => target" for hard links
+        let path = name;
+        let linkTarget: string | undefined;
+        const arrow = fileType === 'symlink' ? ' -> ' : itemize[0] === 'h' ? ' => ' : null;
+        if (arrow && name.includes(arrow)) {
+            path = name.slice(0, name.indexOf(arrow));
+            linkTarget = name.slice(name.indexOf(arrow) + arrow.length);
+        } else if (deleted && / -> /.test(name)) {
+            // A deleted symlink still gets its target from %L when rsync knows it
+            fileType = 'symlink';
+            path = name.slice(0, name.indexOf(' -> '));
+            linkTarget = name.slice(name.indexOf(' -> ') + 4);
+        }
+
+        // Flags after the type are c s t p o g u a x; rsync < 3.1 omits u
+        const flags = deleted ? '' : itemize.slice(2);
+        const isNew = !deleted && flags.length > 0 && /^\++$/.test(flags);
+        const changed = (flag: string, index: number) => !isNew && flags[index] !== undefined && flags[index].toLowerCase() === flag;
+        const offset = flags.length >= 9 ? 1 : 0;
+
+        changes.push({
+            path: path.replace(/\/$/, ''),
+            size: parseRsyncSize(size),
+            isDirectory: fileType === 'directory',
+            itemize,
+            updateType: UPDATE_TYPES[itemize[0]],
+            fileType,
+            isNew,
+            attributes: {
+                checksum: changed('c', 0),
+                size: changed('s', 1),
+                time: changed('t', 2),
+                perms: changed('p', 3),
+                owner: changed('o', 4),
+                group: changed('g', 5),
+                acl: changed('a', 6 + offset),
+                xattr: changed('x', 7 + offset)
+            },
+            linkTarget
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Turns a stream of rsync stdout chunks into TransferProgress updates.
+ *
+ * In 'total' mode (--info=progress2) each line already carries cumulative bytes. In 'file'
+ * mode (--progress) each line describes the current file only, so completed files are summed.
+ */
+export class RsyncProgressTracker {
+    private buffer = '';
+    private currentFile = '';
+    private completedBytes = 0;
+    private filesTransferred = 0;
+
+    constructor(
+        private mode: 'file' | 'total',
+        private totals?: RsyncTotals
+    ) {}
+
+    /**
+     * Feed a raw stdout chunk and get back any progress updates it contains
+     */
+    push(chunk: string): TransferProgress[] {
+        this.buffer += chunk;
+        // Progress lines are redrawn with carriage returns, file names end with newlines
+        const lines = this.buffer.split(/[\r\n]/);
+        this.buffer = lines.pop() ?? '';
+
+        const updates: TransferProgress[] = [];
+        for (const line of lines) {
+            const update = this.processLine(line);
+            if (update) updates.push(update);
+        }
+        return updates;
+    }
+
+    private processLine(line: string): TransferProgress | null {
+        const progress = parseProgressLine(line);
+
+        if (!progress) {
+            const trimmed = line.trim();
+            if (!NON_FILE_LINES.some(pattern => pattern.test(trimmed))) {
+                this.currentFile = trimmed;
+            }
+            return null;
+        }
+
+        let bytesTransferred: number;
+        if (this.mode === 'total') {
+            bytesTransferred = progress.bytes;
+            if (progress.transferNumber !== undefined) {
+                this.filesTransferred = progress.transferNumber;
+            }
+        } else {
+            bytesTransferred = this.completedBytes + progress.bytes;
+            if (progress.transferNumber !== undefined) {
+                this.completedBytes += progress.bytes;
+                this.filesTransferred = progress.transferNumber;
+            }
+        }
+
+        let totalBytes = this.totals?.totalBytes ?? 0;
+        if (!totalBytes && this.mode === 'total' && progress.percentage > 0) {
+            // progress2 percentages are relative to the whole transfer, so the total can be inferred
+            totalBytes = Math.round(progress.bytes * 100 / progress.percentage);
+        }
+        const totalFiles = this.totals?.totalFiles || progress.totalToCheck || 0;
+
+        let percentage: number;
+        if (this.mode === 'total') {
+            percentage = progress.percentage;
+        } else if (totalBytes > 0) {
+            percentage = Math.min((bytesTransferred / totalBytes) * 100, 100);
+        } else {
+            percentage = progress.percentage;
+        }
+
+        return {
+            bytesTransferred,
+            totalBytes,
+            filesTransferred: this.filesTransferred,
+            totalFiles,
+            currentFile: this.currentFile,
+            transferRate: progress.rate,
+            timeRemaining: progress.eta,
+            percentage
+        };
+    }
+}
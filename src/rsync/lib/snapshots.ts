@@ -0,0 +1,464 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import type RsyncManager from './rsync.js';
+import type { RsyncOptions, RsyncTransferResult, TransferTarget } from './rsync.js';
+import { selectRetained } from './retention.js';
+import { runCommand, runRemoteCommand, quoteShellArg } from '../../utils/command-runner.js';
+import type { RetentionPolicy, PruneOptions, PruneResult, PrunedSnapshot } from './retention.js';
+
+export interface Snapshot {
+    id: string;                 // Directory name, e.g. backup-2024-05-01_12-00-00
+    path: string;               // Full path under the backup root (remote path for remote roots)
+    date: Date;
+    size: number;               // Apparent size of every file in the snapshot
+    uniqueSize: number;         // Bytes stored only in this snapshot, i.e. freed by deleting it
+    isLatest: boolean;
+}
+
+export interface SnapshotResult extends RsyncTransferResult {
+    snapshotId?: string;        // Set once the snapshot is complete
+    snapshotPath?: string;
+    linkDest?: string;          // Previous snapshot unchanged files were hard-linked against
+}
+
+/**
+ * A file's inode as seen from one snapshot
+ */
+export interface SnapshotInode {
+    size: number;
+    nlink: number;              // Hard links to the inode anywhere on the filesystem
+    links: number;              // Hard links to it inside this snapshot
+}
+
+export const SNAPSHOT_PREFIX = 'backup-';
+export const LATEST_LINK = 'latest';
+const IN_PROGRESS_SUFFIX = '.inprogress';
+
+// backup-YYYY-MM-DD_HH-mm-ss with an optional -N collision suffix; legacy backups have only the date
+const SNAPSHOT_NAME = /^backup-(\d{4})-(\d{2})-(\d{2})(?:_(\d{2})-(\d{2})-(\d{2}))?(?:-(\d+))?$/;
+
+/**
+ * Parse a snapshot directory name into its (UTC) date, or null if it isn't one
+ */
+export function parseSnapshotName(name: string): Date | null {
+    const match = name.match(SNAPSHOT_NAME);
+    if (!match) return null;
+
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+    return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+}
+
+export function formatSnapshotName(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${SNAPSHOT_PREFIX}${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+        + `_${pad(date.getUTCHours())}-${pad(date.getUTCMinutes())}-${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Bytes freed by deleting the given snapshots together. An inode is only freed once every
+ * link to it is gone, so files shared with a surviving snapshot don't count.
+ */
+export function freedBytes(usage: Map<string, Map<string, SnapshotInode>>, ids: string[]): number {
+    const removed = new Map<string, SnapshotInode>();
+    for (const id of ids) {
+        for (const [key, inode] of usage.get(id) || []) {
+            const entry = removed.get(key);
+            if (entry) {
+                entry.links += inode.links;
+            } else {
+                removed.set(key, { ...inode });
+            }
+        }
+    }
+
+    let freed = 0;
+    for (const inode of removed.values()) {
+        if (inode.links >= inode.nlink) freed += inode.size;
+    }
+    return freed;
+}
+
+/**
+ * Hard-link snapshots under a local or remote backup root.
+ *
+ * Each backup is written to `<name>.inprogress` with `--link-dest` pointing at the previous
+ * snapshot, so unchanged files cost no space, and is renamed into place only once rsync
+ * succeeds. `latest` is a symlink to the newest complete snapshot. An interrupted run leaves
+ * its `.inprogress` directory behind and the next backup continues from it, deleting whatever
+ * has left the source in the meantime.
+ */
+export class SnapshotManager {
+    constructor(
+        private rsync: RsyncManager,
+        private root: TransferTarget,
+        private options: RsyncOptions = {}
+    ) {}
+
+    /**
+     * Back up `source` into a new snapshot
+     */
+    async createSnapshot(source: string, options: RsyncOptions = {}): Promise<SnapshotResult> {
+        const names = await this.listNames();
+        const previous = await this.findLatest(names);
+
+        const base = formatSnapshotName(new Date());
+        let id = base;
+        for (let n = 2; names.includes(id); n++) {
+            id = `${base}-${n}`;
+        }
+        const workingName = id + IN_PROGRESS_SUFFIX;
+
+        let resumed = false;
+        if (!options.dryRun) {
+            await this.mkdir(this.root.path);
+            // Pick up where an interrupted backup left off instead of starting over
+            const leftover = names.find(name => name.endsWith(IN_PROGRESS_SUFFIX)
+                && parseSnapshotName(name.slice(0, -IN_PROGRESS_SUFFIX.length)));
+            if (leftover) {
+                await this.rename(leftover, workingName);
+                resumed = true;
+            }
+        }
+
+        const transferOptions: RsyncOptions = {
+            ...this.connectionOptions(options),
+            recursive: true,
+            archive: true,
+            // Files the interrupted run copied may have been deleted from the source since
+            ...(resumed ? { delete: true } : {}),
+            // Relative to the destination directory, which works the same locally and over ssh
+            customArgs: [...(options.customArgs || []), ...(previous ? [`--link-dest=../${previous}`] : [])]
+        };
+
+        const result: SnapshotResult = await this.rsync.transfer(source, { ...this.root, path: this.join(workingName) }, transferOptions);
+        result.linkDest = previous ? this.join(previous) : undefined;
+
+        if (!result.success || options.dryRun) {
+            return result;
+        }
+
+        await this.rename(workingName, id);
+        await this.pointLatestAt(id);
+
+        result.snapshotId = id;
+        result.snapshotPath = this.join(id);
+        return result;
+    }
+
+    /**
+     * Complete snapshots, oldest first, with their sizes
+     */
+    async listSnapshots(): Promise<Snapshot[]> {
+        const names = await this.listNames();
+        const latest = await this.findLatest(names);
+        const usage = await this.scanUsage();
+
+        return this.snapshotIds(names).map(id => {
+            let size = 0;
+            for (const inode of (usage.get(id) || new Map<string, SnapshotInode>()).values()) {
+                size += inode.size * inode.links;
+            }
+
+            return {
+                id,
+                path: this.join(id),
+                date: parseSnapshotName(id)!,
+                size,
+                uniqueSize: freedBytes(usage, [id]),
+                isLatest: id === latest
+            };
+        });
+    }
+
+    /**
+     * Copy a snapshot's contents to `destination`. `snapshotId` may be 'latest'.
+     */
+    async restoreSnapshot(snapshotId: string, destination: TransferTarget | string, options: RsyncOptions = {}): Promise<RsyncTransferResult> {
+        const names = await this.listNames();
+        const id = snapshotId === LATEST_LINK ? await this.findLatest(names) : snapshotId;
+        if (!id || !this.snapshotIds(names).includes(id)) {
+            throw new Error(`Snapshot not found in ${this.root.path}: ${snapshotId}`);
+        }
+
+        const restoreOptions: RsyncOptions = { ...this.connectionOptions(options), recursive: true, archive: true };
+        const snapshotPath = this.join(id) + '/';
+
+        if (!this.root.isRemote) {
+            return this.rsync.transfer(snapshotPath, destination, restoreOptions);
+        }
+        if (typeof destination !== 'string' && destination.isRemote) {
+            throw new Error('Cannot restore a remote snapshot to another remote host');
+        }
+        return this.rsync.transferFromRemote(this.root.host!, snapshotPath,
+            typeof destination === 'string' ? destination : destination.path,
+            this.root.user || restoreOptions.sshUser, restoreOptions);
+    }
+
+    /**
+     * Delete snapshots the retention policy doesn't keep. Count rules go first; then, while the
+     * snapshots take more than `maxTotalSize` or the filesystem has less than `minFreeSpace`
+     * free, the oldest remaining snapshot goes too. Unfinished `.inprogress` runs are left alone.
+     */
+    async pruneSnapshots(policy: RetentionPolicy, options: PruneOptions = {}): Promise<PruneResult> {
+        const names = await this.listNames();
+        const snapshots = this.snapshotIds(names).map(id => ({ id, date: parseSnapshotName(id)! }));
+        const usage = await this.scanUsage();
+        const allIds = snapshots.map(snapshot => snapshot.id);
+
+        const retained = selectRetained(snapshots, policy);
+        const deleted: PrunedSnapshot[] = snapshots
+            .filter(snapshot => !retained.has(snapshot.id))
+            .map(snapshot => ({ ...snapshot, reason: 'not kept by any rule' }));
+
+        const totalSizeBefore = freedBytes(usage, allIds);
+        const freeSpaceBefore = policy.minFreeSpace !== undefined ? await this.freeSpace() : undefined;
+        const deletedIds = () => deleted.map(snapshot => snapshot.id);
+
+        // Oldest first, never the newest snapshot
+        const candidates = snapshots.filter(snapshot => retained.has(snapshot.id)).slice(0, -1);
+        for (const candidate of candidates) {
+            const remainingSize = totalSizeBefore - freedBytes(usage, deletedIds());
+            if (policy.maxTotalSize !== undefined && remainingSize > policy.maxTotalSize) {
+                deleted.push({ ...candidate, reason: 'maxTotalSize' });
+            } else if (freeSpaceBefore !== undefined && freeSpaceBefore + freedBytes(usage, deletedIds()) < policy.minFreeSpace!) {
+                deleted.push({ ...candidate, reason: 'minFreeSpace' });
+            } else {
+                break;
+            }
+        }
+
+        const freed = freedBytes(usage, deletedIds());
+        if (!options.dryRun) {
+            for (const snapshot of deleted) {
+                await this.deleteSnapshot(snapshot.id);
+            }
+        }
+
+        return {
+            dryRun: options.dryRun === true,
+            kept: snapshots
+                .filter(snapshot => !deletedIds().includes(snapshot.id))
+                .map(snapshot => ({ ...snapshot, reasons: retained.get(snapshot.id)! })),
+            deleted: deleted.sort((a, b) => a.date.getTime() - b.date.getTime()),
+            freedBytes: freed,
+            totalSizeBefore,
+            totalSizeAfter: totalSizeBefore - freed,
+            freeSpaceBefore
+        };
+    }
+
+    /**
+     * Every file inode in each snapshot (including unfinished ones), keyed by snapshot id and
+     * then by device:inode. Used to work out what deleting snapshots would actually free.
+     */
+    async scanUsage(): Promise<Map<string, Map<string, SnapshotInode>>> {
+        const usage = new Map<string, Map<string, SnapshotInode>>();
+        const record = (id: string, key: string, size: number, nlink: number) => {
+            if (!usage.has(id)) usage.set(id, new Map());
+            const inodes = usage.get(id)!;
+            const existing = inodes.get(key);
+            if (existing) {
+                existing.links++;
+            } else {
+                inodes.set(key, { size, nlink, links: 1 });
+            }
+        };
+
+        if (this.root.isRemote) {
+            const output = await this.runSsh(
+                `cd -- ${quoteShellArg(this.root.path)} 2>/dev/null || exit 0; `
+                + `find . -mindepth 2 -type f -printf '%D:%i %n %s %P\\0'`
+            );
+            for (const entry of output.split('\0')) {
+                const match = entry.match(/^(\S+) (\d+) (\d+) ([^/]+)\//);
+                if (match && parseSnapshotName(match[4].replace(/\.inprogress$/, ''))) {
+                    record(match[4], match[1], parseInt(match[3], 10), parseInt(match[2], 10));
+                }
+            }
+            return usage;
+        }
+
+        const walk = async (id: string, dir: string): Promise<void> => {
+            const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(id, entryPath);
+                } else if (entry.isFile()) {
+                    const stats = await fs.lstat(entryPath);
+                    record(id, `${stats.dev}:${stats.ino}`, stats.size, stats.nlink);
+                }
+            }
+        };
+
+        for (const name of await this.listNames()) {
+            if (parseSnapshotName(name.replace(/\.inprogress$/, ''))) {
+                await walk(name, this.join(name));
+            }
+        }
+        return usage;
+    }
+
+    /**
+     * Delete one snapshot directory, moving `latest` to the next newest first if it pointed there
+     */
+    private async deleteSnapshot(id: string): Promise<void> {
+        const names = await this.listNames();
+        if (await this.findLatest(names) === id) {
+            const remaining = this.snapshotIds(names).filter(name => name !== id);
+            if (remaining.length > 0) {
+                await this.pointLatestAt(remaining[remaining.length - 1]);
+            } else {
+                await this.removeLatest();
+            }
+        }
+
+        if (this.root.isRemote) {
+            await this.runSsh(`rm -rf -- ${quoteShellArg(this.join(id))}`);
+        } else {
+            await fs.rm(this.join(id), { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Free bytes on the filesystem holding the backup root
+     */
+    private async freeSpace(): Promise<number> {
+        // statfs needs Node 18.15; older versions fall back to df
+        if (!this.root.isRemote && typeof fs.statfs === 'function') {
+            const stats = await fs.statfs(this.root.path);
+            return stats.bavail * stats.bsize;
+        }
+
+        // POSIX df output: filesystem, 1K-blocks, used, available, capacity, mount point
+        const command = `df -Pk -- ${quoteShellArg(this.root.path)}`;
+        const output = this.root.isRemote ? await this.runSsh(command) : await this.runLocal('df', ['-Pk', '--', this.root.path]);
+        const fields = output.trim().split('\n').pop()?.trim().split(/\s+/) || [];
+        const available = parseInt(fields[3], 10);
+        if (isNaN(available)) {
+            throw new Error(`Could not read free space for ${this.root.path}`);
+        }
+        return available * 1024;
+    }
+
+    /**
+     * Complete snapshot ids, oldest first
+     */
+    private snapshotIds(names: string[]): string[] {
+        return names
+            .filter(name => parseSnapshotName(name))
+            .sort((a, b) => parseSnapshotName(a)!.getTime() - parseSnapshotName(b)!.getTime() || a.localeCompare(b, undefined, { numeric: true }));
+    }
+
+    /**
+     * The snapshot `latest` points at, or the newest one if the link is missing or broken
+     */
+    private async findLatest(names: string[]): Promise<string | undefined> {
+        const ids = this.snapshotIds(names);
+        let target: string | undefined;
+
+        if (this.root.isRemote) {
+            target = (await this.runSsh(`readlink -- ${quoteShellArg(this.join(LATEST_LINK))} || true`)).trim();
+        } else {
+            target = await fs.readlink(this.join(LATEST_LINK)).catch(() => undefined);
+        }
+
+        const linked = target ? path.basename(target.replace(/[\\/]+$/, '')) : undefined;
+        return linked && ids.includes(linked) ? linked : ids[ids.length - 1];
+    }
+
+    private async listNames(): Promise<string[]> {
+        if (this.root.isRemote) {
+            const output = await this.runSsh(
+                `[ -d ${quoteShellArg(this.root.path)} ] || exit 0; find ${quoteShellArg(this.root.path)} -mindepth 1 -maxdepth 1 -type d -printf '%f\\0'`
+            );
+            return output.split('\0').filter(Boolean);
+        }
+
+        const entries = await fs.readdir(this.root.path, { withFileTypes: true }).catch(() => []);
+        return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    }
+
+    private async pointLatestAt(id: string): Promise<void> {
+        const linkPath = this.join(LATEST_LINK);
+
+        if (this.root.isRemote) {
+            await this.runSsh(`ln -sfn -- ${quoteShellArg(id)} ${quoteShellArg(linkPath)}`);
+            return;
+        }
+
+        if (os.platform() === 'win32') {
+            // Directory symlinks need elevation on Windows; junctions don't but must be absolute
+            await this.removeLatest();
+            await fs.symlink(path.resolve(this.join(id)), linkPath, 'junction');
+            return;
+        }
+
+        // Swap the link in with a rename so `latest` is never missing
+        const tempPath = `${linkPath}.${process.pid}.tmp`;
+        await fs.rm(tempPath, { force: true });
+        await fs.symlink(id, tempPath);
+        await fs.rename(tempPath, linkPath);
+    }
+
+    private async removeLatest(): Promise<void> {
+        if (this.root.isRemote) {
+            await this.runSsh(`rm -f -- ${quoteShellArg(this.join(LATEST_LINK))}`);
+        } else {
+            await fs.rm(this.join(LATEST_LINK), { force: true });
+        }
+    }
+
+    private async mkdir(dir: string): Promise<void> {
+        if (this.root.isRemote) {
+            await this.runSsh(`mkdir -p -- ${quoteShellArg(dir)}`);
+        } else {
+            await fs.mkdir(dir, { recursive: true });
+        }
+    }
+
+    private async rename(from: string, to: string): Promise<void> {
+        if (this.root.isRemote) {
+            await this.runSsh(`mv -- ${quoteShellArg(this.join(from))} ${quoteShellArg(this.join(to))}`);
+        } else {
+            await fs.rename(this.join(from), this.join(to));
+        }
+    }
+
+    /**
+     * Per-call options on top of the manager's, with the root's port used for ssh
+     */
+    private connectionOptions(options: RsyncOptions): RsyncOptions {
+        return { ...this.options, ...options, sshPort: this.root.port || options.sshPort || this.options.sshPort };
+    }
+
+    private join(name: string): string {
+        return this.root.isRemote ? path.posix.join(this.root.path, name) : path.join(this.root.path, name);
+    }
+
+    private async runLocal(command: string, args: string[]): Promise<string> {
+        const result = await runCommand(command, args);
+        if (result.error) throw result.error;
+        if (result.exitCode !== 0) {
+            throw new Error(`${command} failed: ${result.stderr.trim() || `exited with ${result.exitCode}`}`);
+        }
+        return result.stdout;
+    }
+
+    private async runSsh(command: string): Promise<string> {
+        const result = await runRemoteCommand({
+            host: this.root.host!,
+            user: this.root.user || this.options.sshUser,
+            port: this.root.port || this.options.sshPort,
+            keyFile: this.options.sshKey,
+            connectTimeout: this.options.timeout || 10,
+            sshOptions: (this.options.sshOptions || []).flatMap(option => option.split(/\s+/).filter(Boolean))
+        }, command);
+        if (result.error) throw result.error;
+        if (result.exitCode !== 0) {
+            throw new Error(`Snapshot command failed on ${this.root.host}: ${result.stderr.trim() || `ssh exited with ${result.exitCode}`}`);
+        }
+        return result.stdout;
+    }
+}
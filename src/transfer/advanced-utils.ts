@@ -2,9 +2,14 @@ import { EventEmitter } from 'events';
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { execSync, spawn, ChildProcess } from 'child_process';
+import { Stats } from 'fs';
+import { spawn, ChildProcess } from 'child_process';
 import { TransferTarget, TransferResult, TransferOptions } from './interfaces.js';
 import { createUnifiedTransferManager, UnifiedTransferManager } from './manager.js';
+import { FilterSet, FilterOptions, IgnoreFileContent } from './filters.js';
+import { runCommand, runRemoteCommand, sshArgs, quoteShellArg, commandFailure } from '../utils/command-runner.js';
+import { processGroupOptions, bindAbortSignal, killProcessTree } from '../utils/process-control.js';
+import { getLogger } from '../utils/logger.js';
 
 /**
  * Advanced transfer utilities for application integration
@@ -39,10 +44,30 @@ export interface FileMetadata {
     modified: Date;
     accessed: Date;
     permissions?: string;
+    uid?: number;
+    gid?: number;
+    linkTarget?: string;        // Where a symlink points, as stored in the link
     isHidden: boolean;
     relativePath: string;
 }
 
+export interface EnumerateOptions extends FilterOptions {
+    includeHidden?: boolean;    // Default: false
+    maxDepth?: number;          // 1 lists only the root's entries (default: unlimited)
+    concurrency?: number;       // Directories read at the same time (default: 8)
+    followSymlinks?: boolean;   // Report what links point to instead of the links (default: false)
+    keyFile?: string;           // SSH key for a remote target
+    signal?: AbortSignal;       // Stop walking; the iterator then ends early
+    onError?: (error: EnumerationError) => void; // Unreadable directories and entries are skipped and reported here
+}
+
+export interface EnumerationError {
+    path: string;
+    relativePath: string;
+    code?: string;              // e.g. 'EACCES', 'ENOENT', or 'ELOOP' for a directory cycle
+    message: string;
+}
+
 export interface FileTransferTiming {
     file: FileMetadata;
     startTime: Date;
@@ -294,7 +319,7 @@ export class NetworkConnectionManager {
         try {
             // Try to test SMB connection
             const smbPath = `\\\\${target.host}\\${target.path.replace(/\//g, '\\\\')}`;
-            execSync(`dir "${smbPath}" /A`, { stdio: 'ignore', timeout: 5000 });
+            await fs.readdir(smbPath);
             
             return {
                 success: true,
@@ -317,7 +342,8 @@ export class NetworkConnectionManager {
         try {
             // Try to mount AFP share
             const afpPath = `afp://${target.host}${target.path}`;
-            execSync(`ls "${afpPath}" 2>/dev/null`, { stdio: 'ignore', timeout: 5000 });
+            const result = await runCommand('ls', [afpPath], { timeout: 5000 });
+            if (result.exitCode !== 0) throw new Error(commandFailure('ls', result));
             
             return {
                 success: true,
@@ -339,7 +365,8 @@ export class NetworkConnectionManager {
     private static async tryNFSConnection(target: TransferTarget, startTime: number): Promise<NetworkConnectionResult> {
         try {
             // Try to test NFS mount
-            execSync(`showmount -e ${target.host}`, { stdio: 'ignore', timeout: 5000 });
+            const result = await runCommand('showmount', ['-e', target.host!], { timeout: 5000 });
+            if (result.exitCode !== 0) throw new Error(commandFailure('showmount', result));
             
             return {
                 success: true,
@@ -359,128 +386,337 @@ export class NetworkConnectionManager {
     }
 }
 
+// Fields per entry in a remote listing (see FileEnumerator.remoteListCommand)
+const REMOTE_RECORD_FIELDS = 10;
+
+// find and stat -f only print permission bits; add the file type bits lstat would report
+const REMOTE_TYPE_BITS: { [type in FileMetadata['type']]: number } = {
+    file: 0o100000,
+    directory: 0o040000,
+    symlink: 0o120000
+};
+
 /**
  * File and Folder Enumeration Utilities
  */
 export class FileEnumerator {
     /**
-     * Get all files and folders recursively within a target
+     * Get all files and folders recursively within a target. `options` takes the same filter
+     * rules as a transfer, including respectIgnoreFiles, and the rest of EnumerateOptions such
+     * as keyFile; excluded directories aren't descended into.
      */
-    static async enumerateFiles(target: TransferTarget, includeHidden: boolean = false): Promise<FileMetadata[]> {
+    static async enumerateFiles(target: TransferTarget, includeHidden: boolean = false, options: Omit<EnumerateOptions, 'includeHidden'> = {}): Promise<FileMetadata[]> {
         const files: FileMetadata[] = [];
-        
+        for await (const file of this.enumerate(target, { ...options, includeHidden })) {
+            files.push(file);
+        }
+        return files;
+    }
+
+    /**
+     * Walk a target and yield entries as they are found, parents before their contents.
+     * Local trees are read with lstat, so symlinks come back as 'symlink' unless
+     * followSymlinks is set; directories already visited (by device and inode) aren't entered
+     * again. Up to `concurrency` directories are read ahead of the consumer.
+     */
+    static async *enumerate(target: TransferTarget, options: EnumerateOptions = {}): AsyncGenerator<FileMetadata> {
         if (target.isRemote) {
-            return await this.enumerateRemoteFiles(target, includeHidden);
-        } else {
-            return await this.enumerateLocalFiles(target.path, '', includeHidden);
+            yield* this.enumerateRemote(target, options);
+            return;
+        }
+
+        const filters = await FilterSet.fromOptions(options, target.path);
+        const concurrency = Math.max(1, options.concurrency ?? 8);
+        const visited = new Set<string>();
+        const pending: { dir: string; relativePath: string; depth: number }[] = [];
+        const reading = new Map<number, Promise<{ id: number; entries: FileMetadata[]; subdirs: typeof pending }>>();
+        let nextId = 0;
+
+        try {
+            const rootStats = await fs.stat(target.path);
+            visited.add(`${rootStats.dev}:${rootStats.ino}`);
+            pending.push({ dir: target.path, relativePath: '', depth: 0 });
+        } catch (error: any) {
+            options.onError?.({ path: target.path, relativePath: '', code: error.code, message: error.message });
+            return;
+        }
+
+        while (pending.length > 0 || reading.size > 0) {
+            if (options.signal?.aborted) return;
+
+            while (reading.size < concurrency && pending.length > 0) {
+                const id = nextId++;
+                const next = pending.shift()!;
+                reading.set(id, this.readLocalDirectory(next.dir, next.relativePath, next.depth, filters, visited, options)
+                    .then(result => ({ id, ...result })));
+            }
+
+            const { id, entries, subdirs } = await Promise.race(reading.values());
+            reading.delete(id);
+            pending.push(...subdirs);
+
+            for (const entry of entries) {
+                if (options.signal?.aborted) return;
+                yield entry;
+            }
         }
     }
 
-    private static async enumerateLocalFiles(
-        basePath: string, 
-        relativePath: string, 
-        includeHidden: boolean
-    ): Promise<FileMetadata[]> {
+    /**
+     * Metadata for paths relative to a remote target, fetched in one ssh round trip. Paths
+     * that can't be stat'd are left out and reported to onError.
+     */
+    static async statRemote(target: TransferTarget, relativePaths: string[], onError?: (error: EnumerationError) => void): Promise<FileMetadata[]> {
         const files: FileMetadata[] = [];
-        const fullPath = path.join(basePath, relativePath);
-        
+        if (relativePaths.length === 0) return files;
+        for await (const file of this.streamRemote(target, relativePaths, { includeHidden: true, onError })) {
+            files.push(file);
+        }
+        return files;
+    }
+
+    private static async *enumerateRemote(target: TransferTarget, options: EnumerateOptions): AsyncGenerator<FileMetadata> {
+        let filterSet = await FilterSet.fromOptions(options);
+        if (filterSet.ignoreFileNames.length > 0) {
+            filterSet = filterSet.withIgnoreFiles(await this.readRemoteIgnoreFiles(target, filterSet.ignoreFileNames, options.keyFile));
+        }
+        for await (const file of this.streamRemote(target, undefined, options)) {
+            if (filterSet.isPathIncluded(file.relativePath, file.type === 'directory', { size: file.size, mtimeMs: file.modified.getTime() })) {
+                yield file;
+            }
+        }
+    }
+
+    /**
+     * Run one listing over ssh and parse its NUL-separated records as they arrive. Without
+     * `startPoints` the whole tree under target.path is walked; otherwise only those paths
+     * are stat'd. Lines find or ssh write to stderr are passed to onError.
+     */
+    private static async *streamRemote(target: TransferTarget, startPoints: string[] | undefined, options: EnumerateOptions): AsyncGenerator<FileMetadata> {
+        // Spawned directly rather than through runCommand, to parse stdout as raw bytes while it streams
+        const connection = { host: target.host!, user: target.user, port: target.port, keyFile: options.keyFile };
+        const args = [...sshArgs(connection), this.remoteListCommand(target, startPoints, options)];
+        const child = spawn('ssh', args, { stdio: ['ignore', 'pipe', 'pipe'], ...processGroupOptions() });
+        const unbindAbort = bindAbortSignal(child, options.signal);
+
+        let stderr = '';
+        child.stderr!.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+        const exited = new Promise<number | null>(resolve => {
+            child.on('error', (error) => { stderr += `${error.message}\n`; resolve(null); });
+            child.on('close', resolve);
+        });
+
+        let buffered = Buffer.alloc(0);
+        let fields: string[] = [];
+        let finished = false;
         try {
-            const stat = await fs.stat(fullPath);
-            const items = await fs.readdir(fullPath);
-            
-            for (const item of items) {
-                if (!includeHidden && item.startsWith('.')) {
-                    continue;
-                }
-                
-                const itemPath = path.join(fullPath, item);
-                const itemRelativePath = path.join(relativePath, item);
-                const itemStat = await fs.stat(itemPath);
-                
-                const metadata: FileMetadata = {
-                    path: itemPath,
-                    name: item,
-                    size: itemStat.size,
-                    type: itemStat.isDirectory() ? 'directory' : (itemStat.isSymbolicLink() ? 'symlink' : 'file'),
-                    extension: path.extname(item),
-                    created: itemStat.birthtime,
-                    modified: itemStat.mtime,
-                    accessed: itemStat.atime,
-                    permissions: itemStat.mode.toString(8),
-                    isHidden: item.startsWith('.'),
-                    relativePath: itemRelativePath
-                };
-                
-                // Add MIME type for files
-                if (metadata.type === 'file') {
-                    metadata.mimeType = this.getMimeType(metadata.extension || '');
-                }
-                
-                files.push(metadata);
-                
-                // Recurse into directories
-                if (itemStat.isDirectory()) {
-                    const subFiles = await this.enumerateLocalFiles(basePath, itemRelativePath, includeHidden);
-                    files.push(...subFiles);
+            for await (const chunk of child.stdout!) {
+                buffered = Buffer.concat([buffered, chunk as Buffer]);
+                let end: number;
+                while ((end = buffered.indexOf(0)) !== -1) {
+                    fields.push(buffered.subarray(0, end).toString('utf8'));
+                    buffered = buffered.subarray(end + 1);
+                    if (fields.length === REMOTE_RECORD_FIELDS) {
+                        yield this.fromRemoteRecord(target, fields);
+                        fields = [];
+                    }
                 }
             }
-            
-        } catch (error) {
-            console.warn(`Failed to enumerate ${fullPath}:`, error);
+            finished = true;
+        } finally {
+            unbindAbort();
+            if (!finished) killProcessTree(child);
+        }
+
+        const code = await exited;
+        if (options.signal?.aborted) return;
+        const lines = stderr.split('\n').filter(line => line.trim());
+        if (lines.length === 0 && code !== 0) {
+            lines.push(`ssh exited with ${code}`);
+        }
+        for (const line of lines) {
+            // find: './dir': Permission denied
+            const match = line.match(/^find: [‘'`]?(.+?)[’']?: ([^:]+)$/);
+            const relativePath = match ? match[1].replace(/^\.\/?/, '') : '';
+            const message = match ? match[2] : line;
+            options.onError?.({
+                path: relativePath ? path.posix.join(target.path, relativePath) : target.path,
+                relativePath,
+                code: /permission denied/i.test(message) ? 'EACCES'
+                    : /no such file/i.test(message) ? 'ENOENT'
+                    : /loop/i.test(message) ? 'ELOOP' : undefined,
+                message
+            });
+        }
+    }
+
+    /**
+     * Shell command printing type, size, mtime, atime, ctime, mode, uid, gid, link target
+     * and path for each entry, NUL-separated. GNU find does it with -printf; elsewhere
+     * (macOS, BSD) each batch of paths goes through stat -f instead.
+     */
+    private static remoteListCommand(target: TransferTarget, startPoints: string[] | undefined, options: EnumerateOptions): string {
+        const follow = options.followSymlinks === true;
+
+        const selection = [
+            follow ? '-L' : '',
+            startPoints ? startPoints.map(point => quoteShellArg(`./${point}`)).join(' ') : '.',
+            startPoints ? '-maxdepth 0' : '-mindepth 1',
+            !startPoints && options.maxDepth !== undefined ? `-maxdepth ${options.maxDepth}` : '',
+            !startPoints && !options.includeHidden ? `-name '.*' -prune -o` : ''
+        ].filter(Boolean).join(' ');
+
+        const gnu = `find ${selection} -printf '%y\\0%s\\0%T@\\0%A@\\0%C@\\0%m\\0%U\\0%G\\0%l\\0%p\\0'`;
+        const typeTest = follow
+            ? 'if [ -d "$f" ]; then t=d; elif [ -e "$f" ]; then t=f; else t=l; fi'
+            : 'if [ -L "$f" ]; then t=l; elif [ -d "$f" ]; then t=d; else t=f; fi';
+        const perFile = `for f do ${typeTest}; `
+            + `set -- $(stat ${follow ? '-L ' : ''}-f "%z %m %a %c %Lp %u %g" "$f") && `
+            + `printf "%s\\0" "$t" "$1" "$2" "$3" "$4" "$5" "$6" "$7" "$(readlink "$f")" "$f"; done`;
+        const bsd = `find ${selection} -exec sh -c '${perFile}' sh {} +`;
+
+        return `cd -- ${quoteShellArg(target.path)} && ${this.gnuOrBsdFind(gnu, bsd)}`;
+    }
+
+    /**
+     * Run `gnu` where find understands -printf and `bsd` everywhere else
+     */
+    private static gnuOrBsdFind(gnu: string, bsd: string): string {
+        return `if find . -maxdepth 0 -printf '' >/dev/null 2>&1; then ${gnu}; else ${bsd}; fi`;
+    }
+
+    private static fromRemoteRecord(target: TransferTarget, record: string[]): FileMetadata {
+        const [type, size, mtime, atime, ctime, mode, uid, gid, linkTarget, itemPath] = record;
+        const relativePath = itemPath.replace(/^\.\//, '');
+        const name = path.posix.basename(relativePath);
+        const kind = type === 'd' ? 'directory' : (type === 'l' ? 'symlink' : 'file');
+
+        const metadata: FileMetadata = {
+            path: path.posix.join(target.path, relativePath),
+            name,
+            size: parseInt(size, 10),
+            type: kind,
+            extension: path.posix.extname(name),
+            created: new Date(parseFloat(ctime) * 1000),
+            modified: new Date(parseFloat(mtime) * 1000),
+            accessed: new Date(parseFloat(atime) * 1000),
+            permissions: (REMOTE_TYPE_BITS[kind] | parseInt(mode, 8)).toString(8),
+            uid: parseInt(uid, 10),
+            gid: parseInt(gid, 10),
+            isHidden: name.startsWith('.'),
+            relativePath
+        };
+        if (linkTarget) {
+            metadata.linkTarget = linkTarget;
+        }
+        if (metadata.type === 'file') {
+            metadata.mimeType = this.getMimeType(metadata.extension || '');
+        }
+        return metadata;
+    }
+
+    /**
+     * Every ignore file under a remote root with its contents, in one ssh round trip. Like
+     * remoteListCommand, this falls back to a plain shell loop where find has no -printf.
+     */
+    static async readRemoteIgnoreFiles(target: TransferTarget, names: string[], keyFile?: string): Promise<IgnoreFileContent[]> {
+        const selection = `find . -type f \\( ${names.map(name => `-name ${quoteShellArg(name)}`).join(' -o ')} \\)`;
+        const gnu = `${selection} -printf '%P\\0' -exec cat {} \\; -printf '\\0'`;
+        const bsd = `${selection} -exec sh -c 'for f do printf "%s\\0" "\${f#./}"; cat "$f"; printf "\\0"; done' sh {} +`;
+        const command = `cd -- ${quoteShellArg(target.path)} && ${this.gnuOrBsdFind(gnu, bsd)}`;
+        const result = await runRemoteCommand({ host: target.host!, user: target.user, port: target.port, keyFile }, command, { timeout: 30000 });
+        if (result.exitCode !== 0) {
+            throw new Error(`Failed to read ignore files on ${target.host}: ${commandFailure('find', result)}`);
         }
         
+        const fields = result.stdout.split('\0');
+        const files: IgnoreFileContent[] = [];
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            files.push({ relativePath: fields[i], content: fields[i + 1] });
+        }
         return files;
     }
 
-    private static async enumerateRemoteFiles(target: TransferTarget, includeHidden: boolean): Promise<FileMetadata[]> {
-        // For remote files, we'll use rsync or SSH to get file listings
+    /**
+     * One directory's entries, plus the subdirectories to read next
+     */
+    private static async readLocalDirectory(
+        dir: string,
+        relativePath: string,
+        depth: number,
+        filters: FilterSet,
+        visited: Set<string>,
+        options: EnumerateOptions
+    ): Promise<{ entries: FileMetadata[]; subdirs: { dir: string; relativePath: string; depth: number }[] }> {
+        const entries: FileMetadata[] = [];
+        const subdirs: { dir: string; relativePath: string; depth: number }[] = [];
+
+        let names: string[];
         try {
-            if (target.host) {
-                const command = includeHidden ? 'find . -type f -o -type d' : 'find . -not -path "*/.*" -type f -o -type d';
-                const sshCommand = `ssh ${target.user ? target.user + '@' : ''}${target.host} "cd ${target.path} && ${command}"`;
-                
-                const output = execSync(sshCommand, { encoding: 'utf8', timeout: 30000 });
-                const lines = output.split('\n').filter(line => line.trim());
-                
-                const files: FileMetadata[] = [];
-                
-                for (const line of lines) {
-                    try {
-                        const statCommand = `ssh ${target.user ? target.user + '@' : ''}${target.host} "stat -c '%n|%s|%Y|%X|%Z|%A' ${path.join(target.path, line)}"`;
-                        const statOutput = execSync(statCommand, { encoding: 'utf8', timeout: 5000 });
-                        const [name, size, mtime, atime, ctime, perms] = statOutput.trim().split('|');
-                        
-                        const metadata: FileMetadata = {
-                            path: path.join(target.path, line),
-                            name: path.basename(line),
-                            size: parseInt(size),
-                            type: line.endsWith('/') ? 'directory' : 'file',
-                            extension: path.extname(line),
-                            created: new Date(parseInt(ctime) * 1000),
-                            modified: new Date(parseInt(mtime) * 1000),
-                            accessed: new Date(parseInt(atime) * 1000),
-                            permissions: perms,
-                            isHidden: path.basename(line).startsWith('.'),
-                            relativePath: line
-                        };
-                        
-                        if (metadata.type === 'file') {
-                            metadata.mimeType = this.getMimeType(metadata.extension || '');
-                        }
-                        
-                        files.push(metadata);
-                    } catch {
-                        // Skip files that can't be stat'd
-                    }
+            names = await fs.readdir(dir);
+        } catch (error: any) {
+            options.onError?.({ path: dir, relativePath, code: error.code, message: error.message });
+            return { entries, subdirs };
+        }
+
+        for (const name of names.sort()) {
+            if (!options.includeHidden && name.startsWith('.')) continue;
+
+            const itemPath = path.join(dir, name);
+            const itemRelativePath = path.join(relativePath, name);
+            let itemStat: Stats;
+            try {
+                itemStat = await fs.lstat(itemPath);
+                if (itemStat.isSymbolicLink() && options.followSymlinks) {
+                    itemStat = await fs.stat(itemPath);
                 }
-                
-                return files;
+            } catch (error: any) {
+                options.onError?.({ path: itemPath, relativePath: itemRelativePath, code: error.code, message: error.message });
+                continue;
+            }
+            if (!filters.isIncluded(itemRelativePath, itemStat.isDirectory(), itemStat)) continue;
+
+            const metadata = this.toMetadata(itemPath, name, itemRelativePath, itemStat);
+            if (itemStat.isSymbolicLink()) {
+                metadata.linkTarget = await fs.readlink(itemPath).catch(() => undefined);
+            }
+            entries.push(metadata);
+
+            if (itemStat.isDirectory() && (options.maxDepth === undefined || depth + 1 < options.maxDepth)) {
+                const key = `${itemStat.dev}:${itemStat.ino}`;
+                if (visited.has(key)) {
+                    options.onError?.({ path: itemPath, relativePath: itemRelativePath, code: 'ELOOP', message: 'Directory already visited; not entering it again' });
+                    continue;
+                }
+                visited.add(key);
+                subdirs.push({ dir: itemPath, relativePath: itemRelativePath, depth: depth + 1 });
             }
-        } catch (error) {
-            console.warn('Failed to enumerate remote files:', error);
         }
+        return { entries, subdirs };
+    }
+
+    private static toMetadata(itemPath: string, name: string, relativePath: string, stats: Stats): FileMetadata {
+        const metadata: FileMetadata = {
+            path: itemPath,
+            name,
+            size: stats.size,
+            type: stats.isDirectory() ? 'directory' : (stats.isSymbolicLink() ? 'symlink' : 'file'),
+            extension: path.extname(name),
+            created: stats.birthtime,
+            modified: stats.mtime,
+            accessed: stats.atime,
+            permissions: stats.mode.toString(8),
+            uid: stats.uid,
+            gid: stats.gid,
+            isHidden: name.startsWith('.'),
+            relativePath
+        };
         
-        return [];
+        // Add MIME type for files
+        if (metadata.type === 'file') {
+            metadata.mimeType = this.getMimeType(metadata.extension || '');
+        }
+        return metadata;
     }
 
     private static getMimeType(extension: string): string {
@@ -694,8 +930,9 @@ export class FileOperationsManager {
         const sessionId = sessionManager?.startSession();
         
         try {
+            // Only the clipboard entries, not everything else in their source directory
             const result = await manager.transfer(this.clipboard.source, destination, {
-                include: this.clipboard.files
+                filters: FilterSet.selectionRules(this.clipboard.files)
             });
             
             // If it was a cut operation, delete source files after successful copy
@@ -737,51 +974,37 @@ export class FileOperationsManager {
     }
 
     private static async getFileMetadata(source: TransferTarget, filePaths: string[]): Promise<FileMetadata[]> {
+        if (source.isRemote) {
+            // One ssh round trip for the whole selection
+            return FileEnumerator.statRemote(source, filePaths, (error) => {
+                getLogger('file-operations').warn(`Failed to get metadata for ${error.relativePath || source.path}`, { error: error.message, code: error.code });
+            });
+        }
+
         const metadata: FileMetadata[] = [];
         
         for (const filePath of filePaths) {
             try {
-                if (source.isRemote) {
-                    // Get remote file metadata via SSH
-                    const fullPath = path.join(source.path, filePath);
-                    const command = `ssh ${source.user ? source.user + '@' : ''}${source.host} "stat -c '%n|%s|%Y|%X|%Z|%A' '${fullPath}'"`;
-                    const output = execSync(command, { encoding: 'utf8', timeout: 5000 });
-                    const [name, size, mtime, atime, ctime, perms] = output.trim().split('|');
-                    
-                    metadata.push({
-                        path: fullPath,
-                        name: path.basename(filePath),
-                        size: parseInt(size),
-                        type: 'file', // Simplified for now
-                        extension: path.extname(filePath),
-                        created: new Date(parseInt(ctime) * 1000),
-                        modified: new Date(parseInt(mtime) * 1000),
-                        accessed: new Date(parseInt(atime) * 1000),
-                        permissions: perms,
-                        isHidden: path.basename(filePath).startsWith('.'),
-                        relativePath: filePath
-                    });
-                } else {
-                    // Get local file metadata
-                    const fullPath = path.join(source.path, filePath);
-                    const stat = await fs.stat(fullPath);
-                    
-                    metadata.push({
-                        path: fullPath,
-                        name: path.basename(filePath),
-                        size: stat.size,
-                        type: stat.isDirectory() ? 'directory' : 'file',
-                        extension: path.extname(filePath),
-                        created: stat.birthtime,
-                        modified: stat.mtime,
-                        accessed: stat.atime,
-                        permissions: stat.mode.toString(8),
-                        isHidden: path.basename(filePath).startsWith('.'),
-                        relativePath: filePath
-                    });
-                }
+                const fullPath = path.join(source.path, filePath);
+                const stat = await fs.stat(fullPath);
+                
+                metadata.push({
+                    path: fullPath,
+                    name: path.basename(filePath),
+                    size: stat.size,
+                    type: stat.isDirectory() ? 'directory' : 'file',
+                    extension: path.extname(filePath),
+                    created: stat.birthtime,
+                    modified: stat.mtime,
+                    accessed: stat.atime,
+                    permissions: stat.mode.toString(8),
+                    uid: stat.uid,
+                    gid: stat.gid,
+                    isHidden: path.basename(filePath).startsWith('.'),
+                    relativePath: filePath
+                });
             } catch (error) {
-                console.warn(`Failed to get metadata for ${filePath}:`, error);
+                getLogger('file-operations').warn(`Failed to get metadata for ${filePath}`, { error });
             }
         }
         
@@ -791,15 +1014,16 @@ export class FileOperationsManager {
     private static async deleteSourceFiles(operation: CopyOperation): Promise<void> {
         // Implementation depends on whether source is local or remote
         if (operation.source.isRemote) {
-            // Delete remote files via SSH
-            for (const filePath of operation.files) {
-                try {
-                    const fullPath = path.join(operation.source.path, filePath);
-                    const command = `ssh ${operation.source.user ? operation.source.user + '@' : ''}${operation.source.host} "rm -rf '${fullPath}'"`;
-                    execSync(command, { timeout: 10000 });
-                } catch (error) {
-                    console.warn(`Failed to delete remote file ${filePath}:`, error);
-                }
+            // Delete remote files via SSH, all in one command
+            const { source } = operation;
+            const fullPaths = operation.files.map(filePath => path.posix.join(source.path, filePath));
+            const result = await runRemoteCommand(
+                { host: source.host!, user: source.user, port: source.port },
+                ['rm', '-rf', '--', ...fullPaths],
+                { timeout: 10000 }
+            );
+            if (result.exitCode !== 0) {
+                getLogger('file-operations').warn(`Failed to delete remote files on ${source.host}`, { error: commandFailure('rm', result) });
             }
         } else {
             // Delete local files
@@ -808,7 +1032,7 @@ export class FileOperationsManager {
                     const fullPath = path.join(operation.source.path, filePath);
                     await fs.rm(fullPath, { recursive: true });
                 } catch (error) {
-                    console.warn(`Failed to delete local file ${filePath}:`, error);
+                    getLogger('file-operations').warn(`Failed to delete local file ${filePath}`, { error });
                 }
             }
         }
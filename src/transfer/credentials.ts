@@ -0,0 +1,210 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { TransferOptions, TransferResult } from './interfaces.js';
+import { quoteShellArg } from '../utils/command-runner.js';
+
+/**
+ * Credentials for network shares, password-protected archives and ssh logins. Secrets are
+ * never put on a command line: tools get them on stdin, through their environment, or from
+ * an askpass helper that reads a 0600 file, and results are redacted before they're returned.
+ */
+
+export type CredentialPurpose = 'smb' | 'ssh' | 'zip';
+
+export interface CredentialRequest {
+    purpose: CredentialPurpose;
+    host?: string;              // Not set for archives
+    share?: string;             // Share or path on the host
+    username?: string;          // Already known from the options or target
+}
+
+export interface Credentials {
+    username?: string;
+    password?: string;
+}
+
+export type CredentialResolver = (request: CredentialRequest) => Credentials | undefined | Promise<Credentials | undefined>;
+
+/**
+ * The lookup half of a system keyring. keytar matches this, and MemoryKeyring stands in
+ * for tests and platforms without one.
+ */
+export interface Keyring {
+    getPassword(service: string, account: string): string | null | undefined | Promise<string | null | undefined>;
+}
+
+/**
+ * Keyring kept in memory for the life of the process
+ */
+export class MemoryKeyring implements Keyring {
+    private passwords = new Map<string, string>();
+
+    setPassword(service: string, account: string, password: string): void {
+        this.passwords.set(`${service}\0${account}`, password);
+    }
+
+    getPassword(service: string, account: string): string | undefined {
+        return this.passwords.get(`${service}\0${account}`);
+    }
+
+    deletePassword(service: string, account: string): boolean {
+        return this.passwords.delete(`${service}\0${account}`);
+    }
+}
+
+/**
+ * Looks credentials up when a provider needs them, and remembers every password it hands
+ * out so results can be redacted afterwards
+ */
+export class CredentialProvider {
+    private issued = new Set<string>();
+
+    constructor(private resolver: CredentialResolver) {}
+
+    async resolve(request: CredentialRequest): Promise<Credentials | undefined> {
+        const credentials = await this.resolver(request);
+        if (!credentials?.password) {
+            return undefined;
+        }
+        this.issued.add(credentials.password);
+        return { username: credentials.username ?? request.username, password: credentials.password };
+    }
+
+    /**
+     * Every password resolved so far
+     */
+    secrets(): string[] {
+        return [...this.issued];
+    }
+
+    static fromCallback(resolver: CredentialResolver): CredentialProvider {
+        return new CredentialProvider(resolver);
+    }
+
+    /**
+     * Read `<PREFIX>_<HOST>_USERNAME`/`_PASSWORD`, falling back to `<PREFIX>_USERNAME`/`_PASSWORD`.
+     * The host is upper-cased with anything but letters and digits replaced by `_`.
+     */
+    static fromEnv(prefix: string = 'FAST_TRANSFER', env: NodeJS.ProcessEnv = process.env): CredentialProvider {
+        return new CredentialProvider((request) => {
+            const scoped = request.host ? `${prefix}_${request.host.toUpperCase().replace(/[^A-Z0-9]/g, '_')}` : undefined;
+            const password = (scoped && env[`${scoped}_PASSWORD`]) || env[`${prefix}_PASSWORD`];
+            if (!password) return undefined;
+            const username = (scoped && env[`${scoped}_USERNAME`]) || env[`${prefix}_USERNAME`] || request.username;
+            return { username, password };
+        });
+    }
+
+    /**
+     * Look passwords up in a keyring under `service`, by `user@host` when the username is
+     * known and by host otherwise (archives use the account `zip`)
+     */
+    static fromKeyring(keyring: Keyring, service: string = 'fast-transferlib'): CredentialProvider {
+        return new CredentialProvider(async (request) => {
+            const host = request.host ?? request.purpose;
+            const account = request.username ? `${request.username}@${host}` : host;
+            const password = await keyring.getPassword(service, account);
+            return password ? { username: request.username, password } : undefined;
+        });
+    }
+
+    /**
+     * Ask each provider in turn until one has a password
+     */
+    static chain(...providers: CredentialProvider[]): CredentialProvider {
+        return new CredentialProvider(async (request) => {
+            for (const provider of providers) {
+                const credentials = await provider.resolve(request);
+                if (credentials) return credentials;
+            }
+            return undefined;
+        });
+    }
+}
+
+/**
+ * Credentials from `options.username`/`options.password` if a password is set there,
+ * otherwise from `options.credentials`
+ */
+export async function resolveCredentials(options: TransferOptions, request: CredentialRequest): Promise<Credentials | undefined> {
+    if (options.password) {
+        return { username: options.username ?? request.username, password: options.password };
+    }
+    return options.credentials?.resolve({ ...request, username: request.username ?? options.username });
+}
+
+/**
+ * Every secret a transfer with these options may have used
+ */
+export function collectSecrets(options: TransferOptions): string[] {
+    return [options.password, ...(options.credentials?.secrets() ?? [])].filter((secret): secret is string => !!secret);
+}
+
+/**
+ * Replace each secret in `text` with ***, including the percent-encoded form used in URLs
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+    let redacted = text;
+    for (const secret of secrets) {
+        for (const form of new Set([secret, encodeURIComponent(secret)])) {
+            redacted = redacted.split(form).join('***');
+        }
+    }
+    return redacted;
+}
+
+/**
+ * A copy of `result` with secrets removed from its output and error
+ */
+export function redactResult<T extends TransferResult>(result: T, secrets: string[]): T {
+    if (secrets.length === 0) {
+        return result;
+    }
+    return {
+        ...result,
+        output: redactSecrets(result.output, secrets),
+        error: result.error !== undefined ? redactSecrets(result.error, secrets) : undefined,
+        attempts: result.attempts?.map(attempt => attempt.error !== undefined
+            ? { ...attempt, error: redactSecrets(attempt.error, secrets) }
+            : attempt)
+    };
+}
+
+/**
+ * Write `contents` to a file only the current user can read, in a fresh private directory,
+ * and remove both once `use` settles
+ */
+export async function withSecretFile<T>(contents: string, use: (file: string, directory: string) => Promise<T>): Promise<T> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-secret-'));
+    try {
+        await fs.chmod(directory, 0o700);
+        const file = path.join(directory, 'secret');
+        await fs.writeFile(file, contents, { mode: 0o600, flag: 'wx' });
+        return await use(file, directory);
+    } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Run `use` with an environment whose SSH_ASKPASS helper prints `password`. ssh only asks
+ * the helper when it has no terminal, which is the case for the detached tools we start.
+ */
+export async function withAskpass<T>(password: string, use: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+    return withSecretFile(password + '\n', async (file, directory) => {
+        const windows = os.platform() === 'win32';
+        const helper = path.join(directory, windows ? 'askpass.cmd' : 'askpass.sh');
+        const script = windows
+            ? `@type "${file}"\r\n`
+            : `#!/bin/sh\nexec cat ${quoteShellArg(file)}\n`;
+        await fs.writeFile(helper, script, { mode: 0o700, flag: 'wx' });
+
+        return use({
+            ...process.env,
+            SSH_ASKPASS: helper,
+            SSH_ASKPASS_REQUIRE: 'force',
+            DISPLAY: process.env.DISPLAY || ':0' // OpenSSH before 8.4 only uses the helper with a display set
+        });
+    });
+}
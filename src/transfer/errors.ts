@@ -0,0 +1,292 @@
+import type { TransferResult } from './interfaces.js';
+
+/**
+ * Stable codes for why a transfer failed, whichever tool ran it. The free-form `error` text
+ * stays for people; these are for code.
+ */
+export type TransferErrorCode =
+    | 'ENOSPC'                  // Destination is full
+    | 'EACCES'                  // Permission denied on a file or directory
+    | 'ENOENT'                  // Source or destination path doesn't exist
+    | 'IO_ERROR'                // Other read/write failure
+    | 'AUTH_FAILED'             // Login to the remote host or share was refused
+    | 'HOST_UNREACHABLE'        // Name lookup, refused connection, no route
+    | 'CONNECTION_LOST'         // Connection dropped mid-transfer
+    | 'TIMEOUT'                 // No data within the tool's timeout
+    | 'PROTOCOL_MISMATCH'       // The two ends couldn't agree (versions, noisy remote shell)
+    | 'PARTIAL_TRANSFER'        // Some files copied, some failed (see fileErrors)
+    | 'VANISHED_SOURCE'         // Source files disappeared while being copied
+    | 'INVALID_OPTIONS'         // The tool rejected its arguments
+    | 'TOOL_UNAVAILABLE'        // The tool couldn't be started
+    | 'NO_PROVIDER'             // No provider could handle the targets and options
+    | 'VERIFICATION_FAILED'     // Copied, but the copy doesn't match the source
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+/**
+ * One file the tool reported it couldn't copy
+ */
+export interface FileError {
+    path: string;               // As the tool printed it
+    code: TransferErrorCode;
+    message: string;
+}
+
+/**
+ * Codes worth retrying by default: the network hiccupped, but nothing about the transfer
+ * itself is wrong. rsync's exit codes 10, 12, 30 and 35 land here.
+ */
+export const RETRYABLE_ERROR_CODES: readonly TransferErrorCode[] = ['CONNECTION_LOST', 'TIMEOUT'];
+
+/**
+ * Base class for failures thrown by the transfer APIs. Subclasses group the codes by what
+ * a caller can do about them; `code` is the precise reason.
+ */
+export class TransferError extends Error {
+    readonly code: TransferErrorCode;
+    readonly exitCode?: number;
+    readonly fileErrors: FileError[];
+
+    constructor(code: TransferErrorCode, message: string, details: { exitCode?: number; fileErrors?: FileError[] } = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.exitCode = details.exitCode;
+        this.fileErrors = details.fileErrors ?? [];
+    }
+
+    /**
+     * Whether trying again may succeed
+     */
+    get retryable(): boolean {
+        return RETRYABLE_ERROR_CODES.includes(this.code);
+    }
+
+    /**
+     * An error of the subclass that matches `code`
+     */
+    static fromCode(code: TransferErrorCode, message: string, details: { exitCode?: number; fileErrors?: FileError[] } = {}): TransferError {
+        switch (code) {
+            case 'ENOSPC':
+            case 'EACCES':
+            case 'ENOENT':
+            case 'IO_ERROR':
+                return new FileSystemError(code, message, details);
+            case 'AUTH_FAILED':
+            case 'HOST_UNREACHABLE':
+            case 'CONNECTION_LOST':
+            case 'TIMEOUT':
+                return new ConnectionError(code, message, details);
+            case 'PROTOCOL_MISMATCH':
+            case 'INVALID_OPTIONS':
+            case 'TOOL_UNAVAILABLE':
+            case 'NO_PROVIDER':
+                return new ConfigurationError(code, message, details);
+            case 'PARTIAL_TRANSFER':
+            case 'VANISHED_SOURCE':
+            case 'VERIFICATION_FAILED':
+                return new PartialTransferError(code, message, details);
+            default:
+                return new TransferError(code, message, details);
+        }
+    }
+
+    /**
+     * The error a failed result describes
+     */
+    static fromResult(result: TransferResult): TransferError {
+        return TransferError.fromCode(result.errorCode ?? 'UNKNOWN', result.error || `${result.method} exited with ${result.exitCode}`, {
+            exitCode: result.exitCode,
+            fileErrors: result.fileErrors
+        });
+    }
+}
+
+/**
+ * Disk full, permission denied, missing paths and other local or remote file system errors
+ */
+export class FileSystemError extends TransferError {}
+
+/**
+ * Couldn't reach, log in to, or stay connected to the remote end
+ */
+export class ConnectionError extends TransferError {}
+
+/**
+ * The tools or options can't work together; retrying won't help
+ */
+export class ConfigurationError extends TransferError {}
+
+/**
+ * The transfer ran, but not every file arrived intact
+ */
+export class PartialTransferError extends TransferError {}
+
+/**
+ * rsync exit codes, from its man page
+ */
+const RSYNC_EXIT_CODES: { [exitCode: number]: TransferErrorCode } = {
+    1: 'INVALID_OPTIONS',       // Syntax or usage error
+    2: 'PROTOCOL_MISMATCH',     // Protocol incompatibility
+    3: 'ENOENT',                // Errors selecting input/output files, dirs
+    4: 'INVALID_OPTIONS',       // Requested action not supported
+    5: 'PROTOCOL_MISMATCH',     // Error starting client-server protocol
+    6: 'IO_ERROR',              // Daemon unable to append to log file
+    10: 'CONNECTION_LOST',      // Error in socket I/O
+    11: 'IO_ERROR',             // Error in file I/O
+    12: 'CONNECTION_LOST',      // Error in rsync protocol data stream
+    13: 'IO_ERROR',             // Errors with program diagnostics
+    14: 'IO_ERROR',             // Error in IPC code
+    20: 'CANCELLED',            // Received SIGUSR1 or SIGINT
+    21: 'UNKNOWN',              // Some error returned by waitpid()
+    22: 'IO_ERROR',             // Error allocating core memory buffers
+    23: 'PARTIAL_TRANSFER',     // Partial transfer due to error
+    24: 'VANISHED_SOURCE',      // Partial transfer due to vanished source files
+    25: 'PARTIAL_TRANSFER',     // The --max-delete limit stopped deletions
+    30: 'TIMEOUT',              // Timeout in data send/receive
+    35: 'TIMEOUT',              // Timeout waiting for daemon connection
+    127: 'TOOL_UNAVAILABLE'
+};
+
+/**
+ * Exit codes that only say something went wrong; the message says what
+ */
+const GENERIC_EXIT_CODES = new Set([-1, 1, 10, 11, 12, 255]);
+
+/**
+ * Tool messages to codes, checked in order. Login failures come before permission errors
+ * because ssh words them as "Permission denied (publickey)".
+ */
+const MESSAGE_PATTERNS: [RegExp, TransferErrorCode][] = [
+    [/could not be started|spawn \S+ ENOENT|command not found|not recognized as an internal or external command/i, 'TOOL_UNAVAILABLE'],
+    [/Permission denied \((?:publickey|password|keyboard-interactive|gssapi)|Authentication failed|Too many authentication failures|Host key verification failed|auth failed on module|Logon failure|ERROR 1326\b|ERROR 86\b/i, 'AUTH_FAILED'],
+    [/Could not resolve hostname|Name or service not known|nodename nor servname|Connection refused|No route to host|Network is unreachable|Connection timed out during banner|connect to host .* port \d+: (?:Connection timed out|Operation timed out)|network path was not found|ERROR 5[13]\b|ERROR 67\b/i, 'HOST_UNREACHABLE'],
+    [/protocol version mismatch|is your shell clean|incompatible protocol|protocol error|unexpected tag|invalid message/i, 'PROTOCOL_MISMATCH'],
+    [/No space left on device|Disk quota exceeded|not enough space on the disk|ERROR 112\b|ERROR 39\b/i, 'ENOSPC'],
+    [/file has vanished|File removed before we read it|file changed as we read it/i, 'VANISHED_SOURCE'],
+    [/Permission denied|Access is denied|Operation not permitted|Read-only file system|EACCES|EPERM|ERROR 5\b|ERROR 32\b/i, 'EACCES'],
+    [/No such file or directory|cannot find the (?:file|path) specified|ENOENT|ERROR [23]\b/i, 'ENOENT'],
+    [/Connection reset|Connection closed|connection unexpectedly closed|Broken pipe|lost connection|ERROR 64\b|ERROR 121\b/i, 'CONNECTION_LOST'],
+    [/timed out|timeout/i, 'TIMEOUT'],
+    [/Input\/output error|I\/O error|EIO\b/i, 'IO_ERROR'],
+    [/unknown option|unrecognized option|invalid option|Invalid Parameter|syntax or usage error/i, 'INVALID_OPTIONS']
+];
+
+/**
+ * The code for a tool message, if it matches a known pattern
+ */
+export function classifyMessage(message: string): TransferErrorCode | undefined {
+    return MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1];
+}
+
+/**
+ * Node's errno codes for the file system and socket errors a transfer can hit
+ */
+const NODE_ERROR_CODES: { [code: string]: TransferErrorCode } = {
+    ENOSPC: 'ENOSPC',
+    EDQUOT: 'ENOSPC',
+    EACCES: 'EACCES',
+    EPERM: 'EACCES',
+    EROFS: 'EACCES',
+    ENOENT: 'ENOENT',
+    ENOTDIR: 'ENOENT',
+    EIO: 'IO_ERROR',
+    ETIMEDOUT: 'TIMEOUT',
+    ECONNRESET: 'CONNECTION_LOST',
+    EPIPE: 'CONNECTION_LOST',
+    ECONNREFUSED: 'HOST_UNREACHABLE',
+    EHOSTUNREACH: 'HOST_UNREACHABLE',
+    ENETUNREACH: 'HOST_UNREACHABLE',
+    ENOTFOUND: 'HOST_UNREACHABLE'
+};
+
+/**
+ * The code for an error thrown by Node's fs or net APIs
+ */
+export function classifyNodeError(error: NodeJS.ErrnoException): TransferErrorCode | undefined {
+    return (error.code && NODE_ERROR_CODES[error.code]) || (error.name === 'AbortError' ? 'CANCELLED' : undefined);
+}
+
+/**
+ * The code for an rsync exit status
+ */
+export function classifyRsyncExit(exitCode: number): TransferErrorCode | undefined {
+    return RSYNC_EXIT_CODES[exitCode];
+}
+
+/**
+ * Robocopy's exit code is a bitmask: 1 files copied, 2 extra files, 4 mismatches (all
+ * successful), 8 some files failed, 16 a fatal error that stopped the copy
+ */
+export function classifyRobocopyExit(exitCode: number): TransferErrorCode | undefined {
+    if (exitCode < 0) return undefined;
+    if (exitCode & 16) return 'UNKNOWN';
+    if (exitCode & 8) return 'PARTIAL_TRANSFER';
+    return undefined;
+}
+
+/**
+ * Per-file failures printed by rsync, cp, tar, scp and robocopy
+ */
+export function parseFileErrors(output: string): FileError[] {
+    const errors: FileError[] = [];
+    const lines = output.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(/^file has vanished: "(.+)"$/))) {
+            errors.push({ path: match[1], code: 'VANISHED_SOURCE', message: 'file has vanished' });
+        } else if ((match = line.match(/^rsync: (?:\[\w+\] )?.*?"(.+)"(?: failed)?: (.+?)(?: \(\d+\))?$/))) {
+            errors.push({ path: match[1], code: classifyMessage(match[2]) ?? 'IO_ERROR', message: match[2] });
+        } else if ((match = line.match(/^cp: (?:cannot|error) [\w ]+? '(.+)'(?: for reading)?: (.+)$/))) {
+            errors.push({ path: match[1], code: classifyMessage(match[2]) ?? 'IO_ERROR', message: match[2] });
+        } else if ((match = line.match(/^tar: (.+?): (?:Cannot [\w ]+: )?(.+)$/)) && !/^(?:Exiting|Removing leading|Error is not recoverable)/.test(match[1])) {
+            errors.push({ path: match[1], code: classifyMessage(match[2]) ?? 'IO_ERROR', message: match[2] });
+        } else if ((match = line.match(/^scp: (.+?): (.+)$/))) {
+            errors.push({ path: match[1], code: classifyMessage(match[2]) ?? 'IO_ERROR', message: match[2] });
+        } else if ((match = line.match(/ERROR (\d+) \(0x[0-9A-Fa-f]+\) [A-Za-z ]+? ((?:[A-Za-z]:|\\\\).*)$/))) {
+            // Robocopy puts the Windows message on the next line
+            const message = (lines[i + 1] ?? '').trim() || `ERROR ${match[1]}`;
+            errors.push({ path: match[2].trim(), code: classifyMessage(`ERROR ${match[1]} ${message}`) ?? 'IO_ERROR', message });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * The error code and per-file errors for a finished transfer
+ */
+export function classifyResult(result: TransferResult): { errorCode?: TransferErrorCode; fileErrors: FileError[] } {
+    const text = `${result.error ?? ''}\n${result.output}`;
+    const fileErrors = parseFileErrors(text);
+
+    if (result.success) {
+        return { fileErrors };
+    }
+    if (result.status === 'cancelled') {
+        return { errorCode: 'CANCELLED', fileErrors };
+    }
+
+    const fromExit = result.method === 'rsync'
+        ? classifyRsyncExit(result.exitCode)
+        : result.method === 'robocopy' ? classifyRobocopyExit(result.exitCode) : undefined;
+
+    // A specific exit code wins; a generic one defers to what the tool printed
+    if (fromExit && fromExit !== 'UNKNOWN' && !GENERIC_EXIT_CODES.has(result.exitCode)) {
+        return { errorCode: fromExit, fileErrors };
+    }
+
+    // Tools that copy file by file exit non-zero when any file fails
+    const codes = new Set(fileErrors.map(error => error.code));
+    const fromFiles = codes.size === 1 ? fileErrors[0].code : codes.size > 1 ? 'PARTIAL_TRANSFER' : undefined;
+
+    // Robocopy reports on stdout, so the output is the last place to look
+    const errorCode = fromFiles
+        ?? classifyMessage(result.error ?? '')
+        ?? (fromExit !== 'UNKNOWN' ? fromExit : undefined)
+        ?? (result.method === 'robocopy' ? classifyMessage(result.output) : undefined);
+    return { errorCode: errorCode ?? 'UNKNOWN', fileErrors };
+}
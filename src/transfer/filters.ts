@@ -0,0 +1,463 @@
+import * as fs from 'fs/promises';
+import { Stats } from 'fs';
+import { join, sep } from 'path';
+import type { TransferOptions } from './interfaces.js';
+
+/**
+ * One include/exclude rule with rsync semantics: rules are checked in order and the first
+ * match decides. `*` and `?` stop at `/`, `**` doesn't, a leading `/` anchors the pattern to
+ * the transfer root, a trailing `/` only matches directories, and `dir/***` matches a directory
+ * together with everything inside it. Patterns without a `/` or `**` match the last path
+ * component at any depth; other unanchored patterns match the end of the path.
+ */
+export interface FilterRule {
+    action: 'include' | 'exclude';
+    pattern: string;            // Without the leading or trailing slash
+    anchored: boolean;
+    directoryOnly: boolean;
+}
+
+export type FilterOptionKeys = 'filters' | 'include' | 'exclude' | 'ignoreFiles' | 'respectIgnoreFiles' | 'minSize' | 'maxSize' | 'minAge' | 'maxAge';
+
+export type FilterOptions = Pick<TransferOptions, FilterOptionKeys>;
+
+export interface IgnoreFileContent {
+    relativePath: string;       // e.g. 'packages/app/.gitignore'
+    content: string;
+}
+
+/**
+ * Per-directory ignore files picked up with respectIgnoreFiles: true. Within one directory
+ * they are checked in this order; .rsync-filter uses rsync rule syntax, the rest gitignore's.
+ */
+export const DEFAULT_IGNORE_FILES = ['.fastignore', '.gitignore', '.rsync-filter'];
+
+const RSYNC_FILTER_FILE = '.rsync-filter';
+
+export interface FilteredEntry {
+    relativePath: string;       // '/'-separated, relative to the filtered root
+    isDirectory: boolean;
+}
+
+interface CompiledRule extends FilterRule {
+    regex: RegExp;
+    wholePath: boolean;         // Match against the full relative path instead of the name
+}
+
+/**
+ * Ordered filter rules plus size and age predicates, shared by every provider. Tools that can
+ * express the rules get them translated to their own flags; the rest copy a pre-filtered list.
+ */
+export class FilterSet {
+    readonly rules: FilterRule[];
+    private compiled: CompiledRule[];
+    private minSize?: number;
+    private maxSize?: number;
+    private newestAllowed?: number;  // mtime bounds in ms, fixed when the set is built
+    private oldestAllowed?: number;
+    /** Per-directory ignore file names whose rules haven't been read into `rules` */
+    readonly ignoreFileNames: string[];
+    private predicates: Pick<TransferOptions, 'minSize' | 'maxSize' | 'minAge' | 'maxAge'>;
+
+    constructor(
+        rules: FilterRule[] = [],
+        predicates: Pick<TransferOptions, 'minSize' | 'maxSize' | 'minAge' | 'maxAge'> = {},
+        ignoreFileNames: string[] = []
+    ) {
+        this.rules = rules;
+        this.ignoreFileNames = ignoreFileNames;
+        this.predicates = predicates;
+        this.compiled = rules.map(rule => FilterSet.compile(rule));
+        this.minSize = predicates.minSize;
+        this.maxSize = predicates.maxSize;
+        const now = Date.now();
+        if (predicates.minAge !== undefined) this.newestAllowed = now - predicates.minAge * 1000;
+        if (predicates.maxAge !== undefined) this.oldestAllowed = now - predicates.maxAge * 1000;
+    }
+
+    /**
+     * Build the filter set for a transfer: `filters` first, then `include` (which therefore
+     * wins over `exclude`, as it always has), then `exclude`, then the rules of `ignoreFiles`,
+     * then per-directory ignore files. Those are only read when `root` names the local
+     * directory being walked; otherwise they stay in `ignoreFileNames` for tools that read
+     * them themselves.
+     */
+    static async fromOptions(options: FilterOptions, root?: string): Promise<FilterSet> {
+        const rules: FilterRule[] = [
+            ...(options.filters || []).map(rule => FilterSet.parseRule(rule)),
+            ...(options.include || []).map(pattern => FilterSet.toRule('include', pattern)),
+            ...(options.exclude || []).map(pattern => FilterSet.toRule('exclude', pattern))
+        ];
+        for (const ignoreFile of options.ignoreFiles || []) {
+            rules.push(...FilterSet.parseIgnoreFile(await fs.readFile(ignoreFile, 'utf8')));
+        }
+
+        const names = options.respectIgnoreFiles === true ? DEFAULT_IGNORE_FILES : (options.respectIgnoreFiles || []);
+        if (names.length === 0) {
+            return new FilterSet(rules, options);
+        }
+        if (root === undefined) {
+            return new FilterSet(rules, options, names);
+        }
+        return new FilterSet([...rules, ...await FilterSet.discoverIgnoreRules(root, names, rules)], options);
+    }
+
+    /**
+     * Rules from per-directory ignore files found anywhere under the root. Each file's rules
+     * only reach into its own directory, and deeper files are checked before their parents',
+     * so a subdirectory can override what it inherits.
+     */
+    static ignoreFileRules(files: IgnoreFileContent[], names: string[] = DEFAULT_IGNORE_FILES): FilterRule[] {
+        const depth = (file: IgnoreFileContent) => file.relativePath.split('/').length;
+        const nameOrder = (file: IgnoreFileContent) => names.indexOf(file.relativePath.slice(file.relativePath.lastIndexOf('/') + 1));
+        const ordered = [...files].sort((a, b) => depth(b) - depth(a) || nameOrder(a) - nameOrder(b));
+
+        return ordered.flatMap(file => {
+            const slash = file.relativePath.lastIndexOf('/');
+            const base = slash === -1 ? '' : file.relativePath.slice(0, slash);
+            return file.relativePath.slice(slash + 1) === RSYNC_FILTER_FILE
+                ? FilterSet.parseRuleFile(file.content, base)
+                : FilterSet.parseIgnoreFile(file.content, base);
+        });
+    }
+
+    /**
+     * Resolve the pending per-directory ignore files from contents fetched elsewhere, e.g.
+     * in one round trip from a remote host
+     */
+    withIgnoreFiles(files: IgnoreFileContent[]): FilterSet {
+        return new FilterSet([...this.rules, ...FilterSet.ignoreFileRules(files, this.ignoreFileNames)], this.predicates);
+    }
+
+    /**
+     * Read ignore files while walking the local tree, skipping directories that the rules
+     * found so far already exclude
+     */
+    private static async discoverIgnoreRules(root: string, names: string[], baseRules: FilterRule[]): Promise<FilterRule[]> {
+        const found: IgnoreFileContent[] = [];
+        try {
+            if (!(await fs.stat(root)).isDirectory()) return [];
+        } catch {
+            return [];
+        }
+
+        const walk = async (dir: string, relativePath: string, current: FilterSet) => {
+            let added = false;
+            for (const name of names) {
+                try {
+                    const content = await fs.readFile(join(dir, name), 'utf8');
+                    found.push({ relativePath: relativePath ? `${relativePath}/${name}` : name, content });
+                    added = true;
+                } catch {
+                    // No such file here
+                }
+            }
+            if (added) {
+                current = new FilterSet([...baseRules, ...FilterSet.ignoreFileRules(found, names)]);
+            }
+
+            for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+                const childRelative = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+                if (entry.isDirectory() && current.isIncluded(childRelative, true)) {
+                    await walk(join(dir, entry.name), childRelative, current);
+                }
+            }
+        };
+        await walk(root, '', new FilterSet(baseRules));
+        return FilterSet.ignoreFileRules(found, names);
+    }
+
+    /**
+     * Parse an rsync-style rule: `+ pattern`, `- pattern`, `include pattern` or `exclude pattern`
+     */
+    static parseRule(rule: string): FilterRule {
+        const match = rule.match(/^(\+|-|include|exclude) (.+)$/);
+        if (!match) {
+            throw new Error(`Invalid filter rule: '${rule}' (expected '+ pattern' or '- pattern')`);
+        }
+        return FilterSet.toRule(match[1] === '+' || match[1] === 'include' ? 'include' : 'exclude', match[2]);
+    }
+
+    static toRule(action: FilterRule['action'], pattern: string): FilterRule {
+        const directoryOnly = pattern.length > 1 && pattern.endsWith('/');
+        if (directoryOnly) pattern = pattern.slice(0, -1);
+        const anchored = pattern.startsWith('/');
+        if (anchored) pattern = pattern.slice(1);
+        return { action, pattern, anchored, directoryOnly };
+    }
+
+    /**
+     * Rules from a .gitignore-style file. Git lets the last matching line win while these rules
+     * stop at the first match, so the lines come back in reverse order. A slash before the end
+     * anchors the pattern to the file's directory, as in git; `base` is that directory relative
+     * to the transfer root.
+     */
+    static parseIgnoreFile(content: string, base: string = ''): FilterRule[] {
+        const rules: FilterRule[] = [];
+        for (let line of content.split(/\r?\n/)) {
+            line = line.replace(/(?<!\\)\s+$/, '');
+            if (!line || line.startsWith('#')) continue;
+
+            let action: FilterRule['action'] = 'exclude';
+            if (line.startsWith('!')) {
+                action = 'include';
+                line = line.slice(1);
+            } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+                line = line.slice(1);
+            }
+            line = line.replace(/\\(\s)/g, '$1');
+
+            const rule = FilterSet.toRule(action, line);
+            if (rule.pattern.startsWith('**/')) {
+                rule.pattern = rule.pattern.slice(3);
+                rule.anchored = false;
+            } else if (rule.pattern.includes('/')) {
+                rule.anchored = true;
+            }
+            rules.unshift(FilterSet.rebase(rule, base));
+        }
+        return rules;
+    }
+
+    /**
+     * Rules from an rsync filter file such as .rsync-filter: one '+ pattern' or '- pattern'
+     * per line, '#' and ';' start comments. A leading '/' anchors to the file's directory.
+     */
+    static parseRuleFile(content: string, base: string = ''): FilterRule[] {
+        return content.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#') && !line.startsWith(';'))
+            .map(line => FilterSet.rebase(FilterSet.parseRule(line), base));
+    }
+
+    /**
+     * Move a rule from a file in `base` to the transfer root; unanchored patterns still only
+     * apply below that directory
+     */
+    private static rebase(rule: FilterRule, base: string): FilterRule {
+        if (!base) return rule;
+        const prefix = FilterSet.escape(base);
+        return {
+            ...rule,
+            pattern: rule.anchored ? `${prefix}/${rule.pattern}` : `${prefix}/**/${rule.pattern}`,
+            anchored: true
+        };
+    }
+
+    /**
+     * Rules that select exactly `paths` (relative to the root) and skip everything else:
+     * their parent directories, each path itself and, for directories, everything inside
+     */
+    static selectionRules(paths: string[]): string[] {
+        const rules = new Set<string>();
+        for (const selected of paths) {
+            const parts = toSlashes(selected).split('/').filter(part => part && part !== '.');
+            for (let i = 1; i < parts.length; i++) {
+                rules.add(`+ /${FilterSet.escape(parts.slice(0, i).join('/'))}/`);
+            }
+            rules.add(`+ /${FilterSet.escape(parts.join('/'))}/***`);
+        }
+        rules.add('- *');
+        return [...rules];
+    }
+
+    /**
+     * A pattern matching `name` literally, with wildcard characters backslash-escaped
+     */
+    static escape(name: string): string {
+        return name.replace(/[*?[\]\\]/g, '\\$&');
+    }
+
+    get isEmpty(): boolean {
+        return this.rules.length === 0 && this.ignoreFileNames.length === 0 && !this.hasSizeRules && !this.hasAgeRules;
+    }
+
+    get hasSizeRules(): boolean {
+        return this.minSize !== undefined || this.maxSize !== undefined;
+    }
+
+    get hasAgeRules(): boolean {
+        return this.newestAllowed !== undefined || this.oldestAllowed !== undefined;
+    }
+
+    /**
+     * Decide one entry whose parent directories are already included. Size and age only apply
+     * to files, and only when `stats` is given.
+     */
+    isIncluded(relativePath: string, isDirectory: boolean, stats?: Pick<Stats, 'size' | 'mtimeMs'>): boolean {
+        const path = toSlashes(relativePath);
+        const name = path.slice(path.lastIndexOf('/') + 1);
+        for (const rule of this.compiled) {
+            if (rule.directoryOnly && !isDirectory) continue;
+            if (rule.regex.test(rule.wholePath ? path : name)) {
+                if (rule.action === 'exclude') return false;
+                break;
+            }
+        }
+
+        if (stats && !isDirectory) {
+            if (this.minSize !== undefined && stats.size < this.minSize) return false;
+            if (this.maxSize !== undefined && stats.size > this.maxSize) return false;
+            if (this.newestAllowed !== undefined && stats.mtimeMs > this.newestAllowed) return false;
+            if (this.oldestAllowed !== undefined && stats.mtimeMs < this.oldestAllowed) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Like isIncluded, but also checks every parent directory the way a tree walk would
+     */
+    isPathIncluded(relativePath: string, isDirectory: boolean, stats?: Pick<Stats, 'size' | 'mtimeMs'>): boolean {
+        const parts = toSlashes(relativePath).split('/').filter(Boolean);
+        for (let i = 1; i < parts.length; i++) {
+            if (!this.isIncluded(parts.slice(0, i).join('/'), true)) return false;
+        }
+        return this.isIncluded(parts.join('/'), isDirectory, stats);
+    }
+
+    /**
+     * Walk a local tree and return what the rules let through, parents before children.
+     * Excluded directories aren't descended into.
+     */
+    async listIncluded(root: string): Promise<FilteredEntry[]> {
+        const entries: FilteredEntry[] = [];
+        const walk = async (dir: string, relativePath: string) => {
+            for (const name of (await fs.readdir(dir)).sort()) {
+                const childRelative = relativePath ? `${relativePath}/${name}` : name;
+                const stats = await fs.lstat(join(dir, name));
+                if (!this.isIncluded(childRelative, stats.isDirectory(), stats)) continue;
+
+                entries.push({ relativePath: childRelative, isDirectory: stats.isDirectory() });
+                if (stats.isDirectory()) {
+                    await walk(join(dir, name), childRelative);
+                }
+            }
+        };
+        await walk(root, '');
+        return entries;
+    }
+
+    /**
+     * rsync --filter/--min-size/--max-size arguments, or undefined when the set has age rules
+     * or gitignore-style ignore files that haven't been read yet: rsync would read those as
+     * plain exclude lists, dropping `!` negations and git's anchoring. Pending .rsync-filter
+     * files are left to rsync. When rsync copies the source directory itself (no trailing
+     * slash) its paths start with the directory's name; pass it as `rootName` so anchored
+     * rules still line up.
+     */
+    toRsyncArgs(rootName?: string): string[] | undefined {
+        if (this.hasAgeRules || this.ignoreFileNames.some(name => name !== RSYNC_FILTER_FILE)) return undefined;
+        const root = rootName ? `/${FilterSet.escape(rootName)}` : '';
+        const args = this.rules.flatMap(rule => FilterSet.rsyncPatterns(FilterSet.format(rule)).map(pattern => {
+            const rooted = rule.anchored && root ? `${root}${pattern}` : pattern;
+            return `--filter=${rule.action === 'include' ? '+' : '-'} ${rooted}`;
+        }));
+        for (const name of this.ignoreFileNames) {
+            args.push(`--filter=: ${name}`);
+        }
+        if (root && args.length > 0) {
+            args.unshift(`--filter=+ ${root}`); // The root itself is never filtered
+        }
+        if (this.minSize !== undefined) args.push(`--min-size=${this.minSize}`);
+        if (this.maxSize !== undefined) args.push(`--max-size=${this.maxSize}`);
+        return args;
+    }
+
+    /**
+     * robocopy /XF, /XD, /MIN and /MAX arguments. Robocopy only excludes by name, so this is
+     * undefined for include rules, patterns with a path, `**`, character classes and age rules.
+     */
+    toRobocopyArgs(): string[] | undefined {
+        if (this.hasAgeRules || this.ignoreFileNames.length > 0 || !this.rules.every(rule => FilterSet.isNameOnlyExclude(rule))) return undefined;
+        const args: string[] = [];
+        for (const rule of this.rules) {
+            if (!rule.directoryOnly) args.push('/XF', rule.pattern);
+            args.push('/XD', rule.pattern);
+        }
+        if (this.minSize !== undefined) args.push(`/MIN:${this.minSize}`);
+        if (this.maxSize !== undefined) args.push(`/MAX:${this.maxSize}`);
+        return args;
+    }
+
+    /**
+     * GNU tar --exclude arguments, or undefined when the set needs more than name excludes
+     */
+    toTarArgs(): string[] | undefined {
+        if (this.hasSizeRules || this.hasAgeRules || this.ignoreFileNames.length > 0) return undefined;
+        if (!this.rules.every(rule => FilterSet.isNameOnlyExclude(rule) && !rule.directoryOnly)) return undefined;
+        if (this.rules.length === 0) return [];
+        return ['--no-wildcards-match-slash', ...this.rules.map(rule => `--exclude=${rule.pattern}`)];
+    }
+
+    private static isNameOnlyExclude(rule: FilterRule): boolean {
+        return rule.action === 'exclude' && !rule.anchored && !/[/[\]\\]/.test(rule.pattern);
+    }
+
+    private static format(rule: FilterRule): string {
+        return `${rule.anchored ? '/' : ''}${rule.pattern}${rule.directoryOnly ? '/' : ''}`;
+    }
+
+    /**
+     * Here a `**` segment between slashes can also match no directory at all; rsync's always
+     * matches at least one, so add the variants with the segment left out
+     */
+    private static rsyncPatterns(pattern: string): string[] {
+        const index = pattern.indexOf('/**/');
+        if (index === -1) return [pattern];
+        const head = pattern.slice(0, index);
+        return FilterSet.rsyncPatterns(pattern.slice(index + 4)).flatMap(tail => [`${head}/${tail}`, `${head}/**/${tail}`]);
+    }
+
+    private static compile(rule: FilterRule): CompiledRule {
+        let pattern = rule.pattern;
+        // 'dir/***' matches dir itself as well as everything below it
+        const withContents = pattern.endsWith('/***');
+        if (withContents) pattern = pattern.slice(0, -4);
+
+        let body = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (char === '\\' && i + 1 < pattern.length) {
+                body += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            } else if (char === '*') {
+                if (pattern[i + 1] === '*') {
+                    while (pattern[i + 1] === '*') i++;
+                    if (body.endsWith('/') && pattern[i + 1] === '/') {
+                        // 'a/**/b' also matches 'a/b'
+                        body = `${body.slice(0, -1)}(/.*)?/`;
+                        i++;
+                    } else {
+                        body += '.*';
+                    }
+                } else {
+                    body += '[^/]*';
+                }
+            } else if (char === '?') {
+                body += '[^/]';
+            } else if (char === '[') {
+                const end = pattern.indexOf(']', i + 2);
+                if (end === -1) {
+                    body += '\\[';
+                } else {
+                    body += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                    i = end;
+                }
+            } else {
+                body += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+            }
+        }
+        if (withContents) body += '(/.*)?';
+
+        const wholePath = rule.anchored || withContents || pattern.includes('/') || pattern.includes('**');
+        const prefix = rule.anchored ? '^' : (wholePath ? '(^|/)' : '^');
+        return { ...rule, regex: new RegExp(`${prefix}${body}$`), wholePath };
+    }
+}
+
+/**
+ * Relative paths use `/` between components. Backslashes are separators only on Windows;
+ * elsewhere they can be part of a file name.
+ */
+function toSlashes(relativePath: string): string {
+    return sep === '\\' ? relativePath.replace(/\\/g, '/') : relativePath;
+}
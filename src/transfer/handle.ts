@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { PauseSignal, TransferResult } from './interfaces.js';
+
+export type TransferHandleStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface TransferStateChange {
+    status: TransferHandleStatus;
+    previous: TransferHandleStatus;
+}
+
+/**
+ * Control signals handed to the transfer a handle drives
+ */
+export interface TransferControls {
+    signal: AbortSignal;
+    pauseSignal: PauseSignal;
+}
+
+/**
+ * Controls a single running transfer: pause, resume, cancel and await its result.
+ * Every status change is emitted as 'stateChange' with the new and previous status, and
+ * 'pauseUnsupported' carries the reason a pause was refused or lifted.
+ */
+export class TransferHandle<R extends TransferResult = TransferResult> extends EventEmitter {
+    readonly result: Promise<R>;
+
+    private currentStatus: TransferHandleStatus = 'pending';
+    private controller = new AbortController();
+    private pauseSignal = new PauseSignal();
+
+    constructor(run: (controls: TransferControls) => Promise<R>, signal?: AbortSignal) {
+        super();
+
+        // A caller-supplied signal cancels the handle too
+        if (signal?.aborted) {
+            this.controller.abort();
+        } else {
+            signal?.addEventListener('abort', () => this.cancel(), { once: true });
+        }
+
+        // A tool that can't be suspended lifts a pause requested before it started
+        this.pauseSignal.on('unsupported', (reason: string) => {
+            if (this.currentStatus === 'paused') {
+                this.setStatus('running');
+            }
+            this.emit('pauseUnsupported', reason);
+        });
+
+        this.result = this.start(run);
+        // Failures surface through the promise; don't let an unobserved one crash the process
+        this.result.catch(() => undefined);
+    }
+
+    get status(): TransferHandleStatus {
+        return this.currentStatus;
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * Pause the transfer. Spawned tools are suspended (rsync is stopped and later restarted
+     * with --partial --append-verify); the in-process copier stops reading its streams.
+     * Returns false, leaving the transfer running, when its tool can't be suspended (any tool
+     * but rsync on Windows).
+     */
+    pause(): boolean {
+        if (this.currentStatus === 'paused') return true;
+        if (this.currentStatus !== 'running' && this.currentStatus !== 'pending') return false;
+        if (!this.pauseSignal.pause()) return false;
+        this.setStatus('paused');
+        return true;
+    }
+
+    resume(): void {
+        if (this.currentStatus !== 'paused') return;
+        this.pauseSignal.resume();
+        this.setStatus('running');
+    }
+
+    /**
+     * Cancel the transfer; `result` resolves with `status: 'cancelled'`
+     */
+    cancel(): void {
+        if (this.isFinished()) return;
+        this.controller.abort();
+    }
+
+    private async start(run: (controls: TransferControls) => Promise<R>): Promise<R> {
+        // Let callers attach listeners before the first state change
+        await Promise.resolve();
+        if (!this.pauseSignal.paused) {
+            this.setStatus('running');
+        }
+
+        try {
+            const result = await run({ signal: this.controller.signal, pauseSignal: this.pauseSignal });
+            const status = result.status ?? (result.success ? 'completed' : 'failed');
+            this.setStatus(status);
+            return result;
+        } catch (error) {
+            this.setStatus(this.controller.signal.aborted ? 'cancelled' : 'failed');
+            throw error;
+        }
+    }
+
+    private isFinished(): boolean {
+        return this.currentStatus === 'completed' || this.currentStatus === 'failed' || this.currentStatus === 'cancelled';
+    }
+
+    private setStatus(status: TransferHandleStatus): void {
+        if (status === this.currentStatus) return;
+        const previous = this.currentStatus;
+        this.currentStatus = status;
+        this.emit('stateChange', { status, previous } as TransferStateChange);
+    }
+}
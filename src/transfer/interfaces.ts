@@ -1,4 +1,12 @@
 import { EventEmitter } from 'events';
+import type { VerifyMode, VerificationResult } from './verification.js';
+import type { ManifestFormat } from './manifest.js';
+import type { RsyncStats } from '../rsync/lib/rsyncParser.js';
+import type { FileMetadata } from './advanced-utils.js';
+import type { FilterSet } from './filters.js';
+import type { CredentialProvider } from './credentials.js';
+import type { TransferErrorCode, FileError } from './errors.js';
+import type { Logger } from '../utils/logger.js';
 
 export interface TransferOptions {
     // Common options
@@ -8,23 +16,36 @@ export interface TransferOptions {
     delete?: boolean;           // Delete extraneous files from destination
     dryRun?: boolean;          // Show what would be transferred without doing it
     exclude?: string[];         // Exclude patterns
-    include?: string[];         // Include patterns
+    include?: string[];         // Include patterns (checked before exclude, so they win)
+    filters?: string[];         // Ordered rsync-style rules ('+ pattern' / '- pattern'), checked first
+    ignoreFiles?: string[];     // .gitignore-style files whose rules apply from the source root
+    respectIgnoreFiles?: boolean | string[]; // Apply .fastignore/.gitignore/.rsync-filter files found in each source directory (or these names)
+    minSize?: number;           // Skip files smaller than this many bytes
+    maxSize?: number;           // Skip files larger than this many bytes
+    minAge?: number;            // Skip files modified less than this many seconds ago
+    maxAge?: number;            // Skip files modified more than this many seconds ago
     progress?: boolean;         // Show progress
     recursive?: boolean;        // Transfer directories recursively
     preserveLinks?: boolean;    // Preserve symlinks
     preservePerms?: boolean;    // Preserve permissions
     preserveTimes?: boolean;    // Preserve modification times
     checksum?: boolean;         // Skip based on checksum, not mod-time & size
+    verify?: VerifyMode;        // Check the copy against the source once transferred
+    repairMismatches?: boolean; // Re-copy files that fail verification
+    manifestPath?: string;      // Write a manifest of the transferred files here afterwards
+    manifestFormat?: ManifestFormat; // 'jsonl' (default) or 'sha256sums'
+    onConflict?: ConflictMode;  // When a destination file already exists and differs (default: 'overwrite')
     
     // Network/remote options
     bandwidth?: number;         // Bandwidth limit in KB/s
     timeout?: number;           // Connection timeout in seconds
-    retries?: number;           // Number of retry attempts
+    retries?: number;           // Retry the whole transfer this many times on connection errors (robocopy also retries each file)
     
     // Authentication (for network transfers)
     username?: string;          // Username for remote access
     password?: string;          // Password for remote access
     keyFile?: string;           // Key file for authentication
+    credentials?: CredentialProvider; // Looked up when no password is given above
     
     // Platform-specific options
     useNativeTools?: boolean;   // Force use of native tools instead of rsync
@@ -34,8 +55,125 @@ export interface TransferOptions {
     
     // Custom arguments for native tools
     customArgs?: string[];      // Additional arguments for native tools
+    
+    // Cancellation and flow control
+    signal?: AbortSignal;       // Abort to kill the running tool and clean up partial output
+    pauseSignal?: PauseSignal;  // Pause/resume the running tool
+    onProgress?: (progress: TransferProgress) => void; // Progress for this transfer only (providers are shared)
+    onFileTransferred?: (file: TransferredFile) => void; // Called per file by providers that copy file by file
+    resolveConflict?: (conflict: FileConflict) => ConflictDecision | Promise<ConflictDecision>; // Required for onConflict: 'ask'
+}
+
+/**
+ * 'skip' keeps existing files, 'newer' replaces them only with newer sources, 'rename' moves
+ * the existing file aside as a numbered backup, 'ask' calls resolveConflict per file
+ */
+export type ConflictMode = 'overwrite' | 'skip' | 'newer' | 'rename' | 'ask';
+
+export type ConflictDecision = 'overwrite' | 'skip' | 'rename';
+
+export interface FileConflict {
+    relativePath: string;
+    source: FileMetadata;
+    destination: FileMetadata;
+}
+
+/**
+ * Options that only make sense for the running process (signals, callbacks and loggers), and
+ * secrets, which are never written to disk
+ */
+export type RuntimeOptionKeys = 'signal' | 'pauseSignal' | 'onProgress' | 'onFileTransferred' | 'resolveConflict'
+    | 'logger' | 'password' | 'credentials';
+
+/**
+ * Drop signals, callbacks, loggers and secrets so options can be saved as JSON and reused later.
+ * Whoever reloads them passes the dropped options again.
+ */
+export function toSerializableOptions<T extends TransferOptions & { logger?: Logger }>(options: T): Omit<T, RuntimeOptionKeys> {
+    const { signal, pauseSignal, onProgress, onFileTransferred, resolveConflict, logger, password, credentials, ...serializable } = options;
+    return serializable;
 }
 
+/**
+ * Pause/resume channel handed to providers next to the AbortSignal.
+ * Emits 'pause' and 'resume' when the state flips, and 'unsupported' with a reason when a
+ * pause is refused or lifted because the running tool can't be paused.
+ */
+export class PauseSignal extends EventEmitter {
+    private isPaused = false;
+    private refusals: string[] = [];
+    
+    get paused(): boolean {
+        return this.isPaused;
+    }
+    
+    /**
+     * Why the running tool can't be paused, if it can't
+     */
+    get unsupportedReason(): string | undefined {
+        return this.refusals[this.refusals.length - 1];
+    }
+    
+    /**
+     * Returns false, leaving the signal running, while a tool that can't be paused is running
+     */
+    pause(): boolean {
+        if (this.isPaused) return true;
+        const reason = this.unsupportedReason;
+        if (reason) {
+            this.emit('unsupported', reason);
+            return false;
+        }
+        this.isPaused = true;
+        this.emit('pause');
+        return true;
+    }
+    
+    /**
+     * Refuse pauses while a tool that can't be paused runs. A pause already in effect is lifted,
+     * since the tool would carry on regardless. Returns a function that withdraws the refusal.
+     */
+    preventPause(reason: string): () => void {
+        this.refusals.push(reason);
+        if (this.isPaused) {
+            this.resume();
+            this.emit('unsupported', reason);
+        }
+        
+        return () => {
+            const index = this.refusals.indexOf(reason);
+            if (index !== -1) this.refusals.splice(index, 1);
+        };
+    }
+    
+    resume(): void {
+        if (!this.isPaused) return;
+        this.isPaused = false;
+        this.emit('resume');
+    }
+    
+    /**
+     * Resolve once resumed (immediately if not paused); resolves early if the abort signal fires
+     */
+    waitUntilResumed(signal?: AbortSignal): Promise<void> {
+        if (!this.isPaused || signal?.aborted) {
+            return Promise.resolve();
+        }
+        
+        return new Promise((resolve) => {
+            const done = () => {
+                this.off('resume', done);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            };
+            this.on('resume', done);
+            signal?.addEventListener('abort', done, { once: true });
+        });
+    }
+}
+
+export type TransferStatus = 'completed' | 'failed' | 'cancelled';
+
 export interface TransferResult {
     success: boolean;
     exitCode: number;
@@ -46,8 +184,27 @@ export interface TransferResult {
     duration?: number;
     sourceSize?: number;
     transferRate?: string;
-    method: 'rsync' | 'robocopy' | 'xcopy' | 'cp' | 'ditto' | 'tar' | 'scp' | 'smb' | 'unknown';
+    method: 'rsync' | 'robocopy' | 'xcopy' | 'cp' | 'ditto' | 'tar' | 'scp' | 'smb' | 'node-fs' | 'unknown';
     fallbackUsed: boolean;
+    status?: TransferStatus;
+    verification?: VerificationResult;
+    stats?: RsyncStats;         // Full --stats breakdown (rsync only)
+    errorCode?: TransferErrorCode; // Why it failed, independent of the tool
+    fileErrors?: FileError[];   // Files the tool reported it couldn't copy
+    attempts?: TransferAttempt[]; // Every attempt, last one included (set by UnifiedTransferManager)
+}
+
+/**
+ * How one attempt at a transfer went
+ */
+export interface TransferAttempt {
+    attempt: number;            // Starting at 1
+    success: boolean;
+    exitCode?: number;          // Not set when the attempt failed before the tool ran
+    errorCode?: TransferErrorCode;
+    error?: string;
+    duration: number;           // Milliseconds
+    retryDelay?: number;        // Milliseconds waited before the next attempt, if there was one
 }
 
 export interface TransferTarget {
@@ -71,6 +228,22 @@ export interface TransferProgress {
     percentage: number;
 }
 
+export interface TransferEstimate {
+    totalBytes: number;
+    totalFiles: number;
+    bytesToTransfer?: number;   // Only what differs at the destination
+    filesToTransfer?: number;
+}
+
+export interface TransferredFile {
+    relativePath: string;       // Relative to the source root
+    size: number;
+    mtime?: number;             // Source modification time (ms)
+    destPath?: string;
+}
+
+export type TransferStrategy = 'fastest' | 'most-compatible' | 'preserve-metadata' | 'compress' | 'network';
+
 export interface FallbackCapabilities {
     supportsCompression: boolean;
     supportsProgress: boolean;
@@ -83,6 +256,8 @@ export interface FallbackCapabilities {
     supportsAuthentication: boolean;
     maxRetries: number;
     preferredFor: string[];     // Use cases this method is preferred for
+    strategyScores?: { [strategy in TransferStrategy]?: number }; // Extra score when selecting for a strategy
+    conflictModes?: ConflictMode[]; // onConflict modes the tool handles itself (default: overwrite only)
 }
 
 /**
@@ -118,12 +293,10 @@ export abstract class TransferProvider extends EventEmitter {
     abstract cleanup(source: TransferTarget, destination: TransferTarget): Promise<void>;
     
     /**
-     * Estimate transfer size and file count
+     * Estimate transfer size and file count. Providers that can compare against the
+     * destination also report how much would actually be sent.
      */
-    abstract estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{
-        totalBytes: number;
-        totalFiles: number;
-    }>;
+    abstract estimateTransfer(source: TransferTarget, options: TransferOptions, destination?: TransferTarget): Promise<TransferEstimate>;
     
     /**
      * Validate transfer targets
@@ -133,8 +306,17 @@ export abstract class TransferProvider extends EventEmitter {
         errors: string[];
     }>;
     
-    protected emitProgress(progress: TransferProgress): void {
+    /**
+     * Whether the provider applies these filters itself, through its own flags or a pre-filtered
+     * file list. Providers that ignore filters only take unfiltered transfers.
+     */
+    supportsFilters(filters: FilterSet, source: TransferTarget): boolean {
+        return filters.isEmpty;
+    }
+    
+    protected emitProgress(progress: TransferProgress, options?: Pick<TransferOptions, 'onProgress'>): void {
         this.emit('progress', progress);
+        options?.onProgress?.(progress);
     }
     
     protected emitError(error: Error): void {
@@ -144,4 +326,20 @@ export abstract class TransferProvider extends EventEmitter {
     protected emitComplete(result: TransferResult): void {
         this.emit('complete', result);
     }
+    
+    /**
+     * Result returned when a transfer is stopped through its AbortSignal
+     */
+    protected createCancelledResult(method: TransferResult['method'], startTime: number, output: string = ''): TransferResult {
+        return {
+            success: false,
+            exitCode: -1,
+            output,
+            error: 'Transfer cancelled',
+            duration: Date.now() - startTime,
+            method,
+            fallbackUsed: method !== 'rsync',
+            status: 'cancelled'
+        };
+    }
 }
@@ -0,0 +1,420 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TransferTarget, TransferResult, TransferStatus, TransferredFile, toSerializableOptions } from './interfaces.js';
+import { UnifiedTransferManager, UnifiedTransferOptions, MethodSelectionResult, createUnifiedTransferManager } from './manager.js';
+import { FilterSet } from './filters.js';
+import type { TransferSession, TransferSessionManager, FileTransferTiming } from './advanced-utils.js';
+
+export type JournalJobStatus = 'running' | TransferStatus;
+
+/**
+ * Session totals as saved in the journal (per-file timings are kept in the file log instead)
+ */
+export type JournalSessionStats = Omit<TransferSession, 'fileTimes'>;
+
+export interface JournalJob {
+    id: string;
+    source: TransferTarget;
+    destination: TransferTarget;
+    options: UnifiedTransferOptions;
+    status: JournalJobStatus;
+    createdAt: string;
+    updatedAt: string;
+    attempts: number;
+    method?: string;
+    error?: string;
+    bytesTransferred?: number;
+    filesTransferred?: number;
+    session?: JournalSessionStats;
+}
+
+export interface RecoveredJob {
+    job: JournalJob;
+    skippedFiles: number;          // Files already copied and still intact at the destination
+    result?: TransferResult & { methodUsed: MethodSelectionResult };
+    error?: string;
+}
+
+type JournaledResult = TransferResult & { methodUsed: MethodSelectionResult };
+
+/**
+ * On-disk record of transfer jobs, so work in progress survives a crash of the host process.
+ *
+ * Each job is stored in the journal directory as `<id>.json` (definition, status and stats,
+ * replaced atomically) plus `<id>.files.jsonl`, an append-only log of files known to be
+ * complete. Per-file entries come from providers that report files as they finish (node-fs)
+ * and from sessions attached with attachSession().
+ */
+export class TransferJournal extends EventEmitter {
+    private jobs: Map<string, JournalJob> = new Map();
+    private writeChains: Map<string, Promise<void>> = new Map();
+    private running: Set<string> = new Set();
+    private jobCounter = 0;
+    private managerPromise: Promise<UnifiedTransferManager> | null = null;
+
+    constructor(private directory: string, manager?: UnifiedTransferManager) {
+        super();
+        if (manager) {
+            this.managerPromise = Promise.resolve(manager);
+        }
+    }
+
+    /**
+     * Run a transfer through the manager, journaling it from start to finish
+     */
+    async transfer(
+        source: TransferTarget,
+        destination: TransferTarget,
+        options: UnifiedTransferOptions = {}
+    ): Promise<JournaledResult> {
+        const job = await this.createJob(source, destination, options);
+        return this.runJob(job, options);
+    }
+
+    /**
+     * Record a new job as running. Use this with recordFile()/completeJob() when the transfer
+     * is driven elsewhere; transfer() does all three.
+     */
+    async createJob(source: TransferTarget, destination: TransferTarget, options: UnifiedTransferOptions = {}): Promise<JournalJob> {
+        const now = new Date().toISOString();
+        const job: JournalJob = {
+            id: `journal_${++this.jobCounter}_${Date.now()}`,
+            source: await this.pinSourceRoot(source, destination),
+            destination,
+            options: toSerializableOptions(options),
+            status: 'running',
+            createdAt: now,
+            updatedAt: now,
+            attempts: 1
+        };
+
+        this.jobs.set(job.id, job);
+        await this.saveJob(job);
+        this.emit('jobCreated', job);
+
+        return job;
+    }
+
+    /**
+     * Append a completed file to the job's file log
+     */
+    recordFile(jobId: string, file: TransferredFile): Promise<void> {
+        return this.enqueueWrite(jobId, () =>
+            fs.appendFile(this.filesPath(jobId), JSON.stringify(file) + '\n', 'utf8')
+        );
+    }
+
+    /**
+     * Mirror a TransferSessionManager session into the job: successful files go to the file
+     * log and session totals are saved with the job. Returns a function that detaches it.
+     */
+    attachSession(jobId: string, sessionManager: TransferSessionManager, sessionId: string): () => void {
+        const onFile = (id: string, timing: FileTransferTiming) => {
+            if (id !== sessionId) return;
+            if (timing.status === 'success') {
+                this.recordFile(jobId, {
+                    relativePath: timing.file.relativePath,
+                    size: timing.file.size,
+                    mtime: timing.file.modified.getTime()
+                });
+            }
+            const session = sessionManager.getSession(sessionId);
+            if (session) {
+                this.updateJob(jobId, { session: this.sessionStats(session) });
+            }
+        };
+        const onEnded = (session: TransferSession) => {
+            if (session.sessionId !== sessionId) return;
+            this.updateJob(jobId, { session: this.sessionStats(session) });
+            detach();
+        };
+        const detach = () => {
+            sessionManager.off('fileTransferred', onFile);
+            sessionManager.off('sessionEnded', onEnded);
+        };
+
+        sessionManager.on('fileTransferred', onFile);
+        sessionManager.on('sessionEnded', onEnded);
+        return detach;
+    }
+
+    /**
+     * Mark a job finished with the outcome of its transfer
+     */
+    async completeJob(jobId: string, result: TransferResult): Promise<void> {
+        await this.updateJob(jobId, {
+            status: result.status ?? (result.success ? 'completed' : 'failed'),
+            method: result.method,
+            error: result.error,
+            bytesTransferred: result.bytesTransferred,
+            filesTransferred: result.filesTransferred
+        });
+    }
+
+    /**
+     * All jobs in the journal directory, oldest first
+     */
+    async listJobs(): Promise<JournalJob[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.directory);
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        for (const entry of entries) {
+            if (!entry.endsWith('.json')) continue;
+            const id = entry.slice(0, -'.json'.length);
+            if (this.jobs.has(id)) continue;
+
+            try {
+                this.jobs.set(id, JSON.parse(await fs.readFile(path.join(this.directory, entry), 'utf8')));
+            } catch {
+                // A torn write never replaces the job file, so an unreadable file isn't one of ours
+            }
+        }
+
+        return Array.from(this.jobs.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /**
+     * Jobs that were still running when the process stopped
+     */
+    async listUnfinished(): Promise<JournalJob[]> {
+        return (await this.listJobs()).filter(job => job.status === 'running' && !this.running.has(job.id));
+    }
+
+    /**
+     * Files recorded as complete for a job. A partially written last line (crash mid-append) is ignored.
+     */
+    async getCompletedFiles(jobId: string): Promise<TransferredFile[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filesPath(jobId), 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const files = new Map<string, TransferredFile>();
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const file: TransferredFile = JSON.parse(line);
+                files.set(file.relativePath, file);
+            } catch {
+                // Torn line
+            }
+        }
+        return Array.from(files.values());
+    }
+
+    /**
+     * Resume every unfinished job, one after another. Files already copied are skipped when the
+     * source is unchanged and the destination copy is still intact; everything else is copied again.
+     * Jobs are saved without passwords, credential providers, loggers or callbacks, so pass those in `options`.
+     */
+    async recover(options: UnifiedTransferOptions = {}): Promise<RecoveredJob[]> {
+        const recovered: RecoveredJob[] = [];
+
+        for (const job of await this.listUnfinished()) {
+            const verified = await this.verifyCompletedFiles(job);
+            const resumeOptions: UnifiedTransferOptions = {
+                ...job.options,
+                ...options,
+                exclude: [
+                    ...(job.options.exclude || []),
+                    ...(options.exclude || []),
+                    ...verified.map(file => `/${FilterSet.escape(file.relativePath)}`)
+                ]
+            };
+            if (verified.length > 0) {
+                // Skip patterns are relative to the source root the way node-fs, which recorded them, applies them
+                resumeOptions.preferredMethod = 'node-fs';
+            }
+
+            job.attempts++;
+            this.emit('jobRecovering', job, verified.length);
+
+            const entry: RecoveredJob = { job, skippedFiles: verified.length };
+            try {
+                entry.result = await this.runJob(job, resumeOptions);
+            } catch (error) {
+                entry.error = error instanceof Error ? error.message : String(error);
+            }
+            recovered.push(entry);
+        }
+
+        return recovered;
+    }
+
+    /**
+     * Delete a job and its file log from the journal
+     */
+    async removeJob(jobId: string): Promise<void> {
+        await this.writeChains.get(jobId);
+        this.jobs.delete(jobId);
+        await fs.rm(this.jobPath(jobId), { force: true });
+        await fs.rm(this.filesPath(jobId), { force: true });
+    }
+
+    /**
+     * Delete completed and cancelled jobs. Failed jobs stay for inspection.
+     */
+    async prune(): Promise<number> {
+        const finished = (await this.listJobs()).filter(job => job.status === 'completed' || job.status === 'cancelled');
+        for (const job of finished) {
+            await this.removeJob(job.id);
+        }
+        return finished.length;
+    }
+
+    private async runJob(job: JournalJob, options: UnifiedTransferOptions): Promise<JournaledResult> {
+        this.running.add(job.id);
+
+        try {
+            await this.updateJob(job.id, { status: 'running', attempts: job.attempts });
+            const manager = await this.getManager();
+
+            const result = await manager.transfer(job.source, job.destination, {
+                ...options,
+                onFileTransferred: (file) => {
+                    this.recordFile(job.id, file);
+                    options.onFileTransferred?.(file);
+                },
+                onProgress: (progress) => {
+                    this.updateJob(job.id, {
+                        bytesTransferred: progress.bytesTransferred,
+                        filesTransferred: progress.filesTransferred
+                    }, false);
+                    options.onProgress?.(progress);
+                }
+            });
+
+            await this.completeJob(job.id, result);
+            this.emit('jobFinished', this.jobs.get(job.id));
+            return result;
+        } catch (error) {
+            await this.updateJob(job.id, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+            });
+            this.emit('jobFinished', this.jobs.get(job.id));
+            throw error;
+        } finally {
+            this.running.delete(job.id);
+        }
+    }
+
+    /**
+     * A directory copied to a destination that doesn't exist yet becomes the destination, but a
+     * resumed run would find it and nest the copy inside it. A trailing separator makes both
+     * runs copy the directory's contents.
+     */
+    private async pinSourceRoot(source: TransferTarget, destination: TransferTarget): Promise<TransferTarget> {
+        if (source.isRemote || destination.isRemote || /[\\/]$/.test(source.path)) {
+            return source;
+        }
+
+        try {
+            const [sourceStats, destinationExists] = await Promise.all([
+                fs.stat(source.path),
+                fs.access(destination.path).then(() => true, () => false)
+            ]);
+            if (sourceStats.isDirectory() && !destinationExists) {
+                return { ...source, path: source.path + path.sep };
+            }
+        } catch {
+            // Missing source - let the transfer report it
+        }
+        return source;
+    }
+
+    private async verifyCompletedFiles(job: JournalJob): Promise<TransferredFile[]> {
+        if (job.source.isRemote || job.destination.isRemote) return [];
+
+        const verified: TransferredFile[] = [];
+        for (const file of await this.getCompletedFiles(job.id)) {
+            if (!file.relativePath || !file.destPath) continue;
+
+            try {
+                const [source, dest] = await Promise.all([
+                    fs.lstat(path.join(job.source.path, file.relativePath)),
+                    fs.lstat(file.destPath)
+                ]);
+                const sourceUnchanged = source.size === file.size
+                    && (file.mtime === undefined || Math.floor(source.mtimeMs / 1000) === Math.floor(file.mtime / 1000));
+                if (sourceUnchanged && dest.size === file.size) {
+                    verified.push(file);
+                }
+            } catch {
+                // Gone on either side - copy it again
+            }
+        }
+        return verified;
+    }
+
+    /**
+     * Merge changes into a job and save it. Progress updates skip the write to keep disk traffic
+     * down; the next status change persists them.
+     */
+    private updateJob(jobId: string, changes: Partial<JournalJob>, persist: boolean = true): Promise<void> {
+        const job = this.jobs.get(jobId);
+        if (!job) return Promise.resolve();
+
+        Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+        return persist ? this.saveJob(job) : Promise.resolve();
+    }
+
+    private saveJob(job: JournalJob): Promise<void> {
+        const data = JSON.stringify(job, null, 2);
+        return this.enqueueWrite(job.id, async () => {
+            const tempPath = `${this.jobPath(job.id)}.tmp`;
+            await fs.writeFile(tempPath, data, 'utf8');
+            await fs.rename(tempPath, this.jobPath(job.id));
+        });
+    }
+
+    /**
+     * Writes for one job run in order, so an older snapshot never replaces a newer one
+     */
+    private enqueueWrite(jobId: string, write: () => Promise<void>): Promise<void> {
+        const previous = this.writeChains.get(jobId) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            await fs.mkdir(this.directory, { recursive: true });
+            await write();
+        }).catch((error) => {
+            this.emit('writeError', error, jobId);
+        });
+
+        this.writeChains.set(jobId, next);
+        next.then(() => {
+            if (this.writeChains.get(jobId) === next) {
+                this.writeChains.delete(jobId);
+            }
+        });
+        return next;
+    }
+
+    private sessionStats(session: TransferSession): JournalSessionStats {
+        const { fileTimes, ...stats } = session;
+        return stats;
+    }
+
+    private getManager(): Promise<UnifiedTransferManager> {
+        if (!this.managerPromise) {
+            this.managerPromise = createUnifiedTransferManager();
+        }
+        return this.managerPromise;
+    }
+
+    private jobPath(jobId: string): string {
+        return path.join(this.directory, `${jobId}.json`);
+    }
+
+    private filesPath(jobId: string): string {
+        return path.join(this.directory, `${jobId}.files.jsonl`);
+    }
+}
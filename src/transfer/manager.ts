@@ -1,11 +1,25 @@
 import { EventEmitter } from 'events';
 import * as os from 'os';
-import { TransferProvider, TransferOptions, TransferResult, TransferTarget, TransferProgress, FallbackCapabilities } from './interfaces.js';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import { TransferProvider, TransferOptions, TransferResult, TransferAttempt, TransferTarget, TransferProgress, TransferEstimate, FallbackCapabilities, TransferStrategy } from './interfaces.js';
 import { RobocopyProvider, XCopyProvider } from './providers/windows.js';
 import { DittoProvider, CpProvider as MacCpProvider } from './providers/macos.js';
 import { CpProvider, TarProvider, ScpProvider } from './providers/linux.js';
+import { NodeFsProvider } from './providers/node.js';
+import { TransferHandle, TransferStateChange } from './handle.js';
+import { ManifestManager } from './manifest.js';
+import { FilterSet } from './filters.js';
+import { FileEnumerator } from './advanced-utils.js';
+import { VerificationResult, verifyTree, repairMismatches, resolveCopyRoot, keptByConflictPolicy, unresolvedMismatches, verificationError } from './verification.js';
+import { runRemoteCommand, quoteShellArg, shellCommand } from '../utils/command-runner.js';
+import { collectSecrets, redactResult, redactSecrets } from './credentials.js';
+import { getLogger, Logger } from '../utils/logger.js';
+import { TransferError, TransferErrorCode, RETRYABLE_ERROR_CODES, classifyMessage, classifyResult } from './errors.js';
+import { calculateDelay } from '../utils/file-retry.js';
 import { RsyncCompatibilityChecker } from '../rsync/lib/rsyncChecker.js';
-import RsyncManager, { RsyncOptions, RsyncTransferResult } from '../rsync/lib/rsync.js';
+import RsyncManager, { RsyncOptions, RsyncTransferResult, RSYNC_PARTIAL_DIR } from '../rsync/lib/rsync.js';
 
 export interface UnifiedTransferOptions extends TransferOptions {
     // Transfer method preferences
@@ -19,7 +33,26 @@ export interface UnifiedTransferOptions extends TransferOptions {
     rsyncArgs?: string[];           // Additional rsync arguments
     
     // Strategy for method selection
-    strategy?: 'fastest' | 'most-compatible' | 'preserve-metadata' | 'compress' | 'network';
+    strategy?: TransferStrategy;
+    
+    logger?: Logger;                // Logs for this transfer (default: the manager's logger)
+    retryOptions?: TransferRetryOptions; // How `retries` backs off between attempts
+}
+
+export interface TransferRetryOptions {
+    initialDelay?: number;          // Milliseconds before the first retry (default: 1000)
+    maxDelay?: number;              // Upper bound on any one wait (default: 30000)
+    backoffFactor?: number;         // Growth of the wait per attempt (default: 2)
+    retryOn?: TransferErrorCode[];  // Codes worth another attempt (default: RETRYABLE_ERROR_CODES)
+}
+
+export interface UnifiedTransferManagerOptions {
+    logger?: Logger;                // Default: getLogger('manager'), looked up when used
+}
+
+export interface ProviderRegistration {
+    platforms?: NodeJS.Platform[];  // Only register on these platforms (default: all)
+    priority?: number;              // Added to the provider's score under every strategy (default: 0)
 }
 
 export interface MethodSelectionResult {
@@ -34,66 +67,96 @@ export interface MethodSelectionResult {
  */
 export class UnifiedTransferManager extends EventEmitter {
     private availableProviders: Map<string, TransferProvider> = new Map();
+    private registrations: Map<string, { provider: TransferProvider; priority: number; detach?: () => void }> = new Map();
+    private pendingChecks: Promise<void>[] = [];
     private rsyncAvailable: boolean = false;
-    private platformProviders: TransferProvider[] = [];
+    private initStarted: boolean = false;
     private initialized: boolean = false;
     private initPromise: Promise<void> | null = null;
+    private transferCount: number = 0;
 
-    constructor() {
+    constructor(private managerOptions: UnifiedTransferManagerOptions = {}) {
         super();
-        this.initializePlatformProviders();
+        this.registerBuiltInProviders();
+    }
+
+    private get logger(): Logger {
+        return this.managerOptions.logger ?? getLogger('manager');
     }
 
     /**
      * Ensure the manager is initialized (lazy initialization)
      */
     private async ensureInitialized(): Promise<void> {
-        if (this.initialized) {
-            return;
+        if (!this.initialized) {
+            if (!this.initPromise) {
+                this.initPromise = this.initialize();
+            }
+            await this.initPromise;
         }
         
-        if (this.initPromise) {
-            return this.initPromise;
+        // Providers registered once initialization had started
+        while (this.pendingChecks.length > 0) {
+            await Promise.all(this.pendingChecks.splice(0));
         }
-        
-        this.initPromise = this.initialize();
-        await this.initPromise;
     }
 
     /**
-     * Initialize platform-specific providers
+     * Register the providers that ship with the library
      */
-    private initializePlatformProviders(): void {
+    private registerBuiltInProviders(): void {
         const platform = os.platform();
         
-        switch (platform) {
-            case 'win32':
-                this.platformProviders = [
-                    new RobocopyProvider(),
-                    new XCopyProvider()
-                ];
-                break;
-                
-            case 'darwin':
-                this.platformProviders = [
-                    new DittoProvider(),
-                    new MacCpProvider(),
-                    new ScpProvider() // For network transfers
-                ];
-                break;
-                
-            case 'linux':
-                this.platformProviders = [
-                    new CpProvider(),
-                    new TarProvider(),
-                    new ScpProvider()
-                ];
-                break;
-                
-            default:
-                // Fallback to basic providers
-                this.platformProviders = [new CpProvider()];
+        this.registerProvider(new RobocopyProvider(), { platforms: ['win32'] });
+        this.registerProvider(new XCopyProvider(), { platforms: ['win32'] });
+        this.registerProvider(new DittoProvider(), { platforms: ['darwin'] });
+        this.registerProvider(new MacCpProvider(), { platforms: ['darwin'] });
+        
+        // GNU cp is also the best guess on platforms without providers of their own
+        if (platform !== 'win32' && platform !== 'darwin') {
+            this.registerProvider(new CpProvider());
+        }
+        this.registerProvider(new TarProvider(), { platforms: ['linux'] });
+        this.registerProvider(new ScpProvider(), { platforms: ['darwin', 'linux'] }); // For network transfers
+        
+        // In-process copier works everywhere, even with no external tools installed, but it is
+        // the fallback of last resort
+        this.registerProvider(new NodeFsProvider(), { priority: -20 });
+    }
+
+    /**
+     * Add a provider to the ones considered for fallback transfers. It replaces any provider
+     * registered under the same name, so built-ins can be swapped out. How it ranks comes from
+     * its capabilities (including `strategyScores`) plus `priority`.
+     */
+    registerProvider(provider: TransferProvider, registration: ProviderRegistration = {}): void {
+        if (registration.platforms && !registration.platforms.includes(os.platform())) {
+            return;
         }
+        
+        this.unregisterProvider(provider.name);
+        this.registrations.set(provider.name, { provider, priority: registration.priority ?? 0 });
+        
+        // Too late for initialize() to pick it up; check it before the next selection instead
+        if (this.initStarted) {
+            this.pendingChecks.push(this.checkProvider(provider));
+        }
+    }
+
+    /**
+     * Stop considering a provider. Returns false if nothing is registered under that name.
+     */
+    unregisterProvider(provider: TransferProvider | string): boolean {
+        const name = typeof provider === 'string' ? provider : provider.name;
+        const registration = this.registrations.get(name);
+        if (!registration) {
+            return false;
+        }
+        
+        registration.detach?.();
+        this.registrations.delete(name);
+        this.availableProviders.delete(name);
+        return true;
     }
 
     /**
@@ -103,6 +166,7 @@ export class UnifiedTransferManager extends EventEmitter {
         if (this.initialized) {
             return;
         }
+        this.initStarted = true;
         
         try {
             // Check rsync availability
@@ -110,39 +174,12 @@ export class UnifiedTransferManager extends EventEmitter {
             this.rsyncAvailable = rsyncResult.isAvailable;
             
             // Check which fallback providers are available
-            const availabilityChecks = this.platformProviders.map(async (provider) => {
-                try {
-                    const available = await Promise.race([
-                        provider.isAvailable(),
-                        new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 5000))
-                    ]);
-                    
-                    if (available) {
-                        this.availableProviders.set(provider.name, provider);
-                        
-                        // Set up event forwarding
-                        provider.on('progress', (progress: TransferProgress) => {
-                            this.emit('progress', progress);
-                        });
-                        
-                        provider.on('error', (error: Error) => {
-                            this.emit('error', error);
-                        });
-                        
-                        console.log(`[TransferManager] Provider '${provider.name}' is available`);
-                    } else {
-                        console.log(`[TransferManager] Provider '${provider.name}' is not available`);
-                    }
-                } catch (error) {
-                    // Provider initialization failed, skip it
-                    console.warn(`[TransferManager] Failed to initialize provider ${provider.name}:`, error);
-                }
-            });
+            await Promise.all(Array.from(this.registrations.values(), ({ provider }) => this.checkProvider(provider)));
             
-            await Promise.all(availabilityChecks);
-            
-            console.log(`[TransferManager] Initialized with ${this.availableProviders.size} providers:`, 
-                Array.from(this.availableProviders.keys()));
+            this.logger.info(`Initialized with ${this.availableProviders.size} providers`, {
+                rsyncAvailable: this.rsyncAvailable,
+                providers: Array.from(this.availableProviders.keys())
+            });
             
             this.emit('initialized', {
                 rsyncAvailable: this.rsyncAvailable,
@@ -152,12 +189,55 @@ export class UnifiedTransferManager extends EventEmitter {
             this.initialized = true;
             
         } catch (error) {
-            console.error('[TransferManager] Initialization failed:', error);
+            this.logger.error('Initialization failed', { error });
             this.emit('error', error);
             throw error;
         }
     }
 
+    /**
+     * Make a registered provider available for selection if its tool is present
+     */
+    private async checkProvider(provider: TransferProvider): Promise<void> {
+        try {
+            const available = await Promise.race([
+                provider.isAvailable(),
+                new Promise<boolean>((resolve) => setTimeout(() => resolve(false), 5000))
+            ]);
+            
+            // Unregistered or replaced while the check ran
+            const registration = this.registrations.get(provider.name);
+            if (registration?.provider !== provider) {
+                return;
+            }
+            
+            if (available) {
+                this.availableProviders.set(provider.name, provider);
+                
+                // Set up event forwarding
+                const onProgress = (progress: TransferProgress) => {
+                    this.emit('progress', progress);
+                };
+                const onError = (error: Error) => {
+                    this.emit('error', error);
+                };
+                provider.on('progress', onProgress);
+                provider.on('error', onError);
+                registration.detach = () => {
+                    provider.off('progress', onProgress);
+                    provider.off('error', onError);
+                };
+                
+                this.logger.debug(`Provider '${provider.name}' is available`);
+            } else {
+                this.logger.debug(`Provider '${provider.name}' is not available`);
+            }
+        } catch (error) {
+            // Provider initialization failed, skip it
+            this.logger.warn(`Failed to initialize provider ${provider.name}`, { error });
+        }
+    }
+
     /**
      * Select the best transfer method based on options and requirements
      */
@@ -168,6 +248,39 @@ export class UnifiedTransferManager extends EventEmitter {
     ): Promise<MethodSelectionResult> {
         await this.ensureInitialized();
         
+        const mode = options.onConflict ?? 'overwrite';
+        if (mode === 'ask' && !options.resolveConflict) {
+            throw new Error("onConflict: 'ask' needs a resolveConflict callback");
+        }
+        
+        const selection = await this.chooseTransferMethod(source, destination, options);
+        const conflictsHandled = (selection.provider.capabilities.conflictModes ?? ['overwrite']).includes(mode);
+        const filtersHandled = selection.provider.supportsFilters(await FilterSet.fromOptions(options), source);
+        if (conflictsHandled && filtersHandled) {
+            return selection;
+        }
+        
+        // Only the Node.js provider handles every mode and filter, and only between local paths
+        const unsupported = conflictsHandled ? 'the filter rules' : `onConflict '${mode}'`;
+        const nodeFs = this.availableProviders.get('node-fs');
+        if (nodeFs && !source.isRemote && !destination.isRemote && (await nodeFs.validateTargets(source, destination)).valid) {
+            return {
+                provider: nodeFs,
+                reason: `${selection.provider.name} can't handle ${unsupported} natively; using node-fs`,
+                rsyncAvailable: this.rsyncAvailable,
+                fallbackUsed: true
+            };
+        }
+        
+        throw new Error(`Can't apply ${unsupported} with ${selection.provider.name}` +
+            (source.isRemote || destination.isRemote ? ' for remote transfers' : ''));
+    }
+
+    private async chooseTransferMethod(
+        source: TransferTarget, 
+        destination: TransferTarget, 
+        options: UnifiedTransferOptions
+    ): Promise<MethodSelectionResult> {
         // If user forces native tools, skip rsync
         if (options.forceNative) {
             const provider = await this.selectFallbackProvider(source, destination, options);
@@ -228,8 +341,10 @@ export class UnifiedTransferManager extends EventEmitter {
         const isNetworkTransfer = source.isRemote || destination.isRemote;
         const strategy = options.strategy || 'most-compatible';
         
-        console.log(`[TransferManager] Selecting fallback provider for ${isNetworkTransfer ? 'network' : 'local'} transfer`);
-        console.log(`[TransferManager] Available providers: ${Array.from(this.availableProviders.keys()).join(', ')}`);
+        const log = options.logger ?? this.logger;
+        log.debug(`Selecting fallback provider for ${isNetworkTransfer ? 'network' : 'local'} transfer`, {
+            available: Array.from(this.availableProviders.keys())
+        });
         
         // Filter providers based on capabilities
         const suitableProviders: { provider: TransferProvider; score: number; reason?: string }[] = [];
@@ -257,9 +372,10 @@ export class UnifiedTransferManager extends EventEmitter {
             suitableProviders.push({ provider, score, reason: `Score: ${score}` });
         }
         
-        console.log('[TransferManager] Rejected providers:', rejectedProviders);
-        console.log('[TransferManager] Suitable providers:', 
-            suitableProviders.map(p => `${p.provider.name} (score: ${p.score})`).join(', '));
+        log.debug('Ranked providers', {
+            rejected: rejectedProviders,
+            suitable: suitableProviders.map(p => `${p.provider.name} (score: ${p.score})`)
+        });
         
         if (suitableProviders.length === 0) {
             const detailedError = [
@@ -269,13 +385,13 @@ export class UnifiedTransferManager extends EventEmitter {
                 ...rejectedProviders.map(r => `  - ${r.name}: ${r.reason}`)
             ].filter(Boolean).join('\n');
             
-            throw new Error(detailedError);
+            throw new TransferError('NO_PROVIDER', detailedError);
         }
         
         // Sort by score (highest first) and return the best provider
         suitableProviders.sort((a, b) => b.score - a.score);
         const selected = suitableProviders[0].provider;
-        console.log(`[TransferManager] Selected provider: ${selected.name}`);
+        log.debug(`Selected provider: ${selected.name}`);
         return selected;
     }
 
@@ -284,26 +400,26 @@ export class UnifiedTransferManager extends EventEmitter {
      */
     private calculateProviderScore(
         provider: TransferProvider, 
-        strategy: string, 
+        strategy: TransferStrategy, 
         options: UnifiedTransferOptions,
         isNetworkTransfer: boolean
     ): number {
         let score = 0;
         const caps = provider.capabilities;
         
+        // Preferences the provider declares for this strategy, plus its registered priority
+        score += caps.strategyScores?.[strategy] ?? 0;
+        score += this.registrations.get(provider.name)?.priority ?? 0;
+        
         switch (strategy) {
             case 'fastest':
                 // Prefer providers with good performance characteristics
-                if (provider.name === 'robocopy') score += 10;
-                if (provider.name === 'rsync') score += 15;
                 if (caps.supportsProgress) score += 3;
                 if (caps.supportsResume) score += 5;
                 break;
                 
             case 'most-compatible':
                 // Prefer widely compatible providers
-                if (provider.name === 'cp') score += 10;
-                if (provider.name === 'xcopy') score += 8;
                 if (!caps.supportsNetworkTransfer && !isNetworkTransfer) score += 5;
                 break;
                 
@@ -312,23 +428,17 @@ export class UnifiedTransferManager extends EventEmitter {
                 if (caps.supportsPermissions) score += 5;
                 if (caps.supportsTimestamps) score += 5;
                 if (caps.supportsSymlinks) score += 3;
-                if (provider.name === 'ditto') score += 8; // Excellent for macOS metadata
-                if (provider.name === 'robocopy') score += 7; // Good for Windows metadata
                 break;
                 
             case 'compress':
                 // Prefer providers that support compression
                 if (caps.supportsCompression) score += 10;
-                if (provider.name === 'tar') score += 8;
-                if (provider.name === 'ditto') score += 6;
                 break;
                 
             case 'network':
                 // Prefer providers optimized for network transfer
                 if (caps.supportsNetworkTransfer) score += 10;
                 if (caps.supportsAuthentication) score += 5;
-                if (provider.name === 'scp') score += 8;
-                if (provider.name === 'robocopy') score += 6; // Good SMB support
                 break;
         }
         
@@ -350,11 +460,21 @@ export class UnifiedTransferManager extends EventEmitter {
      * Create a wrapper provider for rsync functionality
      */
     private async createRsyncProvider(options: UnifiedTransferOptions): Promise<TransferProvider> {
-        return new RsyncWrapperProvider(options);
+        const provider = new RsyncWrapperProvider(options);
+        
+        // The wrapper is created per transfer, so forward its progress here
+        provider.on('progress', (progress: TransferProgress) => {
+            this.emit('progress', progress);
+        });
+        
+        return provider;
     }
 
     /**
      * Execute transfer using the best available method
+     *
+     * Pass `options.signal` to cancel: the running tool is killed, the provider cleans up
+     * and the result resolves with `status: 'cancelled'`.
      */
     async transfer(
         source: TransferTarget, 
@@ -363,31 +483,77 @@ export class UnifiedTransferManager extends EventEmitter {
     ): Promise<TransferResult & { methodUsed: MethodSelectionResult }> {
         await this.ensureInitialized();
         
-        const methodSelection = await this.selectTransferMethod(source, destination, options);
+        const log = (options.logger ?? this.logger).child('transfer', { transfer: ++this.transferCount });
+        const methodSelection = await this.selectTransferMethod(source, destination, { ...options, logger: log });
         const provider = methodSelection.provider;
         
+        log.info(`Transferring with ${provider.name}`, { reason: methodSelection.reason });
         this.emit('methodSelected', methodSelection);
         
         try {
-            // Prepare for transfer
-            const prepared = await provider.prepare(source, destination, options);
-            if (!prepared) {
-                throw new Error('Failed to prepare transfer');
-            }
+            // Where the copy lands depends on whether the destination existed beforehand
+            const destinationExisted = options.verify && !destination.isRemote
+                ? await fs.access(destination.path).then(() => true, () => false)
+                : false;
+            const keptFiles = options.verify && !options.dryRun
+                ? await this.keptFiles(source, destination, provider.name, destinationExisted, options)
+                : new Set<string>();
             
-            // Execute transfer
-            const result = await provider.transfer(source, destination, options);
+            const result = await this.transferWithRetries(provider, source, destination, options, log);
             
-            // Cleanup
-            await provider.cleanup(source, destination);
+            // In-process copies verify as they go; everything else is checked here
+            if (options.verify && !options.dryRun && result.success && !result.verification) {
+                result.verification = await this.verifyTransfer(source, destination, result.method, destinationExisted, options, keptFiles);
+                const unresolved = unresolvedMismatches(result.verification);
+                if (unresolved.length > 0) {
+                    result.success = false;
+                    result.error = verificationError(unresolved);
+                    result.errorCode = 'VERIFICATION_FAILED';
+                }
+            }
             
-            // Add method information to result
-            const enhancedResult = {
+            if (options.manifestPath && !options.dryRun && result.success) {
+                try {
+                    const entries = await ManifestManager.writeManifest(source, options.manifestPath, {
+                        format: options.manifestFormat,
+                        filters: {
+                            filters: options.filters,
+                            include: options.include,
+                            exclude: options.exclude,
+                            ignoreFiles: options.ignoreFiles,
+                            minSize: options.minSize,
+                            maxSize: options.maxSize,
+                            minAge: options.minAge,
+                            maxAge: options.maxAge
+                        },
+                        keyFile: options.keyFile
+                    });
+                    this.emit('manifestWritten', { path: options.manifestPath, files: entries.length });
+                } catch (error) {
+                    result.success = false;
+                    result.error = `Failed to write manifest: ${error instanceof Error ? error.message : error}`;
+                    result.errorCode = 'IO_ERROR';
+                }
+            }
+            
+            // Add method information to result, with any password the tools echoed removed
+            const enhancedResult = redactResult({
                 ...result,
+                status: result.status ?? (result.success ? 'completed' : 'failed'),
                 methodUsed: methodSelection
-            };
+            }, collectSecrets(options));
             
-            this.emit('transferComplete', enhancedResult);
+            if (enhancedResult.status === 'cancelled') {
+                log.info('Transfer cancelled');
+                this.emit('transferCancelled', enhancedResult);
+            } else {
+                if (enhancedResult.success) {
+                    log.info('Transfer completed', { files: enhancedResult.filesTransferred, duration: enhancedResult.duration });
+                } else {
+                    log.warn('Transfer failed', { exitCode: enhancedResult.exitCode, errorCode: enhancedResult.errorCode, error: enhancedResult.error });
+                }
+                this.emit('transferComplete', enhancedResult);
+            }
             return enhancedResult;
             
         } catch (error) {
@@ -398,11 +564,203 @@ export class UnifiedTransferManager extends EventEmitter {
                 // Ignore cleanup errors
             }
             
+            if (error instanceof Error) {
+                error.message = redactSecrets(error.message, collectSecrets(options));
+            }
+            log.error('Transfer failed', { error });
             this.emit('transferError', error);
             throw error;
         }
     }
 
+    /**
+     * Run the provider, and again after a growing pause while the failure is retryable and
+     * `options.retries` allows. Retried rsync runs resume from their partial files.
+     */
+    private async transferWithRetries(
+        provider: TransferProvider,
+        source: TransferTarget,
+        destination: TransferTarget,
+        options: UnifiedTransferOptions,
+        log: Logger
+    ): Promise<TransferResult> {
+        const maxRetries = options.dryRun ? 0 : options.retries ?? 0;
+        const retryOn = options.retryOptions?.retryOn ?? RETRYABLE_ERROR_CODES;
+        const attemptOptions = maxRetries > 0 && provider.name === 'rsync'
+            ? { ...options, customArgs: [...(options.customArgs || []), `--partial-dir=${RSYNC_PARTIAL_DIR}`] }
+            : options;
+        const attempts: TransferAttempt[] = [];
+        
+        for (let attempt = 1; ; attempt++) {
+            const started = Date.now();
+            const outcome = await this.attemptTransfer(provider, source, destination, attemptOptions).then(
+                (result) => ({ result, error: undefined }),
+                (error: unknown) => ({ result: undefined, error })
+            );
+            
+            const failure = outcome.error instanceof TransferError ? outcome.error : undefined;
+            const errorCode = outcome.result ? outcome.result.errorCode : failure?.code;
+            const record: TransferAttempt = {
+                attempt,
+                success: outcome.result?.success ?? false,
+                exitCode: outcome.result?.exitCode,
+                errorCode,
+                error: outcome.result ? outcome.result.error : outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+                duration: Date.now() - started
+            };
+            attempts.push(record);
+            
+            const retry = !record.success
+                && attempt <= maxRetries
+                && !options.signal?.aborted
+                && errorCode !== undefined
+                && retryOn.includes(errorCode);
+            
+            if (!retry) {
+                if (outcome.result) {
+                    outcome.result.attempts = attempts;
+                    return outcome.result;
+                }
+                throw outcome.error;
+            }
+            
+            record.retryDelay = calculateDelay(
+                attempt - 1,
+                options.retryOptions?.initialDelay ?? 1000,
+                options.retryOptions?.maxDelay ?? 30000,
+                options.retryOptions?.backoffFactor ?? 2
+            );
+            const error = redactSecrets(record.error ?? '', collectSecrets(options));
+            log.warn(`Attempt ${attempt} failed, retrying in ${Math.round(record.retryDelay)}ms`, { errorCode, error });
+            this.emit('retry', { ...record, error, nextAttempt: attempt + 1, maxAttempts: maxRetries + 1 });
+            
+            // An abort during the wait ends it early; the next attempt then reports the cancellation
+            await new Promise<void>((resolve) => {
+                const onAbort = () => { clearTimeout(timer); resolve(); };
+                const timer = setTimeout(() => { options.signal?.removeEventListener('abort', onAbort); resolve(); }, record.retryDelay);
+                options.signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+    }
+
+    /**
+     * One prepare, transfer and cleanup cycle, with the outcome classified
+     */
+    private async attemptTransfer(
+        provider: TransferProvider,
+        source: TransferTarget,
+        destination: TransferTarget,
+        options: UnifiedTransferOptions
+    ): Promise<TransferResult> {
+        try {
+            // Prepare for transfer; providers report why preparation failed as an error event
+            const prepareErrors: Error[] = [];
+            const onPrepareError = (error: Error) => { prepareErrors.push(error); };
+            provider.on('error', onPrepareError);
+            const prepared = await provider.prepare(source, destination, options).finally(() => provider.off('error', onPrepareError));
+            if (!prepared) {
+                const reason = prepareErrors[prepareErrors.length - 1]?.message;
+                throw TransferError.fromCode(
+                    (reason && classifyMessage(reason)) || 'UNKNOWN',
+                    reason ? `Failed to prepare transfer: ${reason}` : 'Failed to prepare transfer'
+                );
+            }
+            
+            // Execute transfer (providers return a cancelled result if the signal already fired)
+            const result = await provider.transfer(source, destination, options);
+            const classified = classifyResult(result);
+            result.errorCode = result.errorCode ?? classified.errorCode;
+            if (!result.fileErrors && classified.fileErrors.length > 0) {
+                result.fileErrors = classified.fileErrors;
+            }
+            
+            // Cleanup
+            await provider.cleanup(source, destination);
+            
+            return result;
+        } catch (error) {
+            try {
+                await provider.cleanup(source, destination);
+            } catch {
+                // Ignore cleanup errors
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Existing destination files that onConflict 'skip' or 'newer' will keep, so verification
+     * doesn't flag (or repair) their old contents
+     */
+    private async keptFiles(
+        source: TransferTarget,
+        destination: TransferTarget,
+        method: string,
+        destinationExisted: boolean,
+        options: UnifiedTransferOptions
+    ): Promise<Set<string>> {
+        const mode = options.onConflict ?? 'overwrite';
+        if ((mode !== 'skip' && mode !== 'newer') || source.isRemote || destination.isRemote) {
+            return new Set();
+        }
+        
+        try {
+            const copyRoot = await resolveCopyRoot(source, destination, method, destinationExisted);
+            return await keptByConflictPolicy(source.path, copyRoot, mode, options);
+        } catch {
+            // Missing source - the transfer reports it
+            return new Set();
+        }
+    }
+
+    /**
+     * Compare the source with the copy a provider made, re-copying mismatches if asked to
+     */
+    private async verifyTransfer(
+        source: TransferTarget,
+        destination: TransferTarget,
+        method: string,
+        destinationExisted: boolean,
+        options: UnifiedTransferOptions,
+        keptFiles: Set<string>
+    ): Promise<VerificationResult> {
+        const mode = options.verify!;
+        if (source.isRemote || destination.isRemote) {
+            return { mode, filesChecked: 0, mismatches: [], repaired: [], skipped: 'Verification needs both endpoints to be local' };
+        }
+        
+        const copyRoot = await resolveCopyRoot(source, destination, method, destinationExisted);
+        const verification = await verifyTree(source.path, copyRoot, mode, options, keptFiles);
+        
+        if (options.repairMismatches && verification.mismatches.length > 0) {
+            await repairMismatches(source.path, copyRoot, verification);
+        }
+        
+        this.emit('verificationComplete', verification);
+        return verification;
+    }
+
+    /**
+     * Start a transfer and return a handle that can pause, resume or cancel it.
+     * State changes are also re-emitted here as 'transferStateChange'.
+     */
+    startTransfer(
+        source: TransferTarget,
+        destination: TransferTarget,
+        options: UnifiedTransferOptions = {}
+    ): TransferHandle<TransferResult & { methodUsed: MethodSelectionResult }> {
+        const handle = new TransferHandle(
+            ({ signal, pauseSignal }) => this.transfer(source, destination, { ...options, signal, pauseSignal }),
+            options.signal
+        );
+        
+        handle.on('stateChange', (change: TransferStateChange) => {
+            this.emit('transferStateChange', { ...change, source, destination });
+        });
+        
+        return handle;
+    }
+
     /**
      * Get information about available transfer methods
      */
@@ -427,10 +785,10 @@ export class UnifiedTransferManager extends EventEmitter {
         source: TransferTarget, 
         destination: TransferTarget, 
         options: UnifiedTransferOptions = {}
-    ): Promise<{ totalBytes: number; totalFiles: number; recommendedMethod: string }> {
+    ): Promise<TransferEstimate & { recommendedMethod: string }> {
         
         const methodSelection = await this.selectTransferMethod(source, destination, options);
-        const estimate = await methodSelection.provider.estimateTransfer(source, options);
+        const estimate = await methodSelection.provider.estimateTransfer(source, options, destination);
         
         return {
             ...estimate,
@@ -444,7 +802,7 @@ export class UnifiedTransferManager extends EventEmitter {
  */
 class RsyncWrapperProvider extends TransferProvider {
     name = 'rsync';
-    capabilities = {
+    capabilities: FallbackCapabilities = {
         supportsCompression: true,
         supportsProgress: true,
         supportsResume: true,
@@ -455,7 +813,9 @@ class RsyncWrapperProvider extends TransferProvider {
         supportsNetworkTransfer: true,
         supportsAuthentication: true,
         maxRetries: 10,
-        preferredFor: ['all-purposes', 'network-transfer', 'incremental-backup']
+        preferredFor: ['all-purposes', 'network-transfer', 'incremental-backup'],
+        strategyScores: { fastest: 15 },
+        conflictModes: ['overwrite', 'skip', 'newer', 'rename']
     };
     
     private rsyncManager: RsyncManager;
@@ -463,6 +823,9 @@ class RsyncWrapperProvider extends TransferProvider {
     constructor(private options: UnifiedTransferOptions) {
         super();
         this.rsyncManager = new RsyncManager();
+        this.rsyncManager.on('progress', (progress: TransferProgress) => {
+            this.emitProgress(progress, this.options);
+        });
     }
 
     async isAvailable(): Promise<boolean> {
@@ -481,12 +844,15 @@ class RsyncWrapperProvider extends TransferProvider {
     }
 
     async transfer(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<TransferResult> {
+        let filtered: { args: string[]; source: string; cleanup: () => Promise<void> } | undefined;
         try {
             // Initialize rsync manager if not already done
             if (!this.rsyncManager.isReady()) {
                 await this.rsyncManager.initialize();
             }
             
+            filtered = await this.filterArgs(source, options);
+            
             // Convert unified options to rsync options
             const rsyncOptions: RsyncOptions = {
                 archive: true,
@@ -495,16 +861,21 @@ class RsyncWrapperProvider extends TransferProvider {
                 delete: options.delete || false,
                 dryRun: options.dryRun || false,
                 progress: options.progress || true,
+                precomputeTotals: options.progress === true,
                 preserveLinks: options.preserveLinks !== false,
                 preservePerms: options.preservePerms !== false,
                 preserveTimes: options.preserveTimes !== false,
-                exclude: options.exclude,
-                include: options.include,
-                customArgs: options.customArgs
+                update: options.onConflict === 'newer',
+                ignoreExisting: options.onConflict === 'skip',
+                backupSuffix: options.onConflict === 'rename' ? this.backupSuffix() : undefined,
+                protectArgs: source.isRemote || destination.isRemote,
+                customArgs: [...this.sshArgs(source, destination), ...filtered.args, ...(options.customArgs || [])],
+                signal: options.signal,
+                pauseSignal: options.pauseSignal
             };
 
             // Build source and destination strings
-            const sourceStr = this.buildTargetString(source);
+            const sourceStr = filtered.source;
             const destStr = this.buildTargetString(destination);
 
             // Execute transfer
@@ -519,7 +890,10 @@ class RsyncWrapperProvider extends TransferProvider {
                 fallbackUsed: false,
                 bytesTransferred: result.bytesTransferred,
                 filesTransferred: result.filesTransferred,
-                duration: result.duration
+                duration: result.duration,
+                sourceSize: result.sourceSize,
+                stats: result.stats,
+                status: result.cancelled ? 'cancelled' : undefined
             };
         } catch (error) {
             return {
@@ -530,6 +904,8 @@ class RsyncWrapperProvider extends TransferProvider {
                 method: 'rsync',
                 fallbackUsed: false
             };
+        } finally {
+            await filtered?.cleanup();
         }
     }
 
@@ -537,14 +913,174 @@ class RsyncWrapperProvider extends TransferProvider {
         // Use existing rsync cleanup logic
     }
 
-    async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
-        // Use existing rsync estimation logic or fallback to file system scan
-        return { totalBytes: 0, totalFiles: 0 };
+    async estimateTransfer(source: TransferTarget, options: TransferOptions, destination?: TransferTarget): Promise<TransferEstimate> {
+        if (!this.rsyncManager.isReady()) {
+            await this.rsyncManager.initialize();
+        }
+        
+        const filtered = await this.filterArgs(source, options);
+        const rsyncOptions: RsyncOptions = {
+            archive: true,
+            delete: options.delete || false,
+            customArgs: [...this.sshArgs(source, destination), ...filtered.args, ...(options.customArgs || [])],
+            signal: options.signal
+        };
+        
+        // Without a destination, compare against one that doesn't exist so everything counts
+        const scratch = destination ? undefined : await fs.mkdtemp(path.join(os.tmpdir(), 'rsync-estimate-'));
+        try {
+            const destStr = destination ? this.buildTargetString(destination) : path.join(scratch!, 'target');
+            return await this.rsyncManager.estimate(filtered.source, destStr, rsyncOptions);
+        } finally {
+            await filtered.cleanup();
+            if (scratch) {
+                await fs.rm(scratch, { recursive: true, force: true });
+            }
+        }
+    }
+
+    supportsFilters(filters: FilterSet, source: TransferTarget): boolean {
+        // Ignore files on a remote source are fetched over ssh before the transfer
+        return !filters.hasAgeRules || !source.isRemote;
+    }
+
+    /**
+     * rsync arguments for the transfer's filters, and the source to pass with them.
+     * Per-directory ignore files are read first and passed as explicit rules, since rsync's own
+     * dir-merge would treat a .gitignore as a plain exclude list. Age rules have no rsync flag,
+     * so a local source is walked up front and handed over as a --files-from list relative to
+     * the directory the copy is rooted at.
+     */
+    private async filterArgs(source: TransferTarget, options: TransferOptions): Promise<{ args: string[]; source: string; cleanup: () => Promise<void> }> {
+        const contentsOnly = /[\\/]$/.test(source.path);
+        let filters = await FilterSet.fromOptions(options, source.isRemote ? undefined : source.path);
+        if (filters.ignoreFileNames.length > 0) {
+            filters = filters.withIgnoreFiles(await FileEnumerator.readRemoteIgnoreFiles(source, filters.ignoreFileNames, this.options.keyFile));
+        }
+
+        const args = filters.toRsyncArgs(contentsOnly ? undefined : path.posix.basename(source.path.replace(/\\/g, '/')));
+        if (args) {
+            return { args, source: this.buildTargetString(source), cleanup: async () => {} };
+        }
+        if (source.isRemote) {
+            throw new Error('rsync can only apply age filters to a local source');
+        }
+        
+        // Without a trailing slash rsync copies the directory itself, so list it under its name
+        const root = contentsOnly ? source.path : path.dirname(source.path);
+        const name = path.basename(source.path);
+        const stats = await fs.lstat(source.path);
+        let list: string[];
+        if (!stats.isDirectory()) {
+            list = filters.isIncluded(name, false, stats) ? [name] : [];
+        } else {
+            const entries = (await filters.listIncluded(source.path)).map(entry => entry.relativePath);
+            list = contentsOnly ? entries : [name, ...entries.map(entry => `${name}/${entry}`)];
+        }
+
+        const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'rsync-files-'));
+        const listPath = path.join(scratch, 'files-from');
+        await fs.writeFile(listPath, list.map(entry => `${entry}\0`).join(''));
+        return {
+            args: [`--files-from=${listPath}`, '--from0'],
+            source: root,
+            cleanup: () => fs.rm(scratch, { recursive: true, force: true })
+        };
     }
 
     async validateTargets(source: TransferTarget, destination: TransferTarget): Promise<{ valid: boolean; errors: string[] }> {
-        // Use existing rsync validation logic
-        return { valid: true, errors: [] };
+        const errors: string[] = [];
+        
+        if (source.isRemote && destination.isRemote) {
+            errors.push('rsync cannot copy between two remote hosts; run it on one of them or stage the files locally');
+        }
+        
+        if (source.isRemote) {
+            errors.push(...await this.checkRemote(source, `[ -e ${quoteShellArg(source.path)} ] || echo missing`, {
+                missing: `Source path does not exist on ${source.host}: ${source.path}`
+            }));
+        } else {
+            try {
+                await fs.access(source.path, fsConstants.R_OK);
+            } catch (error: any) {
+                errors.push(error.code === 'ENOENT'
+                    ? `Source path does not exist: ${source.path}`
+                    : `Source path is not readable: ${source.path}`);
+            }
+        }
+        
+        // rsync creates the destination itself, but not missing parents
+        const destDir = destination.path.replace(/[\\/]+$/, '') || destination.path;
+        const parent = path.posix.dirname(destDir.replace(/\\/g, '/')) || '.';
+        if (destination.isRemote) {
+            const dir = quoteShellArg(destDir);
+            const parentDir = quoteShellArg(parent);
+            errors.push(...await this.checkRemote(destination,
+                `if [ -e ${dir} ]; then [ -w ${dir} ] || echo readonly; elif [ -d ${parentDir} ]; then [ -w ${parentDir} ] || echo readonly; else echo noparent; fi`, {
+                    readonly: `Destination is not writable on ${destination.host}: ${destination.path}`,
+                    noparent: `Destination parent directory does not exist on ${destination.host}: ${parent} (rsync only creates the last path component)`
+                }));
+        } else {
+            const existing = await fs.stat(destDir).then(() => destDir, () => null);
+            const target = existing ?? path.dirname(destDir);
+            try {
+                await fs.access(target, fsConstants.W_OK);
+            } catch (error: any) {
+                errors.push(error.code === 'ENOENT'
+                    ? `Destination parent directory does not exist: ${target} (rsync only creates the last path component)`
+                    : `Destination is not writable: ${target}`);
+            }
+        }
+        
+        return {
+            valid: errors.length === 0,
+            errors
+        };
+    }
+    
+    /**
+     * Run a check script on a remote target over ssh. Each word it prints is looked up in
+     * `messages`; failing to connect at all is reported as unreachable.
+     */
+    private async checkRemote(target: TransferTarget, script: string, messages: { [word: string]: string }): Promise<string[]> {
+        const result = await runRemoteCommand({
+            host: target.host!,
+            user: target.user,
+            port: target.port,
+            keyFile: this.options.keyFile,
+            connectTimeout: this.options.timeout || 10
+        }, script);
+        
+        if (result.error) {
+            return [`Cannot run ssh to reach ${target.host}: ${result.error.message}`];
+        }
+        
+        // ssh itself exits with 255 when the connection or authentication fails
+        if (result.exitCode === 255) {
+            const reason = result.stderr.trim().split('\n').pop() || 'connection failed';
+            return [`Cannot reach ${target.host} over SSH (${reason}); check the host, port and that key-based login works without a password prompt`];
+        }
+        return result.stdout.split(/\s+/).filter(word => messages[word]).map(word => messages[word]);
+    }
+    
+    /**
+     * Suffix for files that onConflict: 'rename' moves aside, unique per transfer
+     */
+    private backupSuffix(): string {
+        return `.~${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '').replace('T', '-')}~`;
+    }
+
+    /**
+     * ssh options for non-default ports and keys, passed to rsync with -e
+     */
+    private sshArgs(source: TransferTarget, destination?: TransferTarget): string[] {
+        const remote = [source, destination].find(target => target?.isRemote);
+        if (!remote || (!remote.port && !this.options.keyFile)) return [];
+        
+        const ssh: string[] = [];
+        if (remote.port && remote.port !== 22) ssh.push('-p', remote.port.toString());
+        if (this.options.keyFile) ssh.push('-i', this.options.keyFile);
+        return ['-e', shellCommand('ssh', ssh)];
     }
     
     private buildTargetString(target: TransferTarget): string {
@@ -554,22 +1090,20 @@ class RsyncWrapperProvider extends TransferProvider {
                 targetStr += `${target.user}@`;
             }
             targetStr += target.host;
-            if (target.port && target.port !== 22) {
-                // For non-standard ports, we'd need to use SSH options
-                // This is simplified - real implementation would handle SSH properly
-            }
+            // Non-standard ports and keys are passed to ssh through sshArgs()
             targetStr += `:${target.path}`;
             return targetStr;
         }
-        return target.path;
+        // A colon before the first slash would make rsync look for a host
+        return path.isAbsolute(target.path) ? target.path : `./${target.path}`;
     }
 }
 
 /**
  * Factory function to create and initialize a unified transfer manager
  */
-export async function createUnifiedTransferManager(): Promise<UnifiedTransferManager> {
-    const manager = new UnifiedTransferManager();
+export async function createUnifiedTransferManager(options: UnifiedTransferManagerOptions = {}): Promise<UnifiedTransferManager> {
+    const manager = new UnifiedTransferManager(options);
     await manager.initialize();
     return manager;
 }
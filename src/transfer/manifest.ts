@@ -0,0 +1,250 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TransferTarget } from './interfaces.js';
+import { runRemoteCommand, quoteShellArg } from '../utils/command-runner.js';
+import { FilterSet, FilterOptions } from './filters.js';
+import { hashFile } from './verification.js';
+
+export type ManifestFormat = 'jsonl' | 'sha256sums';
+
+export interface ManifestEntry {
+    path: string;       // Relative to the manifest root, '/' separated
+    size?: number;      // Not recorded in sha256sums manifests
+    mtime?: number;     // Unix seconds
+    mode?: string;      // Octal permission bits, e.g. '644'
+    sha256: string;
+}
+
+export interface ManifestOptions {
+    format?: ManifestFormat;                    // Default: 'jsonl'
+    filters?: FilterOptions;                    // Limit the manifest like a transfer
+    keyFile?: string;                           // SSH key for remote targets
+}
+
+export interface ManifestMismatch {
+    path: string;
+    reason: 'size' | 'hash';
+    expected: string | number;
+    actual: string | number;
+}
+
+export interface ManifestVerificationResult {
+    valid: boolean;
+    checked: number;
+    missing: string[];              // In the manifest but not in the target
+    extra: string[];                // In the target but not in the manifest
+    corrupted: ManifestMismatch[];
+}
+
+/**
+ * Sidecar manifests recording what a copy should contain, for archival and later audits.
+ *
+ * 'jsonl' writes one JSON object per file with path, size, mtime, mode and sha256.
+ * 'sha256sums' writes BSD-style `SHA256 (path) = hash` lines that `sha256sum -c` and
+ * `shasum -c` understand, at the cost of dropping size, mtime and mode.
+ */
+export class ManifestManager {
+    /**
+     * Hash every regular file under a local or remote target
+     */
+    static async createManifest(target: TransferTarget, options: ManifestOptions = {}): Promise<ManifestEntry[]> {
+        const entries = target.isRemote
+            ? await this.scanRemote(target, options)
+            : await this.scanLocal(target.path, options);
+
+        return entries.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Create a manifest for a target and write it to `manifestPath`
+     */
+    static async writeManifest(target: TransferTarget, manifestPath: string, options: ManifestOptions = {}): Promise<ManifestEntry[]> {
+        const entries = (await this.createManifest(target, options))
+            .filter(entry => !this.isManifestItself(target, entry.path, manifestPath));
+
+        const content = (options.format || 'jsonl') === 'sha256sums'
+            ? entries.map(entry => this.formatChecksumLine(entry)).join('\n')
+            : entries.map(entry => JSON.stringify(entry)).join('\n');
+
+        await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+        await fs.writeFile(manifestPath, content + (entries.length > 0 ? '\n' : ''), 'utf8');
+        return entries;
+    }
+
+    /**
+     * Read a manifest in either format
+     */
+    static async readManifest(manifestPath: string): Promise<ManifestEntry[]> {
+        const content = await fs.readFile(manifestPath, 'utf8');
+        const entries: ManifestEntry[] = [];
+
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+
+            if (line.startsWith('{')) {
+                entries.push(JSON.parse(line));
+                continue;
+            }
+
+            // BSD style, as well as the GNU "hash  path" form for hand-made manifests.
+            // A leading backslash means the name was escaped, as coreutils does.
+            const escaped = line.startsWith('\\');
+            const body = escaped ? line.slice(1) : line;
+            const unescape = (name: string) => escaped
+                ? name.replace(/\\(\\|n)/g, (_, c: string) => c === 'n' ? '\n' : '\\')
+                : name;
+
+            const bsd = body.match(/^SHA256 \((.*)\) = ([0-9a-f]{64})$/i);
+            const gnu = body.match(/^([0-9a-f]{64}) [ *](.*)$/i);
+            if (bsd) {
+                entries.push({ path: unescape(bsd[1]), sha256: bsd[2].toLowerCase() });
+            } else if (gnu) {
+                entries.push({ path: unescape(gnu[2]).replace(/^\.\//, ''), sha256: gnu[1].toLowerCase() });
+            } else {
+                throw new Error(`Unrecognised manifest line: ${line}`);
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Check a local or remote target against a manifest
+     */
+    static async verifyManifest(target: TransferTarget, manifestPath: string, options: ManifestOptions = {}): Promise<ManifestVerificationResult> {
+        const expected = await this.readManifest(manifestPath);
+        const actual = new Map(
+            (await this.createManifest(target, options))
+                .filter(entry => !this.isManifestItself(target, entry.path, manifestPath))
+                .map(entry => [entry.path, entry])
+        );
+
+        const result: ManifestVerificationResult = { valid: true, checked: 0, missing: [], extra: [], corrupted: [] };
+
+        for (const entry of expected) {
+            const found = actual.get(entry.path);
+            actual.delete(entry.path);
+
+            if (!found) {
+                result.missing.push(entry.path);
+                continue;
+            }
+
+            result.checked++;
+            if (entry.size !== undefined && found.size !== undefined && entry.size !== found.size) {
+                result.corrupted.push({ path: entry.path, reason: 'size', expected: entry.size, actual: found.size });
+            } else if (entry.sha256 !== found.sha256) {
+                result.corrupted.push({ path: entry.path, reason: 'hash', expected: entry.sha256, actual: found.sha256 });
+            }
+        }
+
+        result.extra = Array.from(actual.keys()).sort();
+        result.valid = result.missing.length === 0 && result.extra.length === 0 && result.corrupted.length === 0;
+        return result;
+    }
+
+    /**
+     * Names with a newline or backslash are escaped and the line marked with a leading
+     * backslash, matching `sha256sum --tag`
+     */
+    private static formatChecksumLine(entry: ManifestEntry): string {
+        if (!/[\\\n]/.test(entry.path)) {
+            return `SHA256 (${entry.path}) = ${entry.sha256}`;
+        }
+        const escaped = entry.path.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+        return `\\SHA256 (${escaped}) = ${entry.sha256}`;
+    }
+
+    private static async scanLocal(root: string, options: ManifestOptions): Promise<ManifestEntry[]> {
+        const rootStats = await fs.stat(root);
+        if (!rootStats.isDirectory()) {
+            return [await this.describeLocalFile(root, path.basename(root))];
+        }
+
+        const filters = await FilterSet.fromOptions(options.filters || {}, root);
+        const entries: ManifestEntry[] = [];
+        const walk = async (relativeDir: string): Promise<void> => {
+            const items = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+
+            for (const item of items) {
+                const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+                if (!filters.isIncluded(relativePath, item.isDirectory())) continue;
+
+                if (item.isDirectory()) {
+                    await walk(relativePath);
+                } else if (item.isFile()) {
+                    if (filters.hasSizeRules || filters.hasAgeRules) {
+                        if (!filters.isIncluded(relativePath, false, await fs.stat(path.join(root, relativePath)))) continue;
+                    }
+                    entries.push(await this.describeLocalFile(path.join(root, relativePath), relativePath));
+                }
+            }
+        };
+
+        await walk('');
+        return entries;
+    }
+
+    private static async describeLocalFile(filePath: string, relativePath: string): Promise<ManifestEntry> {
+        const stats = await fs.stat(filePath);
+        return {
+            path: relativePath,
+            size: stats.size,
+            mtime: Math.floor(stats.mtimeMs / 1000),
+            mode: (stats.mode & 0o7777).toString(8),
+            sha256: await hashFile(filePath, 'sha256')
+        };
+    }
+
+    /**
+     * One ssh round trip: find prints size, mtime, mode and path for each file, then sha256sum
+     * hashes them. Both use NUL separators so any file name survives.
+     */
+    private static async scanRemote(target: TransferTarget, options: ManifestOptions): Promise<ManifestEntry[]> {
+        const root = quoteShellArg(target.path);
+        const command = `if [ -d ${root} ]; then `
+            + `cd -- ${root} && find . -type f -printf 'S %s %T@ %m %P\\0' && find . -type f -print0 | xargs -0 -r sha256sum -z --; `
+            + `else find ${root} -maxdepth 0 -type f -printf 'S %s %T@ %m %f\\0' && sha256sum -z -- ${root}; fi`;
+
+        const output = await this.runSsh(target, command, options.keyFile);
+        const stats = new Map<string, Omit<ManifestEntry, 'sha256'>>();
+        const hashes = new Map<string, string>();
+
+        for (const record of output.split('\0')) {
+            if (!record) continue;
+
+            const stat = record.match(/^S (\d+) ([\d.]+) ([0-7]+) ([\s\S]+)$/);
+            if (stat) {
+                stats.set(stat[4], { path: stat[4], size: parseInt(stat[1], 10), mtime: Math.floor(parseFloat(stat[2])), mode: stat[3] });
+                continue;
+            }
+
+            const hash = record.match(/^([0-9a-f]{64}) [ *]([\s\S]+)$/);
+            if (hash) {
+                const filePath = hash[2].replace(/^\.\//, '');
+                // A single-file target hashes its full path; key it by name like the stat record
+                hashes.set(stats.has(filePath) ? filePath : path.posix.basename(filePath), hash[1]);
+            }
+        }
+
+        const filters = await FilterSet.fromOptions(options.filters || {});
+        return Array.from(stats.values())
+            .filter(entry => filters.isPathIncluded(entry.path, false, { size: entry.size!, mtimeMs: entry.mtime! * 1000 }))
+            .filter(entry => hashes.has(entry.path))
+            .map(entry => ({ ...entry, sha256: hashes.get(entry.path)! }));
+    }
+
+    private static isManifestItself(target: TransferTarget, relativePath: string, manifestPath: string): boolean {
+        if (target.isRemote) return false;
+        return path.resolve(target.path, relativePath) === path.resolve(manifestPath);
+    }
+
+    private static async runSsh(target: TransferTarget, command: string, keyFile?: string): Promise<string> {
+        const result = await runRemoteCommand({ host: target.host!, user: target.user, port: target.port, keyFile }, command);
+        if (result.error) throw result.error;
+        if (result.exitCode !== 0) {
+            throw new Error(`Failed to read manifest data from ${target.host}: ${result.stderr.trim() || `ssh exited with ${result.exitCode}`}`);
+        }
+        return result.stdout;
+    }
+}
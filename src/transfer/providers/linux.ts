@@ -1,7 +1,9 @@
-import { execSync, spawn } from 'child_process';
-import { existsSync, statSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { existsSync, statSync, readdirSync, rmSync, writeFileSync, lstatSync } from 'fs';
+import { join, dirname, resolve } from 'path';
 import { TransferProvider, TransferOptions, TransferResult, TransferTarget, FallbackCapabilities, TransferProgress } from '../interfaces.js';
+import { runCommand, runRemoteCommand, commandExists, shellCommand, quoteShellArg, commandFailure } from '../../utils/command-runner.js';
+import { FilterSet } from '../filters.js';
+import { resolveCredentials, collectSecrets, redactSecrets, withAskpass } from '../credentials.js';
 
 /**
  * Linux CP (copy) provider - versatile Unix copy command
@@ -19,26 +21,19 @@ export class CpProvider extends TransferProvider {
         supportsNetworkTransfer: false,
         supportsAuthentication: false,
         maxRetries: 0,
-        preferredFor: ['simple-copy', 'basic-backup', 'unix-systems', 'local-transfer']
+        preferredFor: ['simple-copy', 'basic-backup', 'unix-systems', 'local-transfer'],
+        strategyScores: { 'most-compatible': 10 },
+        conflictModes: ['overwrite', 'skip', 'newer', 'rename']
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('which cp', { timeout: 3000, stdio: 'ignore' });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('cp');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('cp --version', { encoding: 'utf8', timeout: 3000 });
-            const match = output.match(/cp \(GNU coreutils\) ([\d.]+)/);
-            return match ? match[1] : 'built-in';
-        } catch {
-            return 'built-in';
-        }
+        const result = await runCommand('cp', ['--version'], { timeout: 3000 });
+        const match = result.stdout.match(/cp \(GNU coreutils\) ([\d.]+)/);
+        return match ? match[1] : 'built-in';
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -55,15 +50,23 @@ export class CpProvider extends TransferProvider {
                 return {
                     success: true,
                     exitCode: 0,
-                    output: `Would execute: cp ${args.join(' ')}`,
+                    output: `Would execute: ${shellCommand('cp', args)}`,
                     duration: Date.now() - startTime,
                     method: 'cp',
                     fallbackUsed: true
                 };
             }
 
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('cp', startTime);
+            }
+
             const result = await this.executeCp(args, options);
             
+            if (result.cancelled) {
+                return this.createCancelledResult('cp', startTime, result.output);
+            }
+            
             return {
                 success: result.exitCode === 0,
                 exitCode: result.exitCode,
@@ -92,7 +95,7 @@ export class CpProvider extends TransferProvider {
     }
 
     async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
-        return this.getDirectoryStats(source.path, options);
+        return this.getDirectoryStats(source.path, options, await FilterSet.fromOptions(options, source.path));
     }
 
     async validateTargets(source: TransferTarget, destination: TransferTarget): Promise<{ valid: boolean; errors: string[] }> {
@@ -147,64 +150,58 @@ export class CpProvider extends TransferProvider {
             args.push('-v'); // Verbose output
         }
         
-        // Update mode - only copy newer files
-        args.push('-u');
-        
-        // Force overwrite
-        args.push('-f');
+        // Existing destination files
+        switch (options.onConflict ?? 'overwrite') {
+            case 'skip':
+                args.push('-n'); // Never overwrite
+                break;
+            case 'newer':
+                args.push('-u', '-f'); // Only replace older files
+                break;
+            case 'rename':
+                args.push('--backup=numbered', '-f'); // Keep the old file as name.~N~
+                break;
+            default:
+                args.push('-f');
+        }
         
-        // Source and destination
-        args.push(`"${source.path}"`);
-        args.push(`"${destination.path}"`);
+        // Source and destination, never read as options
+        args.push('--', source.path, destination.path);
         
         return args;
     }
 
-    private async executeCp(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string }> {
-        return new Promise((resolve) => {
-            let output = '';
-            let error = '';
-            
-            const process = spawn('cp', args, {
-                shell: true,
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
-            
-            process.stdout?.on('data', (data: Buffer) => {
-                const chunk = data.toString();
-                output += chunk;
+    private async executeCp(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('cp', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            onStdout: (chunk) => {
+                if (!options.verbose) return;
                 
-                if (options.verbose) {
-                    // Emit progress for each file copied
-                    const lines = chunk.split('\n').filter(line => line.trim());
-                    for (const line of lines) {
-                        if (line.includes('->') || line.includes('/')) {
-                            this.emitProgress({
-                                bytesTransferred: 0,
-                                totalBytes: 0,
-                                filesTransferred: 0,
-                                totalFiles: 0,
-                                currentFile: line.trim(),
-                                transferRate: '',
-                                percentage: 0
-                            });
-                        }
+                // Emit progress for each file copied
+                const lines = chunk.split('\n').filter(line => line.trim());
+                for (const line of lines) {
+                    if (line.includes('->') || line.includes('/')) {
+                        this.emitProgress({
+                            bytesTransferred: 0,
+                            totalBytes: 0,
+                            filesTransferred: 0,
+                            totalFiles: 0,
+                            currentFile: line.trim(),
+                            transferRate: '',
+                            percentage: 0
+                        }, options);
                     }
                 }
-            });
-            
-            process.stderr?.on('data', (data: Buffer) => {
-                error += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                resolve({
-                    exitCode: code || 0,
-                    output,
-                    error
-                });
-            });
+            }
         });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('cp', result),
+            cancelled: result.cancelled
+        };
     }
 
     private async countTransferredFiles(path: string): Promise<number> {
@@ -240,11 +237,11 @@ export class CpProvider extends TransferProvider {
         return count;
     }
 
-    private getDirectoryStats(path: string, options: TransferOptions): { totalBytes: number; totalFiles: number } {
+    private getDirectoryStats(path: string, options: TransferOptions, filters: FilterSet): { totalBytes: number; totalFiles: number } {
         let totalBytes = 0;
         let totalFiles = 0;
         
-        const processPath = (currentPath: string) => {
+        const processPath = (currentPath: string, relativePath: string) => {
             try {
                 const stats = statSync(currentPath);
                 
@@ -255,15 +252,13 @@ export class CpProvider extends TransferProvider {
                     const entries = readdirSync(currentPath);
                     
                     for (const entry of entries) {
-                        // Apply exclude patterns
-                        if (options.exclude && options.exclude.some(pattern => {
-                            const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-                            return regex.test(entry);
-                        })) {
+                        const entryRelative = relativePath ? `${relativePath}/${entry}` : entry;
+                        const entryStats = lstatSync(join(currentPath, entry));
+                        if (!filters.isIncluded(entryRelative, entryStats.isDirectory(), entryStats)) {
                             continue;
                         }
                         
-                        processPath(join(currentPath, entry));
+                        processPath(join(currentPath, entry), entryRelative);
                     }
                 }
             } catch {
@@ -271,7 +266,7 @@ export class CpProvider extends TransferProvider {
             }
         };
         
-        processPath(path);
+        processPath(path, '');
         return { totalBytes, totalFiles };
     }
 }
@@ -292,26 +287,21 @@ export class TarProvider extends TransferProvider {
         supportsNetworkTransfer: false,
         supportsAuthentication: false,
         maxRetries: 0,
-        preferredFor: ['compressed-transfer', 'archive-creation', 'preserve-permissions', 'sparse-files']
+        preferredFor: ['compressed-transfer', 'archive-creation', 'preserve-permissions', 'sparse-files'],
+        strategyScores: { compress: 8 },
+        conflictModes: ['overwrite', 'skip', 'newer', 'rename']
     };
+    
+    private pendingArchives: Set<string> = new Set();
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('which tar', { timeout: 3000, stdio: 'ignore' });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('tar');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('tar --version', { encoding: 'utf8', timeout: 3000 });
-            const match = output.match(/tar \(GNU tar\) ([\d.]+)/);
-            return match ? match[1] : 'built-in';
-        } catch {
-            return 'built-in';
-        }
+        const result = await runCommand('tar', ['--version'], { timeout: 3000 });
+        const match = result.stdout.match(/tar \(GNU tar\) ([\d.]+)/);
+        return match ? match[1] : 'built-in';
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -336,9 +326,24 @@ export class TarProvider extends TransferProvider {
                 };
             }
 
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('tar', startTime);
+            }
+
             // Create archive
-            const createArgs = this.buildTarCreateArgs(source, archivePath, options);
+            this.pendingArchives.add(archivePath);
+            const filters = await FilterSet.fromOptions(options, source.path);
+            const listPath = filters.toTarArgs() ? undefined : await this.writeFileList(source, filters, `${archivePath}.files`);
+            const createArgs = this.buildTarCreateArgs(source, archivePath, options, filters, listPath);
             const createResult = await this.executeTar(createArgs, options);
+            if (listPath) {
+                rmSync(listPath, { force: true });
+            }
+            
+            if (createResult.cancelled) {
+                this.removeArchive(archivePath);
+                return this.createCancelledResult('tar', startTime, createResult.output);
+            }
             
             if (createResult.exitCode !== 0) {
                 return {
@@ -359,10 +364,10 @@ export class TarProvider extends TransferProvider {
                 const extractResult = await this.executeTar(extractArgs, options);
                 
                 // Clean up temporary archive
-                try {
-                    execSync(`rm "${archivePath}"`, { timeout: 5000, stdio: 'ignore' });
-                } catch {
-                    // Ignore cleanup errors
+                this.removeArchive(archivePath);
+                
+                if (extractResult.cancelled) {
+                    return this.createCancelledResult('tar', startTime, createResult.output + '\n' + extractResult.output);
                 }
                 
                 return {
@@ -376,7 +381,8 @@ export class TarProvider extends TransferProvider {
                     fallbackUsed: true
                 };
             } else {
-                // Just created archive
+                // Just created archive - it is the final output, not a temporary artifact
+                this.pendingArchives.delete(archivePath);
                 return {
                     success: true,
                     exitCode: 0,
@@ -401,7 +407,12 @@ export class TarProvider extends TransferProvider {
     }
 
     async cleanup(source: TransferTarget, destination: TransferTarget): Promise<void> {
-        // TAR doesn't need special cleanup
+        // Remove temporary archives left behind by failed or cancelled transfers
+        for (const archivePath of this.pendingArchives) {
+            if (archivePath.startsWith(destination.path)) {
+                this.removeArchive(archivePath);
+            }
+        }
     }
 
     async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
@@ -414,7 +425,36 @@ export class TarProvider extends TransferProvider {
         return cp.validateTargets(source, destination);
     }
 
-    private buildTarCreateArgs(source: TransferTarget, archivePath: string, options: TransferOptions): string[] {
+    private removeArchive(archivePath: string): void {
+        try {
+            rmSync(archivePath, { force: true });
+        } catch {
+            // Ignore cleanup errors
+        }
+        this.pendingArchives.delete(archivePath);
+    }
+
+    supportsFilters(filters: FilterSet, source: TransferTarget): boolean {
+        return true; // Rules tar can't express go through a pre-filtered --files-from list
+    }
+
+    /**
+     * NUL-separated list of what the filters let through, named the way the archive stores it
+     */
+    private async writeFileList(source: TransferTarget, filters: FilterSet, listPath: string): Promise<string> {
+        const name = source.path.split('/').pop() || '.';
+        const stats = lstatSync(source.path);
+        let list: string[];
+        if (!stats.isDirectory()) {
+            list = filters.isIncluded(name, false, stats) ? [name] : [];
+        } else {
+            list = [name, ...(await filters.listIncluded(source.path)).map(entry => `${name}/${entry.relativePath}`)];
+        }
+        writeFileSync(listPath, list.map(entry => `${entry}\0`).join(''));
+        return listPath;
+    }
+
+    private buildTarCreateArgs(source: TransferTarget, archivePath: string, options: TransferOptions, filters: FilterSet, listPath?: string): string[] {
         const args: string[] = [];
         
         // Create mode
@@ -424,8 +464,8 @@ export class TarProvider extends TransferProvider {
             args.push('-cf'); // Create, file
         }
         
-        // Archive path
-        args.push(archivePath);
+        // Archive path; a colon in it must not make tar look for a remote host
+        args.push(archivePath, '--force-local');
         
         // Preserve permissions and timestamps
         if (options.preservePerms !== false) {
@@ -442,16 +482,16 @@ export class TarProvider extends TransferProvider {
             args.push('--checkpoint-action=dot');
         }
         
-        // Exclude patterns
-        if (options.exclude && options.exclude.length > 0) {
-            options.exclude.forEach(pattern => {
-                args.push('--exclude', pattern);
-            });
-        }
-        
         // Source directory/file
         args.push('-C', dirname(source.path)); // Change to source directory
-        args.push(source.path.split('/').pop() || '.'); // Add relative path
+        
+        if (listPath) {
+            // Every entry is listed, so directories must not pull in their whole contents
+            args.push('--null', '--no-recursion', '-T', listPath);
+        } else {
+            args.push(...filters.toTarArgs()!); // Name excludes translate directly
+            args.push('--', source.path.split('/').pop() || '.'); // Add relative path
+        }
         
         return args;
     }
@@ -467,11 +507,24 @@ export class TarProvider extends TransferProvider {
         }
         
         // Archive path
-        args.push(archivePath);
+        args.push(archivePath, '--force-local');
         
         // Extract to destination
         args.push('-C', destination.path);
         
+        // Existing destination files (GNU tar)
+        switch (options.onConflict) {
+            case 'skip':
+                args.push('--skip-old-files');
+                break;
+            case 'newer':
+                args.push('--keep-newer-files');
+                break;
+            case 'rename':
+                args.push('--backup=numbered');
+                break;
+        }
+        
         if (options.verbose) {
             args.push('-v'); // Verbose
         }
@@ -479,50 +532,37 @@ export class TarProvider extends TransferProvider {
         return args;
     }
 
-    private async executeTar(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string }> {
-        return new Promise((resolve) => {
-            let output = '';
-            let error = '';
-            
-            const process = spawn('tar', args, {
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
-            
-            process.stdout?.on('data', (data: Buffer) => {
-                const chunk = data.toString();
-                output += chunk;
+    private async executeTar(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('tar', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            onStdout: (chunk) => {
+                if (!options.progress && !options.verbose) return;
                 
-                if (options.progress || options.verbose) {
-                    // Emit progress for each file
-                    const lines = chunk.split('\n').filter(line => line.trim());
-                    for (const line of lines) {
-                        if (line && !line.startsWith('.')) {
-                            this.emitProgress({
-                                bytesTransferred: 0,
-                                totalBytes: 0,
-                                filesTransferred: 0,
-                                totalFiles: 0,
-                                currentFile: line.trim(),
-                                transferRate: '',
-                                percentage: 0
-                            });
-                        }
+                // Emit progress for each file
+                const lines = chunk.split('\n').filter(line => line.trim());
+                for (const line of lines) {
+                    if (line && !line.startsWith('.')) {
+                        this.emitProgress({
+                            bytesTransferred: 0,
+                            totalBytes: 0,
+                            filesTransferred: 0,
+                            totalFiles: 0,
+                            currentFile: line.trim(),
+                            transferRate: '',
+                            percentage: 0
+                        }, options);
                     }
                 }
-            });
-            
-            process.stderr?.on('data', (data: Buffer) => {
-                error += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                resolve({
-                    exitCode: code || 0,
-                    output,
-                    error
-                });
-            });
+            }
         });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('tar', result),
+            cancelled: result.cancelled
+        };
     }
 
     private async countTransferredFiles(path: string): Promise<number> {
@@ -575,26 +615,19 @@ export class ScpProvider extends TransferProvider {
         supportsNetworkTransfer: true,
         supportsAuthentication: true,
         maxRetries: 3,
-        preferredFor: ['secure-network-transfer', 'ssh-based', 'remote-copy']
+        preferredFor: ['secure-network-transfer', 'ssh-based', 'remote-copy'],
+        strategyScores: { network: 8 }
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('which scp', { timeout: 3000, stdio: 'ignore' });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('scp');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('scp -V', { encoding: 'utf8', timeout: 3000 });
-            const match = output.match(/OpenSSH_([\d.]+)/);
-            return match ? match[1] : 'built-in';
-        } catch {
-            return 'built-in';
-        }
+        // scp has no version flag; it ships with ssh, which reports on stderr
+        const result = await runCommand('ssh', ['-V'], { timeout: 3000 });
+        const match = (result.stderr + result.stdout).match(/OpenSSH_([\d.]+)/);
+        return match ? match[1] : 'built-in';
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -603,23 +636,13 @@ export class ScpProvider extends TransferProvider {
         
         for (const target of remoteTargets) {
             if (target.host) {
-                try {
-                    let sshCmd = `ssh -o ConnectTimeout=10 -o BatchMode=yes`;
-                    
-                    if (options.keyFile) {
-                        sshCmd += ` -i "${options.keyFile}"`;
-                    }
-                    
-                    if (target.port) {
-                        sshCmd += ` -p ${target.port}`;
-                    }
-                    
-                    const userHost = target.user ? `${target.user}@${target.host}` : target.host;
-                    sshCmd += ` ${userHost} "echo 'connection test'"`;
-                    
-                    execSync(sshCmd, { timeout: 15000, stdio: 'ignore' });
-                } catch (err) {
-                    this.emitError(new Error(`Failed to connect to ${target.host}: ${err}`));
+                const result = await this.withPassword(target, options, (env) => runRemoteCommand(
+                    { host: target.host!, user: target.user, port: target.port, keyFile: options.keyFile, batchMode: !env },
+                    ['echo', 'connection test'],
+                    { env, timeout: 15000 }
+                ));
+                if (result.exitCode !== 0) {
+                    this.emitError(new Error(`Failed to connect to ${target.host}: ${redactSecrets(commandFailure('ssh', result), collectSecrets(options))}`));
                     return false;
                 }
             }
@@ -632,20 +655,28 @@ export class ScpProvider extends TransferProvider {
         const startTime = Date.now();
         
         try {
-            const args = this.buildScpArgs(source, destination, options);
+            const args = this.buildScpArgs(source, destination, options, await this.needsLegacyFlag());
             
             if (options.dryRun) {
                 return {
                     success: true,
                     exitCode: 0,
-                    output: `Would execute: scp ${args.join(' ')}`,
+                    output: `Would execute: ${shellCommand('scp', args)}`,
                     duration: Date.now() - startTime,
                     method: 'scp',
                     fallbackUsed: true
                 };
             }
 
-            const result = await this.executeScp(args, options);
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('scp', startTime);
+            }
+
+            const result = await this.executeScp(args, source.isRemote ? source : destination, options);
+            
+            if (result.cancelled) {
+                return this.createCancelledResult('scp', startTime, result.output);
+            }
             
             return {
                 success: result.exitCode === 0,
@@ -705,9 +736,23 @@ export class ScpProvider extends TransferProvider {
         };
     }
 
-    private buildScpArgs(source: TransferTarget, destination: TransferTarget, options: TransferOptions): string[] {
+    /**
+     * Since OpenSSH 9.0 scp talks SFTP, which takes remote paths literally, while the old
+     * protocol hands them to the remote shell. From 8.7 on, -O picks the old protocol so the
+     * quoted paths below mean the same on every version.
+     */
+    private async needsLegacyFlag(): Promise<boolean> {
+        const [major, minor] = ((await this.getVersion()) || '').split('.').map(Number);
+        return major > 8 || (major === 8 && minor >= 7);
+    }
+
+    private buildScpArgs(source: TransferTarget, destination: TransferTarget, options: TransferOptions, forceLegacy: boolean = false): string[] {
         const args: string[] = [];
         
+        if (forceLegacy) {
+            args.push('-O');
+        }
+        
         // SCP options
         if (options.recursive !== false) {
             args.push('-r'); // Recursive
@@ -742,60 +787,60 @@ export class ScpProvider extends TransferProvider {
             args.push('-o', `ConnectTimeout=${options.timeout}`);
         }
         
-        // Build source path
-        const sourcePath = source.isRemote 
-            ? `${source.user ? `${source.user}@` : ''}${source.host}:${source.path}`
-            : source.path;
-        
-        // Build destination path
-        const destPath = destination.isRemote
-            ? `${destination.user ? `${destination.user}@` : ''}${destination.host}:${destination.path}`
-            : destination.path;
-        
-        args.push(sourcePath);
-        args.push(destPath);
+        args.push('--', this.buildScpPath(source), this.buildScpPath(destination));
         
         return args;
     }
 
-    private async executeScp(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string }> {
-        return new Promise((resolve) => {
-            let output = '';
-            let error = '';
-            
-            const process = spawn('scp', args, {
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
-            
-            process.stdout?.on('data', (data: Buffer) => {
-                const chunk = data.toString();
-                output += chunk;
+    private async executeScp(args: string[], remote: TransferTarget, options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await this.withPassword(remote, options, (env) => runCommand('scp', args, {
+            env,
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            onStdout: (chunk) => {
+                if (!options.verbose) return;
                 
-                if (options.verbose) {
-                    this.emitProgress({
-                        bytesTransferred: 0,
-                        totalBytes: 0,
-                        filesTransferred: 0,
-                        totalFiles: 0,
-                        currentFile: chunk.trim(),
-                        transferRate: '',
-                        percentage: 0
-                    });
-                }
-            });
-            
-            process.stderr?.on('data', (data: Buffer) => {
-                error += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                resolve({
-                    exitCode: code || 0,
-                    output,
-                    error
-                });
-            });
-        });
+                this.emitProgress({
+                    bytesTransferred: 0,
+                    totalBytes: 0,
+                    filesTransferred: 0,
+                    totalFiles: 0,
+                    currentFile: chunk.trim(),
+                    transferRate: '',
+                    percentage: 0
+                }, options);
+            }
+        }));
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('scp', result),
+            cancelled: result.cancelled
+        };
+    }
+
+    /**
+     * Run an ssh-based command with an askpass helper when there's a password for the
+     * target, so password logins work without the password on the command line
+     */
+    private async withPassword<T>(target: TransferTarget, options: TransferOptions, run: (env?: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+        const credentials = await resolveCredentials(options, { purpose: 'ssh', host: target.host, username: target.user });
+        if (!credentials?.password) {
+            return run();
+        }
+        return withAskpass(credentials.password, run);
+    }
+
+    /**
+     * Remote paths are expanded by the remote shell, so they are quoted for it; local paths
+     * are made absolute so a colon in them isn't taken for a host separator
+     */
+    private buildScpPath(target: TransferTarget): string {
+        if (!target.isRemote) {
+            return resolve(target.path);
+        }
+        return `${target.user ? `${target.user}@` : ''}${target.host}:${quoteShellArg(target.path)}`;
     }
 
     private parseScpOutput(output: string): number {
@@ -1,7 +1,9 @@
-import { execSync, spawn } from 'child_process';
-import { existsSync, statSync, readdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { existsSync, statSync, readdirSync, lstatSync, mkdirSync, rmdirSync } from 'fs';
+import { join, dirname, resolve } from 'path';
 import { TransferProvider, TransferOptions, TransferResult, TransferTarget, FallbackCapabilities, TransferProgress } from '../interfaces.js';
+import { runCommand, commandExists, shellCommand, commandFailure } from '../../utils/command-runner.js';
+import { resolveCredentials, redactSecrets } from '../credentials.js';
+import { FilterSet } from '../filters.js';
 
 /**
  * macOS Ditto transfer provider (preferred for macOS)
@@ -19,26 +21,18 @@ export class DittoProvider extends TransferProvider {
         supportsNetworkTransfer: false,
         supportsAuthentication: false,
         maxRetries: 0,
-        preferredFor: ['macos-archive', 'preserve-metadata', 'app-bundles', 'resource-forks']
+        preferredFor: ['macos-archive', 'preserve-metadata', 'app-bundles', 'resource-forks'],
+        strategyScores: { 'preserve-metadata': 8, compress: 6 } // Excellent for macOS metadata
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('which ditto', { timeout: 3000, stdio: 'ignore' });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('ditto');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('ditto --help', { encoding: 'utf8', timeout: 3000 });
-            // Ditto doesn't provide version info in help, but we can check if it exists
-            return output.includes('ditto') ? 'built-in' : null;
-        } catch {
-            return null;
-        }
+        const result = await runCommand('ditto', ['--help'], { timeout: 3000 });
+        // Ditto doesn't provide version info in help, but we can check if it exists
+        return (result.stdout + result.stderr).includes('ditto') ? 'built-in' : null;
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -59,15 +53,23 @@ export class DittoProvider extends TransferProvider {
                 return {
                     success: true,
                     exitCode: 0,
-                    output: `Would execute: ditto ${args.join(' ')}`,
+                    output: `Would execute: ${shellCommand('ditto', args)}`,
                     duration: Date.now() - startTime,
                     method: 'ditto',
                     fallbackUsed: true
                 };
             }
 
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('ditto', startTime);
+            }
+
             const result = await this.executeDitto(args, options);
             
+            if (result.cancelled) {
+                return this.createCancelledResult('ditto', startTime, result.output);
+            }
+            
             return {
                 success: result.exitCode === 0,
                 exitCode: result.exitCode,
@@ -97,7 +99,7 @@ export class DittoProvider extends TransferProvider {
     }
 
     async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
-        return this.getDirectoryStats(source.path, options);
+        return this.getDirectoryStats(source.path, options, await FilterSet.fromOptions(options, source.path));
     }
 
     async validateTargets(source: TransferTarget, destination: TransferTarget): Promise<{ valid: boolean; errors: string[] }> {
@@ -143,65 +145,46 @@ export class DittoProvider extends TransferProvider {
             args.push('--compressionlevel', '6'); // Medium compression
         }
         
-        // Exclude patterns using rsrc (resource fork) exclusion
-        if (options.exclude && options.exclude.length > 0) {
-            // Ditto has limited exclude support, mainly for resource forks
-            if (options.exclude.includes('.DS_Store')) {
-                args.push('--noextattr'); // Skip extended attributes
-            }
-        }
+        // Ditto can't filter; the manager hands filtered transfers to the Node.js copier
         
-        // Source and destination
-        args.push(source.path);
-        args.push(destination.path);
+        // Source and destination; ditto has no `--`, so absolute paths keep a leading dash from reading as an option
+        args.push(resolve(source.path));
+        args.push(resolve(destination.path));
         
         return args;
     }
 
-    private async executeDitto(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string }> {
-        return new Promise((resolve) => {
-            let output = '';
-            let error = '';
-            
-            const process = spawn('ditto', args, {
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
-            
-            process.stdout?.on('data', (data: Buffer) => {
-                const chunk = data.toString();
-                output += chunk;
+    private async executeDitto(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('ditto', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            onStdout: (chunk) => {
+                if (!options.verbose) return;
                 
-                if (options.verbose) {
-                    // Ditto doesn't provide progress, but we can emit file names
-                    const lines = chunk.split('\n').filter(line => line.trim());
-                    for (const line of lines) {
-                        if (line.includes('/')) {
-                            this.emitProgress({
-                                bytesTransferred: 0,
-                                totalBytes: 0,
-                                filesTransferred: 0,
-                                totalFiles: 0,
-                                currentFile: line.trim(),
-                                transferRate: '',
-                                percentage: 0
-                            });
-                        }
+                // Ditto doesn't provide progress, but we can emit file names
+                const lines = chunk.split('\n').filter(line => line.trim());
+                for (const line of lines) {
+                    if (line.includes('/')) {
+                        this.emitProgress({
+                            bytesTransferred: 0,
+                            totalBytes: 0,
+                            filesTransferred: 0,
+                            totalFiles: 0,
+                            currentFile: line.trim(),
+                            transferRate: '',
+                            percentage: 0
+                        }, options);
                     }
                 }
-            });
-            
-            process.stderr?.on('data', (data: Buffer) => {
-                error += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                resolve({
-                    exitCode: code || 0,
-                    output,
-                    error
-                });
-            });
+            }
         });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('ditto', result),
+            cancelled: result.cancelled
+        };
     }
 
     private async prepareMountPoints(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -210,27 +193,33 @@ export class DittoProvider extends TransferProvider {
         
         for (const target of targets) {
             if (target.protocol === 'smb' && target.host) {
+                const mountPoint = `/Volumes/${target.host.replace(/[^a-zA-Z0-9.-]/g, '_')}_${target.path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+                target.mountPoint = mountPoint;
+                
+                // Mount SMB share; the URL is percent-encoded, so the user name can't break out of it
+                const share = target.path.split('/').map(encodeURIComponent).join('/');
+                const credentials = await resolveCredentials(options, { purpose: 'smb', host: target.host, share: target.path, username: target.user });
+                const user = credentials?.username ? `${encodeURIComponent(credentials.username)}@` : '';
                 try {
-                    const mountPoint = `/Volumes/${target.host}_${target.path.replace(/[^a-zA-Z0-9]/g, '_')}`;
-                    target.mountPoint = mountPoint;
-                    
-                    // Mount SMB share
-                    const smbUrl = `smb://${target.host}${target.path}`;
-                    execSync(`mkdir -p "${mountPoint}"`, { timeout: 5000 });
-                    
-                    let mountCmd = `mount -t smbfs "${smbUrl}" "${mountPoint}"`;
-                    if (options.username && options.password) {
-                        mountCmd = `mount -t smbfs "smb://${options.username}:${options.password}@${target.host}${target.path}" "${mountPoint}"`;
-                    }
-                    
-                    execSync(mountCmd, { timeout: 15000 });
-                    
-                    // Update target path to use mount point
-                    target.path = mountPoint;
+                    mkdirSync(mountPoint, { recursive: true });
                 } catch (err) {
                     this.emitError(new Error(`Failed to mount ${target.host}: ${err}`));
                     return false;
                 }
+                
+                // The password goes to mount_smbfs's prompt, which reads stdin when there is no terminal
+                const result = await runCommand('mount', ['-t', 'smbfs', `//${user}${target.host}${share}`, mountPoint], {
+                    input: credentials?.password !== undefined ? `${credentials.password}\n` : undefined,
+                    timeout: 15000
+                });
+                if (result.exitCode !== 0) {
+                    const reason = redactSecrets(commandFailure('mount', result), credentials?.password ? [credentials.password] : []);
+                    this.emitError(new Error(`Failed to mount ${target.host}: ${reason}`));
+                    return false;
+                }
+                
+                // Update target path to use mount point
+                target.path = mountPoint;
             }
         }
         
@@ -241,9 +230,9 @@ export class DittoProvider extends TransferProvider {
         const targets = [source, destination].filter(t => t.mountPoint);
         
         for (const target of targets) {
+            await runCommand('umount', [target.mountPoint!], { timeout: 10000 });
             try {
-                execSync(`umount "${target.mountPoint}"`, { timeout: 10000, stdio: 'ignore' });
-                execSync(`rmdir "${target.mountPoint}"`, { timeout: 5000, stdio: 'ignore' });
+                rmdirSync(target.mountPoint!);
             } catch {
                 // Ignore cleanup errors
             }
@@ -283,11 +272,11 @@ export class DittoProvider extends TransferProvider {
         return count;
     }
 
-    private getDirectoryStats(path: string, options: TransferOptions): { totalBytes: number; totalFiles: number } {
+    private getDirectoryStats(path: string, options: TransferOptions, filters: FilterSet): { totalBytes: number; totalFiles: number } {
         let totalBytes = 0;
         let totalFiles = 0;
         
-        const processPath = (currentPath: string) => {
+        const processPath = (currentPath: string, relativePath: string) => {
             try {
                 const stats = statSync(currentPath);
                 
@@ -298,15 +287,13 @@ export class DittoProvider extends TransferProvider {
                     const entries = readdirSync(currentPath);
                     
                     for (const entry of entries) {
-                        // Apply exclude patterns
-                        if (options.exclude && options.exclude.some(pattern => {
-                            const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-                            return regex.test(entry);
-                        })) {
+                        const entryRelative = relativePath ? `${relativePath}/${entry}` : entry;
+                        const entryStats = lstatSync(join(currentPath, entry));
+                        if (!filters.isIncluded(entryRelative, entryStats.isDirectory(), entryStats)) {
                             continue;
                         }
                         
-                        processPath(join(currentPath, entry));
+                        processPath(join(currentPath, entry), entryRelative);
                     }
                 }
             } catch {
@@ -314,7 +301,7 @@ export class DittoProvider extends TransferProvider {
             }
         };
         
-        processPath(path);
+        processPath(path, '');
         return { totalBytes, totalFiles };
     }
 }
@@ -335,26 +322,19 @@ export class CpProvider extends TransferProvider {
         supportsNetworkTransfer: false,
         supportsAuthentication: false,
         maxRetries: 0,
-        preferredFor: ['simple-copy', 'basic-backup', 'unix-systems']
+        preferredFor: ['simple-copy', 'basic-backup', 'unix-systems'],
+        strategyScores: { 'most-compatible': 10 },
+        conflictModes: ['overwrite', 'skip']
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('which cp', { timeout: 3000, stdio: 'ignore' });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('cp');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('cp --version', { encoding: 'utf8', timeout: 3000 });
-            const match = output.match(/cp \(GNU coreutils\) ([\d.]+)/);
-            return match ? match[1] : 'built-in';
-        } catch {
-            return 'built-in';
-        }
+        const result = await runCommand('cp', ['--version'], { timeout: 3000 });
+        const match = result.stdout.match(/cp \(GNU coreutils\) ([\d.]+)/);
+        return match ? match[1] : 'built-in';
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
@@ -371,22 +351,28 @@ export class CpProvider extends TransferProvider {
                 return {
                     success: true,
                     exitCode: 0,
-                    output: `Would execute: cp ${args.join(' ')}`,
+                    output: `Would execute: ${shellCommand('cp', args)}`,
                     duration: Date.now() - startTime,
                     method: 'cp',
                     fallbackUsed: true
                 };
             }
 
-            const output = execSync(`cp ${args.join(' ')}`, { 
-                encoding: 'utf8',
-                timeout: options.timeout ? options.timeout * 1000 : 300000 // 5 minute default
-            });
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('cp', startTime);
+            }
+
+            const result = await this.executeCp(args, options);
+            
+            if (result.cancelled) {
+                return this.createCancelledResult('cp', startTime, result.output);
+            }
             
             return {
-                success: true,
-                exitCode: 0,
-                output,
+                success: result.exitCode === 0,
+                exitCode: result.exitCode,
+                output: result.output,
+                error: result.exitCode === 0 ? undefined : result.error,
                 filesTransferred: await this.countTransferredFiles(destination.path),
                 duration: Date.now() - startTime,
                 method: 'cp',
@@ -395,7 +381,7 @@ export class CpProvider extends TransferProvider {
         } catch (err: any) {
             return {
                 success: false,
-                exitCode: err.status || -1,
+                exitCode: err.code || -1,
                 output: '',
                 error: err.message,
                 duration: Date.now() - startTime,
@@ -439,16 +425,30 @@ export class CpProvider extends TransferProvider {
             args.push('-v'); // Verbose output
         }
         
-        // Force overwrite
-        args.push('-f');
+        // BSD cp has no update or backup mode, so only overwrite and skip are native
+        args.push(options.onConflict === 'skip' ? '-n' : '-f');
         
-        // Source and destination
-        args.push(`"${source.path}"`);
-        args.push(`"${destination.path}"`);
+        // Source and destination, never read as options
+        args.push('--', source.path, destination.path);
         
         return args;
     }
 
+    private async executeCp(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('cp', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            timeout: options.timeout ? options.timeout * 1000 : 300000 // 5 minute default
+        });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('cp', result),
+            cancelled: result.cancelled
+        };
+    }
+
     private async countTransferredFiles(path: string): Promise<number> {
         try {
             const stats = statSync(path);
@@ -0,0 +1,636 @@
+import { createReadStream, createWriteStream, Stats } from 'fs';
+import * as fs from 'fs/promises';
+import { Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createHash } from 'crypto';
+import { join, dirname, basename, extname, sep, relative } from 'path';
+import { TransferProvider, TransferOptions, TransferResult, TransferTarget, TransferProgress, TransferredFile, FallbackCapabilities, ConflictDecision } from '../interfaces.js';
+import type { FileMetadata } from '../advanced-utils.js';
+import { FilterSet } from '../filters.js';
+import { VerificationResult, compareFile, createFileHasher, isHashMode, unresolvedMismatches, verificationError } from '../verification.js';
+import { classifyNodeError } from '../errors.js';
+
+interface CopyPlanEntry {
+    sourcePath: string;
+    destPath: string;
+    relativePath: string;
+    type: 'file' | 'directory' | 'symlink';
+    size: number;
+    stats: Stats;
+}
+
+interface CopyState {
+    totalBytes: number;
+    totalFiles: number;
+    bytesTransferred: number;
+    filesTransferred: number;
+    currentFile: string;
+    startTime: number;
+    lastEmit: number;
+    onProgress?: (progress: TransferProgress) => void;
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Pure Node.js copy provider - walks the tree with fs streams, needs no external tools
+ */
+export class NodeFsProvider extends TransferProvider {
+    name = 'node-fs';
+    capabilities: FallbackCapabilities = {
+        supportsCompression: false,
+        supportsProgress: true,
+        supportsResume: false,
+        supportsDelete: true,
+        supportsSymlinks: true,
+        supportsPermissions: true,
+        supportsTimestamps: true,
+        supportsNetworkTransfer: false,
+        supportsAuthentication: false,
+        maxRetries: 0,
+        preferredFor: ['last-resort', 'local-transfer', 'no-external-tools'],
+        conflictModes: ['overwrite', 'skip', 'newer', 'rename', 'ask']
+    };
+
+    async isAvailable(): Promise<boolean> {
+        return true; // Only needs the Node.js runtime
+    }
+
+    async getVersion(): Promise<string | null> {
+        return process.versions.node;
+    }
+
+    async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
+        return true;
+    }
+
+    async transfer(source: TransferTarget, destination: TransferTarget, options: TransferOptions = {}): Promise<TransferResult> {
+        const startTime = Date.now();
+        const output: string[] = [];
+
+        try {
+            const sourceStats = await fs.lstat(source.path);
+            const destRoot = await this.resolveDestinationRoot(source.path, sourceStats, destination.path);
+            const filters = await FilterSet.fromOptions(options, source.path);
+            const sizeOrAgeSkipped = new Set<string>();
+            const plan = await this.buildPlan(source.path, destRoot, sourceStats, options, filters, sizeOrAgeSkipped);
+            const state: CopyState = {
+                totalBytes: plan.filter(e => e.type === 'file').reduce((sum, e) => sum + e.size, 0),
+                totalFiles: plan.filter(e => e.type !== 'directory').length,
+                bytesTransferred: 0,
+                filesTransferred: 0,
+                currentFile: '',
+                startTime,
+                lastEmit: 0,
+                onProgress: options.onProgress
+            };
+
+            const deletions = options.delete && sourceStats.isDirectory()
+                ? await this.findExtraneous(plan, destRoot, filters, sizeOrAgeSkipped)
+                : [];
+
+            if (options.dryRun) {
+                for (const entry of plan) {
+                    if (entry.type !== 'directory' && await this.needsCopy(entry, options)) {
+                        const name = entry.relativePath || basename(entry.sourcePath);
+                        const decision = await this.resolveConflict(entry, options, true);
+                        if (decision === 'skip') {
+                            output.push(`Would skip existing: ${name}`);
+                            continue;
+                        }
+                        output.push(decision === 'rename' ? `Would copy (keeping the existing file): ${name}` : `Would copy: ${name}`);
+                        state.filesTransferred++;
+                        state.bytesTransferred += entry.size;
+                    }
+                }
+                deletions.forEach(p => output.push(`Would delete: ${relative(destRoot, p)}`));
+
+                return {
+                    success: true,
+                    exitCode: 0,
+                    output: output.join('\n'),
+                    bytesTransferred: state.bytesTransferred,
+                    filesTransferred: state.filesTransferred,
+                    duration: Date.now() - startTime,
+                    sourceSize: state.totalBytes,
+                    method: 'node-fs',
+                    fallbackUsed: true
+                };
+            }
+
+            const verification: VerificationResult | undefined = options.verify
+                ? { mode: options.verify, filesChecked: 0, mismatches: [], repaired: [] }
+                : undefined;
+
+            // Directories first so files always have a parent; their times are applied last
+            for (const entry of plan.filter(e => e.type === 'directory')) {
+                await fs.mkdir(entry.destPath, { recursive: true });
+            }
+
+            for (const entry of plan) {
+                if (entry.type === 'directory') continue;
+                await options.pauseSignal?.waitUntilResumed(options.signal);
+                if (options.signal?.aborted) {
+                    return this.createCancelledResult('node-fs', startTime, output.join('\n'));
+                }
+
+                state.currentFile = entry.relativePath || basename(entry.sourcePath);
+
+                if (!await this.needsCopy(entry, options)) {
+                    state.bytesTransferred += entry.size;
+                    this.reportProgress(state, false);
+                    if (verification) {
+                        await this.verifyEntry(entry, state, options, verification);
+                    }
+                    continue;
+                }
+
+                const decision = await this.resolveConflict(entry, options, false);
+                if (decision === 'skip') {
+                    state.bytesTransferred += entry.size;
+                    this.reportProgress(state, false);
+                    output.push(`skipping existing ${state.currentFile}`);
+                    if (verification) {
+                        verification.kept = [...(verification.kept ?? []), state.currentFile];
+                    }
+                    continue;
+                }
+                if (decision === 'rename') {
+                    await fs.rename(entry.destPath, await this.numberedBackupPath(entry.destPath));
+                }
+
+                let sourceHash: string | undefined;
+                if (entry.type === 'symlink') {
+                    await this.copySymlink(entry);
+                } else {
+                    sourceHash = await this.copyFile(entry, state, options);
+                }
+
+                await this.applyMetadata(entry, options);
+                if (verification) {
+                    await this.verifyEntry(entry, state, options, verification, sourceHash);
+                }
+                state.filesTransferred++;
+                output.push(state.currentFile);
+                const transferred: TransferredFile = {
+                    relativePath: entry.relativePath,
+                    size: entry.size,
+                    mtime: entry.stats.mtimeMs,
+                    destPath: entry.destPath
+                };
+                this.emit('fileTransferred', transferred);
+                options.onFileTransferred?.(transferred);
+                this.reportProgress(state, true);
+            }
+
+            for (const extraneous of deletions) {
+                await fs.rm(extraneous, { recursive: true, force: true });
+                output.push(`deleting ${relative(destRoot, extraneous)}`);
+            }
+
+            // Deepest directories first so child writes don't bump parent mtimes afterwards
+            const directories = plan.filter(e => e.type === 'directory').reverse();
+            for (const entry of directories) {
+                await this.applyMetadata(entry, options);
+            }
+
+            const duration = Date.now() - startTime;
+            const unresolved = verification ? unresolvedMismatches(verification) : [];
+            return {
+                success: unresolved.length === 0,
+                exitCode: 0,
+                output: output.join('\n'),
+                error: unresolved.length > 0 ? verificationError(unresolved) : undefined,
+                errorCode: unresolved.length > 0 ? 'VERIFICATION_FAILED' : undefined,
+                bytesTransferred: state.bytesTransferred,
+                filesTransferred: state.filesTransferred,
+                duration,
+                sourceSize: state.totalBytes,
+                transferRate: this.formatRate(state.bytesTransferred, duration),
+                method: 'node-fs',
+                fallbackUsed: true,
+                verification
+            };
+        } catch (err: any) {
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('node-fs', startTime, output.join('\n'));
+            }
+
+            const errorCode = classifyNodeError(err);
+            return {
+                success: false,
+                exitCode: -1,
+                output: output.join('\n'),
+                error: err.message,
+                errorCode,
+                fileErrors: err.path && errorCode ? [{ path: err.path, code: errorCode, message: err.message }] : undefined,
+                duration: Date.now() - startTime,
+                method: 'node-fs',
+                fallbackUsed: true
+            };
+        }
+    }
+
+    async cleanup(source: TransferTarget, destination: TransferTarget): Promise<void> {
+        // Temporary files are removed as each copy finishes, fails or is cancelled
+    }
+
+    async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
+        try {
+            const sourceStats = await fs.lstat(source.path);
+            const plan = await this.buildPlan(source.path, source.path, sourceStats, options, await FilterSet.fromOptions(options, source.path));
+            const files = plan.filter(e => e.type !== 'directory');
+            return {
+                totalBytes: files.reduce((sum, e) => sum + e.size, 0),
+                totalFiles: files.length
+            };
+        } catch {
+            return { totalBytes: 0, totalFiles: 0 };
+        }
+    }
+
+    async validateTargets(source: TransferTarget, destination: TransferTarget): Promise<{ valid: boolean; errors: string[] }> {
+        const errors: string[] = [];
+
+        if (source.isRemote || destination.isRemote) {
+            errors.push('node-fs only supports local transfers');
+        }
+
+        if (!source.isRemote) {
+            try {
+                await fs.lstat(source.path);
+            } catch {
+                errors.push(`Source path does not exist: ${source.path}`);
+            }
+        }
+
+        if (!destination.isRemote) {
+            const destDir = dirname(destination.path);
+            try {
+                const stats = await fs.stat(destDir);
+                if (!stats.isDirectory()) {
+                    errors.push(`Destination parent is not a directory: ${destDir}`);
+                }
+            } catch {
+                errors.push(`Destination directory does not exist: ${destDir}`);
+            }
+        }
+
+        return {
+            valid: errors.length === 0,
+            errors
+        };
+    }
+
+    supportsFilters(filters: FilterSet, source: TransferTarget): boolean {
+        return true; // The tree walk applies every rule and predicate
+    }
+
+    /**
+     * Mirror cp/rsync semantics: a directory copied onto an existing directory lands inside it,
+     * unless the source path ends with a separator ("copy the contents")
+     */
+    private async resolveDestinationRoot(sourcePath: string, sourceStats: Stats, destPath: string): Promise<string> {
+        const copyContents = sourcePath.endsWith('/') || sourcePath.endsWith(sep);
+
+        try {
+            const destStats = await fs.stat(destPath);
+            if (destStats.isDirectory() && !(sourceStats.isDirectory() && copyContents)) {
+                return join(destPath, basename(sourcePath));
+            }
+        } catch {
+            // Destination doesn't exist yet - it becomes the copy itself
+        }
+
+        return destPath;
+    }
+
+    /**
+     * Walk the source in copy order. Files that only fail the size or age predicates are
+     * collected in `sizeOrAgeSkipped` so --delete leaves their destination copies alone.
+     */
+    private async buildPlan(
+        sourceRoot: string,
+        destRoot: string,
+        rootStats: Stats,
+        options: TransferOptions,
+        filters: FilterSet,
+        sizeOrAgeSkipped?: Set<string>
+    ): Promise<CopyPlanEntry[]> {
+        const plan: CopyPlanEntry[] = [];
+        const followLinks = options.preserveLinks === false;
+        const visited = new Set<string>();
+
+        const walk = async (sourcePath: string, destPath: string, relativePath: string, stats: Stats) => {
+            if (stats.isSymbolicLink() && followLinks) {
+                try {
+                    stats = await fs.stat(sourcePath);
+                } catch {
+                    return; // Dangling link
+                }
+            }
+
+            if (stats.isSymbolicLink()) {
+                plan.push({ sourcePath, destPath, relativePath, type: 'symlink', size: stats.size, stats });
+            } else if (stats.isDirectory()) {
+                // Guard against symlink cycles when following links
+                const key = `${stats.dev}:${stats.ino}`;
+                if (visited.has(key)) return;
+                visited.add(key);
+
+                plan.push({ sourcePath, destPath, relativePath, type: 'directory', size: 0, stats });
+                if (options.recursive === false && relativePath !== '') return;
+
+                const entries = await fs.readdir(sourcePath);
+                for (const entry of entries.sort()) {
+                    const childRelative = relativePath ? `${relativePath}/${entry}` : entry;
+                    const childSource = join(sourcePath, entry);
+                    const childStats = await fs.lstat(childSource);
+
+                    const childDest = join(destPath, entry);
+                    if (!filters.isIncluded(childRelative, childStats.isDirectory())) continue;
+                    if (!filters.isIncluded(childRelative, childStats.isDirectory(), childStats)) {
+                        sizeOrAgeSkipped?.add(childDest);
+                        continue;
+                    }
+
+                    await walk(childSource, childDest, childRelative, childStats);
+                }
+            } else if (stats.isFile()) {
+                plan.push({ sourcePath, destPath, relativePath, type: 'file', size: stats.size, stats });
+            }
+            // Sockets, FIFOs and devices are skipped like cp without -a would
+        };
+
+        await walk(sourceRoot, destRoot, '', rootStats);
+        return plan;
+    }
+
+    private async needsCopy(entry: CopyPlanEntry, options: TransferOptions): Promise<boolean> {
+        let destStats: Stats;
+        try {
+            destStats = await fs.lstat(entry.destPath);
+        } catch {
+            return true;
+        }
+
+        if (entry.type === 'symlink') {
+            if (!destStats.isSymbolicLink()) return true;
+            return (await fs.readlink(entry.sourcePath)) !== (await fs.readlink(entry.destPath));
+        }
+
+        if (!destStats.isFile() || destStats.size !== entry.size) {
+            return true;
+        }
+
+        if (options.checksum) {
+            const [sourceHash, destHash] = await Promise.all([
+                this.hashFile(entry.sourcePath),
+                this.hashFile(entry.destPath)
+            ]);
+            return sourceHash !== destHash;
+        }
+
+        // Quick check: same size and modification time means unchanged
+        return Math.floor(destStats.mtimeMs / 1000) !== Math.floor(entry.stats.mtimeMs / 1000);
+    }
+
+    /**
+     * Apply onConflict to an entry that needsCopy said differs. Entries with nothing at the
+     * destination are always copied. In a dry run 'ask' isn't put to the caller.
+     */
+    private async resolveConflict(entry: CopyPlanEntry, options: TransferOptions, dryRun: boolean): Promise<ConflictDecision> {
+        const mode = options.onConflict ?? 'overwrite';
+        if (mode === 'overwrite') {
+            return 'overwrite';
+        }
+
+        let destStats: Stats;
+        try {
+            destStats = await fs.lstat(entry.destPath);
+        } catch {
+            return 'overwrite';
+        }
+
+        switch (mode) {
+            case 'skip':
+                return 'skip';
+            case 'newer':
+                return Math.floor(entry.stats.mtimeMs / 1000) > Math.floor(destStats.mtimeMs / 1000) ? 'overwrite' : 'skip';
+            case 'rename':
+                return destStats.isDirectory() ? 'overwrite' : 'rename';
+            case 'ask':
+                if (dryRun) {
+                    return 'overwrite';
+                }
+                if (!options.resolveConflict) {
+                    throw new Error("onConflict: 'ask' needs a resolveConflict callback");
+                }
+                return options.resolveConflict({
+                    relativePath: entry.relativePath || basename(entry.sourcePath),
+                    source: this.toMetadata(entry.sourcePath, entry.relativePath, entry.stats),
+                    destination: this.toMetadata(entry.destPath, entry.relativePath, destStats)
+                });
+        }
+    }
+
+    /**
+     * First free `name.~N~`, the same numbering cp --backup=numbered uses
+     */
+    private async numberedBackupPath(filePath: string): Promise<string> {
+        for (let n = 1; ; n++) {
+            const candidate = `${filePath}.~${n}~`;
+            try {
+                await fs.lstat(candidate);
+            } catch {
+                return candidate;
+            }
+        }
+    }
+
+    private toMetadata(filePath: string, relativePath: string, stats: Stats): FileMetadata {
+        const name = basename(filePath);
+        return {
+            path: filePath,
+            name,
+            size: stats.size,
+            type: stats.isDirectory() ? 'directory' : (stats.isSymbolicLink() ? 'symlink' : 'file'),
+            extension: extname(name),
+            created: stats.birthtime,
+            modified: stats.mtime,
+            accessed: stats.atime,
+            permissions: stats.mode.toString(8),
+            isHidden: name.startsWith('.'),
+            relativePath: relativePath || name
+        };
+    }
+
+    /**
+     * Stream a file into place. With a hash-based verify mode the source is hashed on the way
+     * through and its digest returned, so verification only has to read the copy back.
+     */
+    private async copyFile(entry: CopyPlanEntry, state: CopyState, options: TransferOptions): Promise<string | undefined> {
+        const { signal, pauseSignal } = options;
+        const tempPath = join(dirname(entry.destPath), `.${basename(entry.destPath)}.${process.pid}.partial`);
+        const hasher = options.verify && isHashMode(options.verify) ? createFileHasher(options.verify) : undefined;
+        const meter = new Transform({
+            transform: (chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) => {
+                state.bytesTransferred += chunk.length;
+                hasher?.update(chunk);
+                this.reportProgress(state, false);
+                // Holding the callback applies backpressure, which pauses the read stream
+                if (pauseSignal?.paused) {
+                    pauseSignal.waitUntilResumed(signal).then(() => callback(null, chunk));
+                } else {
+                    callback(null, chunk);
+                }
+            }
+        });
+
+        try {
+            await pipeline(createReadStream(entry.sourcePath), meter, createWriteStream(tempPath), { signal });
+            await fs.rename(tempPath, entry.destPath);
+            return hasher?.digest();
+        } catch (err) {
+            await fs.rm(tempPath, { force: true });
+            throw err;
+        }
+    }
+
+    /**
+     * Check one copied or unchanged entry, re-copying it once on mismatch when repair is enabled
+     */
+    private async verifyEntry(
+        entry: CopyPlanEntry,
+        state: CopyState,
+        options: TransferOptions,
+        verification: VerificationResult,
+        sourceHash?: string
+    ): Promise<void> {
+        const relativePath = entry.relativePath || basename(entry.sourcePath);
+        verification.filesChecked++;
+
+        const mismatch = await compareFile(entry.sourcePath, entry.destPath, relativePath, verification.mode, sourceHash);
+        if (!mismatch) return;
+
+        verification.mismatches.push(mismatch);
+        if (!options.repairMismatches) return;
+
+        if (entry.type === 'symlink') {
+            await this.copySymlink(entry);
+        } else {
+            await this.copyFile(entry, state, options);
+        }
+        await this.applyMetadata(entry, options);
+
+        if (!await compareFile(entry.sourcePath, entry.destPath, relativePath, verification.mode)) {
+            verification.repaired.push(relativePath);
+        }
+    }
+
+    private async copySymlink(entry: CopyPlanEntry): Promise<void> {
+        const target = await fs.readlink(entry.sourcePath);
+        await fs.rm(entry.destPath, { force: true, recursive: true });
+        await fs.symlink(target, entry.destPath);
+    }
+
+    private async applyMetadata(entry: CopyPlanEntry, options: TransferOptions): Promise<void> {
+        if (entry.type === 'symlink') {
+            if (options.preserveTimes !== false) {
+                await fs.lutimes(entry.destPath, entry.stats.atime, entry.stats.mtime).catch(() => undefined);
+            }
+            return;
+        }
+
+        if (options.preservePerms !== false) {
+            await fs.chmod(entry.destPath, entry.stats.mode & 0o7777);
+        }
+        if (options.preserveTimes !== false) {
+            await fs.utimes(entry.destPath, entry.stats.atime, entry.stats.mtime);
+        }
+    }
+
+    /**
+     * Destination entries with no counterpart in the source; excluded paths are left alone like rsync --delete
+     */
+    private async findExtraneous(plan: CopyPlanEntry[], destRoot: string, filters: FilterSet, sizeOrAgeSkipped: Set<string>): Promise<string[]> {
+        const expected = new Set([...plan.map(e => e.destPath), ...sizeOrAgeSkipped]);
+        const extraneous: string[] = [];
+
+        const walk = async (dir: string, relativePath: string) => {
+            let entries: string[];
+            try {
+                entries = await fs.readdir(dir);
+            } catch {
+                return;
+            }
+
+            for (const entry of entries) {
+                const fullPath = join(dir, entry);
+                const childRelative = relativePath ? `${relativePath}/${entry}` : entry;
+                const stats = await fs.lstat(fullPath);
+
+                if (!filters.isIncluded(childRelative, stats.isDirectory())) continue;
+
+                if (!expected.has(fullPath)) {
+                    extraneous.push(fullPath);
+                } else if (stats.isDirectory()) {
+                    await walk(fullPath, childRelative);
+                }
+            }
+        };
+
+        await walk(destRoot, '');
+        return extraneous;
+    }
+
+    private reportProgress(state: CopyState, force: boolean): void {
+        const now = Date.now();
+        if (!force && now - state.lastEmit < PROGRESS_INTERVAL_MS) return;
+        state.lastEmit = now;
+
+        const elapsed = now - state.startTime;
+        const bytesPerSecond = elapsed > 0 ? (state.bytesTransferred / elapsed) * 1000 : 0;
+        const remainingBytes = Math.max(state.totalBytes - state.bytesTransferred, 0);
+
+        this.emitProgress({
+            bytesTransferred: state.bytesTransferred,
+            totalBytes: state.totalBytes,
+            filesTransferred: state.filesTransferred,
+            totalFiles: state.totalFiles,
+            currentFile: state.currentFile,
+            transferRate: this.formatRate(state.bytesTransferred, elapsed),
+            timeRemaining: bytesPerSecond > 0 ? this.formatDuration(remainingBytes / bytesPerSecond) : undefined,
+            percentage: state.totalBytes > 0 ? Math.min((state.bytesTransferred / state.totalBytes) * 100, 100) : 100
+        }, state);
+    }
+
+    private hashFile(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = createHash('sha256');
+            createReadStream(filePath)
+                .on('data', chunk => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')))
+                .on('error', reject);
+        });
+    }
+
+    private formatRate(bytes: number, milliseconds: number): string {
+        if (bytes === 0 || milliseconds === 0) return '0 B/s';
+
+        const bytesPerSecond = (bytes / milliseconds) * 1000;
+
+        if (bytesPerSecond < 1024) return `${bytesPerSecond.toFixed(1)} B/s`;
+        if (bytesPerSecond < 1024 * 1024) return `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+        if (bytesPerSecond < 1024 * 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+        return `${(bytesPerSecond / (1024 * 1024 * 1024)).toFixed(1)} GB/s`;
+    }
+
+    private formatDuration(seconds: number): string {
+        const total = Math.round(seconds);
+        const h = Math.floor(total / 3600);
+        const m = Math.floor((total % 3600) / 60);
+        const s = total % 60;
+        return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+    }
+}
@@ -1,7 +1,10 @@
-import { execSync, spawn } from 'child_process';
-import { existsSync, statSync, readdirSync } from 'fs';
+import { existsSync, statSync, readdirSync, lstatSync } from 'fs';
 import { join, dirname, resolve, isAbsolute } from 'path';
 import { TransferProvider, TransferOptions, TransferResult, TransferTarget, FallbackCapabilities, TransferProgress } from '../interfaces.js';
+import { runCommand, commandExists, windowsCommand, commandFailure } from '../../utils/command-runner.js';
+import { FilterSet } from '../filters.js';
+import { resolveCredentials, redactSecrets } from '../credentials.js';
+import { getLogger } from '../../utils/logger.js';
 
 /**
  * Windows Robocopy transfer provider
@@ -19,40 +22,37 @@ export class RobocopyProvider extends TransferProvider {
         supportsNetworkTransfer: true,
         supportsAuthentication: true,
         maxRetries: 10,
-        preferredFor: ['windows-local', 'windows-network', 'large-files', 'resume-transfers']
+        preferredFor: ['windows-local', 'windows-network', 'large-files', 'resume-transfers'],
+        strategyScores: { fastest: 10, 'preserve-metadata': 7, network: 6 }, // Good for Windows metadata and SMB
+        conflictModes: ['overwrite', 'skip', 'newer']
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('robocopy /? >nul 2>&1', { timeout: 3000 });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('robocopy');
     }
 
     async getVersion(): Promise<string | null> {
-        try {
-            const output = execSync('robocopy /?', { encoding: 'utf8', timeout: 3000 });
-            const match = output.match(/ROBOCOPY\s+::\s+Robust File Copy for Windows\s+([\d.]+)/i);
-            return match ? match[1] : null;
-        } catch {
-            return null;
-        }
+        const result = await runCommand('robocopy', ['/?'], { timeout: 3000 });
+        const match = result.stdout.match(/ROBOCOPY\s+::\s+Robust File Copy for Windows\s+([\d.]+)/i);
+        return match ? match[1] : null;
     }
 
     async prepare(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<boolean> {
         // For network paths, try to authenticate if credentials provided
-        if (destination.isRemote && options.username && options.password) {
-            try {
+        if (destination.isRemote) {
+            const credentials = await resolveCredentials(options, { purpose: 'smb', host: destination.host, share: destination.path, username: destination.user });
+            if (credentials?.username && credentials.password) {
+                // '*' makes net use read the password from stdin instead of the command line
                 const uncPath = this.buildUncPath(destination);
-                execSync(`net use "${uncPath}" "${options.password}" /user:"${options.username}"`, { 
-                    timeout: 10000,
-                    stdio: 'ignore'
+                const result = await runCommand('net', ['use', uncPath, '*', `/user:${credentials.username}`], {
+                    input: `${credentials.password}\r\n`,
+                    timeout: 10000
                 });
-            } catch (error) {
-                this.emitError(new Error(`Failed to authenticate to ${destination.host}: ${error}`));
-                return false;
+                if (result.exitCode !== 0) {
+                    const reason = redactSecrets(commandFailure('net use', result), [credentials.password]);
+                    this.emitError(new Error(`Failed to authenticate to ${destination.host}: ${reason}`));
+                    return false;
+                }
             }
         }
         
@@ -63,10 +63,10 @@ export class RobocopyProvider extends TransferProvider {
         const startTime = Date.now();
         
         try {
-            const args = this.buildRobocopyArgs(source, destination, options);
+            const args = this.buildRobocopyArgs(source, destination, options, await FilterSet.fromOptions(options));
             
             if (options.dryRun) {
-                const output = `Would execute: robocopy ${args.join(' ')}`;
+                const output = `Would execute: ${windowsCommand('robocopy', args)}`;
                 return {
                     success: true,
                     exitCode: 0,
@@ -77,11 +77,19 @@ export class RobocopyProvider extends TransferProvider {
                 };
             }
             
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('robocopy', startTime);
+            }
+            
             // Execute robocopy command using existing method
             const result = await this.executeRobocopy(args, options);
             
+            if (result.cancelled) {
+                return this.createCancelledResult('robocopy', startTime, result.output);
+            }
+            
             // Robocopy exit codes: 0-7 are success, 8+ are errors
-            const success = result.exitCode < 8;
+            const success = result.exitCode >= 0 && result.exitCode < 8;
             
             return {
                 success,
@@ -111,21 +119,14 @@ export class RobocopyProvider extends TransferProvider {
     async cleanup(source: TransferTarget, destination: TransferTarget): Promise<void> {
         // Disconnect network drives if they were connected
         if (destination.isRemote) {
-            try {
-                const uncPath = this.buildUncPath(destination);
-                execSync(`net use "${uncPath}" /delete /y`, { 
-                    timeout: 5000,
-                    stdio: 'ignore'
-                });
-            } catch {
-                // Ignore cleanup errors
-            }
+            // Ignore cleanup errors
+            await runCommand('net', ['use', this.buildUncPath(destination), '/delete', '/y'], { timeout: 5000 });
         }
     }
 
     async estimateTransfer(source: TransferTarget, options: TransferOptions): Promise<{ totalBytes: number; totalFiles: number }> {
         try {
-            const stats = this.getDirectoryStats(source.path, options);
+            const stats = this.getDirectoryStats(source.path, options, await FilterSet.fromOptions(options, source.path));
             return stats;
         } catch {
             return { totalBytes: 0, totalFiles: 0 };
@@ -157,7 +158,7 @@ export class RobocopyProvider extends TransferProvider {
             } catch (err: any) {
                 // Don't fail validation for destination access issues
                 // Robocopy will handle these at runtime
-                console.warn(`[RobocopyProvider] Warning checking destination: ${err.message}`);
+                getLogger('robocopy').warn(`Could not check destination: ${err.message}`);
             }
         }
         
@@ -167,15 +168,19 @@ export class RobocopyProvider extends TransferProvider {
         };
     }
 
-    private buildRobocopyArgs(source: TransferTarget, destination: TransferTarget, options: TransferOptions): string[] {
+    supportsFilters(filters: FilterSet, source: TransferTarget): boolean {
+        return filters.toRobocopyArgs() !== undefined;
+    }
+
+    private buildRobocopyArgs(source: TransferTarget, destination: TransferTarget, options: TransferOptions, filters: FilterSet): string[] {
         const args: string[] = [];
         
         // Source and destination
         const sourcePath = source.isRemote ? this.buildUncPath(source) : source.path;
         const destPath = destination.isRemote ? this.buildUncPath(destination) : destination.path;
         
-        args.push(`"${sourcePath}"`);
-        args.push(`"${destPath}"`);
+        args.push(sourcePath);
+        args.push(destPath);
         
         // File selection (default to all files)
         args.push('*.*');
@@ -197,12 +202,19 @@ export class RobocopyProvider extends TransferProvider {
             args.push('/PURGE'); // Delete files that no longer exist in source
         }
         
+        // Existing destination files
+        if (options.onConflict === 'skip') {
+            args.push('/XC', '/XN', '/XO'); // Exclude changed, newer and older files - only new ones are copied
+        } else if (options.onConflict === 'newer') {
+            args.push('/XO'); // Exclude files older than the destination copy
+        }
+        
         if (options.retries) {
-            args.push('/R:', options.retries.toString());
+            args.push(`/R:${options.retries}`);
         }
         
         if (options.timeout) {
-            args.push('/W:', options.timeout.toString());
+            args.push(`/W:${options.timeout}`);
         }
         
         // Progress and logging
@@ -216,17 +228,13 @@ export class RobocopyProvider extends TransferProvider {
             args.push('/NP'); // No progress - don't display percentage
         }
         
-        // Exclude patterns
-        if (options.exclude && options.exclude.length > 0) {
-            options.exclude.forEach(pattern => {
-                args.push('/XF', pattern); // Exclude files
-            });
-        }
+        // Name excludes and size limits (/XF, /XD, /MIN, /MAX); the manager doesn't pick robocopy for anything else
+        args.push(...(filters.toRobocopyArgs() || []));
         
         // Bandwidth limiting (KB/s to bytes/s)
         if (options.bandwidth) {
             const bytesPerSec = options.bandwidth * 1024;
-            args.push('/IPG:', Math.ceil(bytesPerSec / 1000).toString()); // Inter-packet gap
+            args.push(`/IPG:${Math.ceil(bytesPerSec / 1000)}`); // Inter-packet gap
         }
         
         // Custom arguments
@@ -237,40 +245,26 @@ export class RobocopyProvider extends TransferProvider {
         return args;
     }
 
-    private async executeRobocopy(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string }> {
-        return new Promise((resolve) => {
-            let output = '';
-            let error = '';
-            
-            const process = spawn('robocopy', args, {
-                shell: true,
-                stdio: ['ignore', 'pipe', 'pipe']
-            });
-            
-            process.stdout?.on('data', (data: Buffer) => {
-                const chunk = data.toString();
-                output += chunk;
-                
+    private async executeRobocopy(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('robocopy', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            onStdout: (chunk) => {
                 if (options.progress) {
-                    this.parseAndEmitProgress(chunk);
+                    this.parseAndEmitProgress(chunk, options);
                 }
-            });
-            
-            process.stderr?.on('data', (data: Buffer) => {
-                error += data.toString();
-            });
-            
-            process.on('close', (code) => {
-                resolve({
-                    exitCode: code || 0,
-                    output,
-                    error
-                });
-            });
+            }
         });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.error ? commandFailure('robocopy', result) : result.stderr,
+            cancelled: result.cancelled
+        };
     }
 
-    private parseAndEmitProgress(chunk: string): void {
+    private parseAndEmitProgress(chunk: string, options: TransferOptions): void {
         // Parse robocopy output for progress information
         const lines = chunk.split('\n');
         
@@ -292,7 +286,7 @@ export class RobocopyProvider extends TransferProvider {
                     currentFile,
                     transferRate: '',
                     percentage
-                });
+                }, options);
             }
         }
     }
@@ -362,11 +356,11 @@ export class RobocopyProvider extends TransferProvider {
         return uncPath;
     }
 
-    private getDirectoryStats(path: string, options: TransferOptions): { totalBytes: number; totalFiles: number } {
+    private getDirectoryStats(path: string, options: TransferOptions, filters: FilterSet): { totalBytes: number; totalFiles: number } {
         let totalBytes = 0;
         let totalFiles = 0;
         
-        const processPath = (currentPath: string) => {
+        const processPath = (currentPath: string, relativePath: string) => {
             try {
                 const stats = statSync(currentPath);
                 
@@ -377,15 +371,13 @@ export class RobocopyProvider extends TransferProvider {
                     const entries = readdirSync(currentPath);
                     
                     for (const entry of entries) {
-                        // Apply exclude patterns
-                        if (options.exclude && options.exclude.some(pattern => {
-                            const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-                            return regex.test(entry);
-                        })) {
+                        const entryRelative = relativePath ? `${relativePath}/${entry}` : entry;
+                        const entryStats = lstatSync(join(currentPath, entry));
+                        if (!filters.isIncluded(entryRelative, entryStats.isDirectory(), entryStats)) {
                             continue;
                         }
                         
-                        processPath(join(currentPath, entry));
+                        processPath(join(currentPath, entry), entryRelative);
                     }
                 }
             } catch {
@@ -393,7 +385,7 @@ export class RobocopyProvider extends TransferProvider {
             }
         };
         
-        processPath(path);
+        processPath(path, '');
         return { totalBytes, totalFiles };
     }
 }
@@ -414,16 +406,13 @@ export class XCopyProvider extends TransferProvider {
         supportsNetworkTransfer: true,
         supportsAuthentication: false,
         maxRetries: 0,
-        preferredFor: ['simple-copy', 'basic-backup']
+        preferredFor: ['simple-copy', 'basic-backup'],
+        strategyScores: { 'most-compatible': 8 },
+        conflictModes: ['overwrite', 'newer']
     };
 
     async isAvailable(): Promise<boolean> {
-        try {
-            execSync('xcopy /? >nul 2>&1', { timeout: 3000 });
-            return true;
-        } catch {
-            return false;
-        }
+        return commandExists('xcopy');
     }
 
     async getVersion(): Promise<string | null> {
@@ -445,25 +434,30 @@ export class XCopyProvider extends TransferProvider {
                 return {
                     success: true,
                     exitCode: 0,
-                    output: `Would execute: xcopy ${args.join(' ')}`,
+                    output: `Would execute: ${windowsCommand('xcopy', args)}`,
                     duration: Date.now() - startTime,
                     method: 'xcopy',
                     fallbackUsed: true
                 };
             }
             
-            // Execute xcopy command using existing sync approach
-            const output = execSync(`xcopy ${args.join(' ')}`, { 
-                encoding: 'utf8',
-                timeout: (options.timeout || 300) * 1000 // 5 minute default
-            });
+            if (options.signal?.aborted) {
+                return this.createCancelledResult('xcopy', startTime);
+            }
+            
+            const result = await this.executeXCopy(args, options);
             
-            const filesTransferred = this.parseXCopyOutput(output);
+            if (result.cancelled) {
+                return this.createCancelledResult('xcopy', startTime, result.output);
+            }
+            
+            const filesTransferred = this.parseXCopyOutput(result.output);
             
             return {
-                success: true,
-                exitCode: 0,
-                output,
+                success: result.exitCode === 0,
+                exitCode: result.exitCode,
+                output: result.output,
+                error: result.exitCode === 0 ? undefined : result.error,
                 filesTransferred,
                 duration: Date.now() - startTime,
                 method: 'xcopy',
@@ -472,7 +466,7 @@ export class XCopyProvider extends TransferProvider {
         } catch (err: any) {
             return {
                 success: false,
-                exitCode: err.status || -1,
+                exitCode: err.code || -1,
                 output: '',
                 error: err.message,
                 duration: Date.now() - startTime,
@@ -501,8 +495,8 @@ export class XCopyProvider extends TransferProvider {
     private buildXCopyArgs(source: TransferTarget, destination: TransferTarget, options: TransferOptions): string[] {
         const args: string[] = [];
         
-        args.push(`"${source.path}"`);
-        args.push(`"${destination.path}"`);
+        args.push(source.path);
+        args.push(destination.path);
         
         // XCopy options
         if (options.recursive !== false) {
@@ -516,18 +510,34 @@ export class XCopyProvider extends TransferProvider {
         args.push('/I'); // Assume destination is a directory if copying multiple files
         args.push('/Y'); // Suppress prompting to confirm overwrite
         
+        if (options.onConflict === 'newer') {
+            args.push('/D'); // Only copy files newer than the destination copy
+        }
+        
         if (options.verbose) {
             args.push('/F'); // Display full source and destination file names
         }
         
-        if (options.exclude && options.exclude.length > 0) {
-            // XCopy has limited exclude support via /EXCLUDE:file
-            // For simplicity, we'll skip exclude patterns for XCopy
-        }
+        // /EXCLUDE:file only does substring matches, so filtered transfers are left to other providers
         
         return args;
     }
 
+    private async executeXCopy(args: string[], options: TransferOptions): Promise<{ exitCode: number; output: string; error: string; cancelled: boolean }> {
+        const result = await runCommand('xcopy', args, {
+            signal: options.signal,
+            pauseSignal: options.pauseSignal,
+            timeout: (options.timeout || 300) * 1000 // 5 minute default
+        });
+        
+        return {
+            exitCode: result.exitCode,
+            output: result.stdout,
+            error: result.exitCode === 0 ? result.stderr : commandFailure('xcopy', result),
+            cancelled: result.cancelled
+        };
+    }
+
     private parseXCopyOutput(output: string): number {
         // Look for "X File(s) copied" in the output
         const match = output.match(/(\d+)\s+File\(s\)\s+copied/i);
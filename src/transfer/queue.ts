@@ -0,0 +1,423 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TransferTarget, TransferResult, TransferProgress, RuntimeOptionKeys, toSerializableOptions } from './interfaces.js';
+import { UnifiedTransferManager, UnifiedTransferOptions, createUnifiedTransferManager } from './manager.js';
+import { TransferHandle } from './handle.js';
+
+export type QueueJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+    id: string;
+    source: TransferTarget;
+    destination: TransferTarget;
+    options: UnifiedTransferOptions;
+    priority: number;              // Higher runs first
+    status: QueueJobStatus;
+    addedAt: Date;
+    startedAt?: Date;
+    finishedAt?: Date;
+    progress?: TransferProgress;
+    result?: TransferResult;
+    error?: string;
+}
+
+/**
+ * An unfinished job as written to `storagePath`: no progress or result, dates as ISO strings
+ * and only the options that can be saved
+ */
+export interface SavedQueueJob extends Omit<QueueJob, 'options' | 'addedAt' | 'startedAt' | 'finishedAt' | 'progress' | 'result'> {
+    options: Omit<UnifiedTransferOptions, RuntimeOptionKeys>;
+    addedAt: string;
+    startedAt?: string;
+}
+
+export interface TransferQueueOptions {
+    concurrency?: number;                // Jobs running at once overall (default: 2)
+    perDestinationConcurrency?: number;  // Jobs running at once against one host or local drive (default: 1)
+    storagePath?: string;                // Persist unfinished jobs to this JSON file
+    manager?: UnifiedTransferManager;    // Manager to run jobs with (default: a new one)
+}
+
+/**
+ * Runs queued transfers in priority order, limited overall and per destination.
+ *
+ * Events: jobAdded, jobStarted, jobProgress, jobPaused, jobResumed, jobPauseUnsupported,
+ * jobCompleted, jobFailed, jobCancelled, queuePaused, queueResumed and queueDrained. Failures
+ * to save the queue are emitted as persistError.
+ */
+export class TransferQueue extends EventEmitter {
+    private jobs: QueueJob[] = [];
+    private handles: Map<string, TransferHandle> = new Map();
+    private jobCounter = 0;
+    private paused = false;
+    private busy = false;
+    private managerPromise: Promise<UnifiedTransferManager> | null = null;
+    private persistChain: Promise<void> = Promise.resolve();
+
+    private readonly concurrency: number;
+    private readonly perDestinationConcurrency: number;
+
+    constructor(private queueOptions: TransferQueueOptions = {}) {
+        super();
+        this.concurrency = Math.max(1, queueOptions.concurrency ?? 2);
+        this.perDestinationConcurrency = Math.max(1, queueOptions.perDestinationConcurrency ?? 1);
+    }
+
+    /**
+     * Add a job. Jobs with a higher priority run first; equal priorities run in the order added.
+     */
+    add(
+        source: TransferTarget,
+        destination: TransferTarget,
+        options: UnifiedTransferOptions = {},
+        priority: number = 0
+    ): QueueJob {
+        const job: QueueJob = {
+            id: `job_${++this.jobCounter}_${Date.now()}`,
+            source,
+            destination,
+            options,
+            priority,
+            status: 'queued',
+            addedAt: new Date()
+        };
+
+        this.insertByPriority(job);
+        this.emit('jobAdded', job);
+        this.changed();
+
+        return job;
+    }
+
+    /**
+     * Get a job by id
+     */
+    getJob(id: string): QueueJob | null {
+        return this.jobs.find(job => job.id === id) || null;
+    }
+
+    /**
+     * All jobs in queue order
+     */
+    getJobs(): QueueJob[] {
+        return [...this.jobs];
+    }
+
+    /**
+     * Change a waiting job's priority, moving it behind other jobs of the same priority
+     */
+    setPriority(id: string, priority: number): boolean {
+        const job = this.getJob(id);
+        if (!job || !this.isWaiting(job)) return false;
+
+        this.jobs.splice(this.jobs.indexOf(job), 1);
+        job.priority = priority;
+        this.insertByPriority(job);
+        this.changed();
+
+        return true;
+    }
+
+    /**
+     * Move a waiting job to a position in the queue. Priorities are left as they are, so
+     * this is how to run one job ahead of another with the same priority.
+     */
+    moveJob(id: string, index: number): boolean {
+        const job = this.getJob(id);
+        if (!job || !this.isWaiting(job)) return false;
+
+        this.jobs.splice(this.jobs.indexOf(job), 1);
+        this.jobs.splice(Math.max(0, Math.min(index, this.jobs.length)), 0, job);
+        this.changed();
+
+        return true;
+    }
+
+    /**
+     * Pause a job. A waiting job is held back; a running one is paused in place and keeps its slot.
+     * Returns false for a running job whose tool can't be suspended.
+     */
+    pauseJob(id: string): boolean {
+        const job = this.getJob(id);
+        if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+
+        const handle = this.handles.get(id);
+        if (handle && !handle.pause()) return false;
+        job.status = 'paused';
+        this.emit('jobPaused', job);
+        this.changed();
+
+        return true;
+    }
+
+    resumeJob(id: string): boolean {
+        const job = this.getJob(id);
+        if (!job || job.status !== 'paused') return false;
+
+        const handle = this.handles.get(id);
+        if (handle) {
+            handle.resume();
+            job.status = 'running';
+        } else {
+            job.status = 'queued';
+        }
+        this.emit('jobResumed', job);
+        this.changed();
+
+        return true;
+    }
+
+    /**
+     * Cancel a job. Waiting jobs are cancelled at once; running ones once their tool has stopped.
+     */
+    cancelJob(id: string): boolean {
+        const job = this.getJob(id);
+        if (!job || this.isFinished(job)) return false;
+
+        const handle = this.handles.get(id);
+        if (handle) {
+            handle.cancel();
+            return true;
+        }
+
+        this.finish(job, 'cancelled');
+        return true;
+    }
+
+    /**
+     * Stop starting new jobs. Running jobs carry on.
+     */
+    pause(): void {
+        if (this.paused) return;
+        this.paused = true;
+        this.emit('queuePaused');
+    }
+
+    resume(): void {
+        if (!this.paused) return;
+        this.paused = false;
+        this.emit('queueResumed');
+        this.schedule();
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * Remove completed, failed and cancelled jobs
+     */
+    clearFinished(): void {
+        this.jobs = this.jobs.filter(job => !this.isFinished(job));
+        this.changed();
+    }
+
+    /**
+     * Resolve once no job is queued or running. Paused jobs don't hold this up.
+     */
+    onDrained(): Promise<void> {
+        if (!this.hasPendingWork()) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => this.once('queueDrained', () => resolve()));
+    }
+
+    /**
+     * Load unfinished jobs saved to `storagePath`. Jobs that were running start over.
+     * Passwords, credential providers, loggers and callbacks aren't saved; give them again in
+     * `runtimeOptions` and every restored job gets them.
+     */
+    async load(runtimeOptions: UnifiedTransferOptions = {}): Promise<QueueJob[]> {
+        if (!this.queueOptions.storagePath) return [];
+
+        let saved: SavedQueueJob[];
+        try {
+            saved = JSON.parse(await fs.readFile(this.queueOptions.storagePath, 'utf8'));
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const restored: QueueJob[] = [];
+        for (const entry of saved) {
+            if (this.getJob(entry.id)) continue;
+
+            const job: QueueJob = {
+                ...entry,
+                options: { ...entry.options, ...runtimeOptions },
+                status: entry.status === 'paused' ? 'paused' : 'queued',
+                addedAt: new Date(entry.addedAt),
+                startedAt: undefined,
+                progress: undefined
+            };
+            this.insertByPriority(job);
+            restored.push(job);
+            this.emit('jobAdded', job);
+        }
+
+        this.changed();
+        return restored;
+    }
+
+    private insertByPriority(job: QueueJob): void {
+        // Finished and running jobs stay where they are; only waiting jobs are ordered by priority
+        const index = this.jobs.findIndex(other => this.isWaiting(other) && other.priority < job.priority);
+        if (index === -1) {
+            this.jobs.push(job);
+        } else {
+            this.jobs.splice(index, 0, job);
+        }
+    }
+
+    private changed(): void {
+        this.persist();
+        this.schedule();
+    }
+
+    private schedule(): void {
+        if (this.paused) return;
+
+        const running = this.jobs.filter(job => this.handles.has(job.id));
+        let slots = this.concurrency - running.length;
+
+        for (const job of this.jobs) {
+            if (slots <= 0) break;
+            if (job.status !== 'queued') continue;
+
+            const key = this.destinationKey(job.destination);
+            const sameDestination = running.filter(other => this.destinationKey(other.destination) === key).length;
+            if (sameDestination >= this.perDestinationConcurrency) continue;
+
+            running.push(job);
+            slots--;
+            this.start(job);
+        }
+
+        const busy = this.hasPendingWork();
+        if (this.busy && !busy) {
+            this.emit('queueDrained');
+        }
+        this.busy = busy;
+    }
+
+    private start(job: QueueJob): void {
+        job.status = 'running';
+        job.startedAt = new Date();
+
+        const handle = new TransferHandle(async ({ signal, pauseSignal }) => {
+            const manager = await this.getManager();
+            return manager.transfer(job.source, job.destination, {
+                ...job.options,
+                signal,
+                pauseSignal,
+                onProgress: (progress) => {
+                    job.progress = progress;
+                    job.options.onProgress?.(progress);
+                    this.emit('jobProgress', job, progress);
+                }
+            });
+        }, job.options.signal);
+
+        handle.on('pauseUnsupported', (reason: string) => {
+            if (job.status === 'paused') {
+                job.status = 'running';
+                this.changed();
+            }
+            this.emit('jobPauseUnsupported', job, reason);
+        });
+
+        this.handles.set(job.id, handle);
+        this.emit('jobStarted', job);
+        this.persist();
+
+        handle.result.then(
+            (result) => {
+                job.result = result;
+                job.error = result.error;
+                this.finish(job, result.status ?? (result.success ? 'completed' : 'failed'));
+            },
+            (error) => {
+                job.error = error instanceof Error ? error.message : String(error);
+                this.finish(job, handle.signal.aborted ? 'cancelled' : 'failed');
+            }
+        );
+    }
+
+    private finish(job: QueueJob, status: 'completed' | 'failed' | 'cancelled'): void {
+        this.handles.delete(job.id);
+        job.status = status;
+        job.finishedAt = new Date();
+
+        switch (status) {
+            case 'completed':
+                this.emit('jobCompleted', job);
+                break;
+            case 'failed':
+                this.emit('jobFailed', job);
+                break;
+            case 'cancelled':
+                this.emit('jobCancelled', job);
+                break;
+        }
+
+        this.changed();
+    }
+
+    private getManager(): Promise<UnifiedTransferManager> {
+        if (!this.managerPromise) {
+            this.managerPromise = this.queueOptions.manager
+                ? Promise.resolve(this.queueOptions.manager)
+                : createUnifiedTransferManager();
+        }
+        return this.managerPromise;
+    }
+
+    /**
+     * Jobs against the same remote host or the same local drive share a concurrency limit
+     */
+    private destinationKey(target: TransferTarget): string {
+        if (target.isRemote) {
+            return `remote:${target.host || ''}:${target.port || 22}`;
+        }
+        return `local:${path.parse(path.resolve(target.path)).root}`;
+    }
+
+    private isWaiting(job: QueueJob): boolean {
+        return job.status === 'queued' || (job.status === 'paused' && !this.handles.has(job.id));
+    }
+
+    private isFinished(job: QueueJob): boolean {
+        return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+    }
+
+    private hasPendingWork(): boolean {
+        return this.jobs.some(job => job.status === 'queued' || job.status === 'running');
+    }
+
+    private persist(): void {
+        const storagePath = this.queueOptions.storagePath;
+        if (!storagePath) return;
+
+        // Signals and callbacks can't be saved and secrets mustn't be; load() takes them again
+        const unfinished = this.jobs
+            .filter(job => !this.isFinished(job))
+            .map(({ progress, result, options, addedAt, startedAt, finishedAt, ...job }): SavedQueueJob => ({
+                ...job,
+                options: toSerializableOptions(options),
+                addedAt: addedAt.toISOString(),
+                startedAt: startedAt?.toISOString()
+            }));
+        const data = JSON.stringify(unfinished, null, 2);
+
+        // Writes are chained so an older snapshot never lands after a newer one
+        this.persistChain = this.persistChain.then(async () => {
+            const tempPath = `${storagePath}.tmp`;
+            await fs.mkdir(path.dirname(storagePath), { recursive: true });
+            await fs.writeFile(tempPath, data, 'utf8');
+            await fs.rename(tempPath, storagePath);
+        }).catch((error) => {
+            this.emit('persistError', error);
+        });
+    }
+}
@@ -0,0 +1,444 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TransferTarget } from './interfaces.js';
+import { runRemoteCommand, quoteShellArg } from '../utils/command-runner.js';
+import { UnifiedTransferManager, UnifiedTransferOptions, createUnifiedTransferManager } from './manager.js';
+import { FileEnumerator, FileMetadata } from './advanced-utils.js';
+import { FilterSet } from './filters.js';
+
+export type SyncSide = 'left' | 'right';
+
+export type ConflictPolicy = 'newer' | 'keep-both' | 'ask';
+
+/**
+ * What to do with a conflict: take one side's version, keep both, or leave it for next time
+ */
+export type ConflictResolution = SyncSide | 'keep-both' | 'skip';
+
+/**
+ * Size and mtime of one entry as last seen on one side
+ */
+export interface SyncEntryState {
+    type: 'file' | 'directory';
+    size: number;
+    mtime: number;              // Whole seconds, so sides with coarser timestamps still compare equal
+}
+
+export interface TwoWaySyncState {
+    version: 1;
+    left: string;
+    right: string;
+    syncedAt: string;
+    entries: { [relativePath: string]: { left: SyncEntryState; right: SyncEntryState } };
+}
+
+export interface SyncConflict {
+    relativePath: string;
+    left?: FileMetadata;        // Undefined when deleted on that side
+    right?: FileMetadata;
+}
+
+export interface SyncAction {
+    type: 'copy' | 'delete' | 'mkdir' | 'keep-both';
+    relativePath: string;
+    from?: SyncSide;            // Side the change came from
+    to: SyncSide;               // Side being changed
+}
+
+export interface TwoWaySyncOptions {
+    conflictPolicy?: ConflictPolicy;        // Default: 'newer'
+    onConflict?: (conflict: SyncConflict) => ConflictResolution | Promise<ConflictResolution>; // Required for 'ask'
+    filters?: string[];                     // Ordered rsync-style rules, checked before include/exclude
+    include?: string[];
+    exclude?: string[];
+    includeHidden?: boolean;                // Default: true
+    dryRun?: boolean;                       // Work out the actions without applying them
+    keyFile?: string;                       // SSH key for remote sides
+    transferOptions?: UnifiedTransferOptions; // Passed to the manager for each copied file
+    manager?: UnifiedTransferManager;
+}
+
+export interface TwoWaySyncResult {
+    success: boolean;
+    actions: SyncAction[];
+    conflicts: SyncConflict[];
+    errors: { relativePath: string; error: string }[];
+    dryRun: boolean;
+}
+
+type Change = 'unchanged' | 'created' | 'modified' | 'deleted' | 'absent';
+
+/**
+ * Bidirectional sync between two folders (local or remote).
+ *
+ * A state file records both trees as they were after the last successful sync. Each run
+ * compares both sides with it: a change on one side is copied or deleted on the other, and
+ * a change on both is a conflict settled by the policy. Paths that fail are left with their
+ * old state so the next run tries them again.
+ */
+export class TwoWaySync extends EventEmitter {
+    private managerPromise: Promise<UnifiedTransferManager> | null = null;
+
+    constructor(
+        private left: TransferTarget,
+        private right: TransferTarget,
+        private statePath: string,
+        private options: TwoWaySyncOptions = {}
+    ) {
+        super();
+        if (options.manager) {
+            this.managerPromise = Promise.resolve(options.manager);
+        }
+        if (options.conflictPolicy === 'ask' && !options.onConflict) {
+            throw new Error("conflictPolicy 'ask' needs an onConflict callback");
+        }
+    }
+
+    /**
+     * Bring both sides up to date with each other
+     */
+    async sync(): Promise<TwoWaySyncResult> {
+        const state = await this.loadState();
+        const [leftFiles, rightFiles] = await Promise.all([this.scan(this.left), this.scan(this.right)]);
+        const result: TwoWaySyncResult = { success: true, actions: [], conflicts: [], errors: [], dryRun: this.options.dryRun === true };
+
+        const paths = new Set([...leftFiles.keys(), ...rightFiles.keys(), ...Object.keys(state.entries)]);
+        // Parents before children for creates; children before parents for deletes
+        const ordered = Array.from(paths).sort();
+        const touched = new Set<string>();
+        const failed = new Set<string>();
+        const directoryDeletes: { relativePath: string; side: SyncSide }[] = [];
+
+        for (const relativePath of ordered) {
+            const previous = state.entries[relativePath];
+            const leftFile = leftFiles.get(relativePath);
+            const rightFile = rightFiles.get(relativePath);
+            const leftChange = this.detectChange(leftFile, previous?.left);
+            const rightChange = this.detectChange(rightFile, previous?.right);
+
+            try {
+                const planned = await this.plan(relativePath, leftFile, rightFile, leftChange, rightChange, result);
+                for (const action of planned) {
+                    if (action.type === 'delete' && (action.to === 'left' ? leftFile : rightFile)?.type === 'directory') {
+                        directoryDeletes.push({ relativePath, side: action.to });
+                        continue;
+                    }
+                    await this.apply(action, leftFiles, rightFiles, result);
+                    touched.add(relativePath);
+                }
+            } catch (error) {
+                failed.add(relativePath);
+                result.errors.push({ relativePath, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        for (const { relativePath, side } of directoryDeletes.reverse()) {
+            try {
+                await this.apply({ type: 'delete', relativePath, from: side === 'left' ? 'right' : 'left', to: side }, leftFiles, rightFiles, result);
+                touched.add(relativePath);
+            } catch (error) {
+                failed.add(relativePath);
+                result.errors.push({ relativePath, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        result.success = result.errors.length === 0;
+        if (!this.options.dryRun) {
+            await this.saveState(state, leftFiles, rightFiles, touched, failed, result);
+        }
+        this.emit('complete', result);
+        return result;
+    }
+
+    /**
+     * Decide what to do with one path given how each side changed since the last sync
+     */
+    private async plan(
+        relativePath: string,
+        leftFile: FileMetadata | undefined,
+        rightFile: FileMetadata | undefined,
+        leftChange: Change,
+        rightChange: Change,
+        result: TwoWaySyncResult
+    ): Promise<SyncAction[]> {
+        const leftChanged = leftChange !== 'unchanged' && leftChange !== 'absent';
+        const rightChanged = rightChange !== 'unchanged' && rightChange !== 'absent';
+
+        if (!leftChanged && !rightChanged) return [];
+        if (leftChanged && !rightChanged) return [this.propagate(relativePath, 'left', leftFile)];
+        if (rightChanged && !leftChanged) return [this.propagate(relativePath, 'right', rightFile)];
+
+        // Changed on both sides
+        if (!leftFile && !rightFile) return [];
+        if (leftFile && rightFile && this.sameContent(leftFile, rightFile)) return [];
+        if (leftFile?.type === 'directory' && rightFile?.type === 'directory') return [];
+
+        const conflict: SyncConflict = { relativePath, left: leftFile, right: rightFile };
+        result.conflicts.push(conflict);
+        this.emit('conflict', conflict);
+
+        const resolution = await this.resolve(conflict);
+        if (resolution === 'skip') return [];
+        if (resolution === 'keep-both') {
+            // Keeping both only makes sense when both sides still have a file
+            if (leftFile?.type === 'file' && rightFile?.type === 'file') {
+                return [{ type: 'keep-both', relativePath, from: 'right', to: 'left' }];
+            }
+            return [this.propagate(relativePath, leftFile ? 'left' : 'right', leftFile ?? rightFile)];
+        }
+        return [this.propagate(relativePath, resolution, resolution === 'left' ? leftFile : rightFile)];
+    }
+
+    private async resolve(conflict: SyncConflict): Promise<ConflictResolution> {
+        switch (this.options.conflictPolicy || 'newer') {
+            case 'ask':
+                return this.options.onConflict!(conflict);
+            case 'keep-both':
+                return 'keep-both';
+            default: {
+                // An edit beats a delete, so nothing is lost
+                if (!conflict.left) return 'right';
+                if (!conflict.right) return 'left';
+                return conflict.left.modified.getTime() >= conflict.right.modified.getTime() ? 'left' : 'right';
+            }
+        }
+    }
+
+    /**
+     * Make the other side match `side` for one path
+     */
+    private propagate(relativePath: string, side: SyncSide, file: FileMetadata | undefined): SyncAction {
+        const to: SyncSide = side === 'left' ? 'right' : 'left';
+        if (!file) return { type: 'delete', relativePath, from: side, to };
+        if (file.type === 'directory') return { type: 'mkdir', relativePath, from: side, to };
+        return { type: 'copy', relativePath, from: side, to };
+    }
+
+    private async apply(
+        action: SyncAction,
+        leftFiles: Map<string, FileMetadata>,
+        rightFiles: Map<string, FileMetadata>,
+        result: TwoWaySyncResult
+    ): Promise<void> {
+        result.actions.push(action);
+        this.emit('action', action);
+        if (this.options.dryRun) return;
+
+        const target = (side: SyncSide) => side === 'left' ? this.left : this.right;
+
+        switch (action.type) {
+            case 'mkdir':
+                await this.mkdir(target(action.to), action.relativePath);
+                break;
+            case 'delete': {
+                const files = action.to === 'left' ? leftFiles : rightFiles;
+                await this.remove(target(action.to), action.relativePath, files.get(action.relativePath)?.type === 'directory');
+                break;
+            }
+            case 'copy':
+                await this.copy(target(action.from!), target(action.to), action.relativePath, action.relativePath);
+                break;
+            case 'keep-both': {
+                // Left keeps the name on both sides; right's version is saved beside it on both
+                const conflictPath = this.conflictName(action.relativePath);
+                await this.copy(this.right, this.left, action.relativePath, conflictPath);
+                await this.rename(this.right, action.relativePath, conflictPath);
+                await this.copy(this.left, this.right, action.relativePath, action.relativePath);
+                break;
+            }
+        }
+    }
+
+    private detectChange(current: FileMetadata | undefined, previous: SyncEntryState | undefined): Change {
+        if (!current) return previous ? 'deleted' : 'absent';
+        if (!previous) return 'created';
+
+        const now = this.toState(current);
+        if (now.type !== previous.type) return 'modified';
+        // Directory sizes and mtimes change with their contents, which are tracked separately
+        if (now.type === 'directory') return 'unchanged';
+        return now.size === previous.size && now.mtime === previous.mtime ? 'unchanged' : 'modified';
+    }
+
+    private sameContent(a: FileMetadata, b: FileMetadata): boolean {
+        const [left, right] = [this.toState(a), this.toState(b)];
+        return left.type === right.type && left.size === right.size && left.mtime === right.mtime;
+    }
+
+    private toState(file: FileMetadata): SyncEntryState {
+        return {
+            type: file.type === 'directory' ? 'directory' : 'file',
+            size: file.type === 'directory' ? 0 : file.size,
+            mtime: Math.floor(file.modified.getTime() / 1000)
+        };
+    }
+
+    /**
+     * `name.ext` becomes `name (conflict 2024-05-01 12-00-00).ext`
+     */
+    private conflictName(relativePath: string): string {
+        const stamp = new Date().toISOString().slice(0, 19).replace('T', ' ').replace(/:/g, '-');
+        const ext = path.posix.extname(relativePath);
+        return `${relativePath.slice(0, relativePath.length - ext.length)} (conflict ${stamp})${ext}`;
+    }
+
+    private async scan(target: TransferTarget): Promise<Map<string, FileMetadata>> {
+        const files = await FileEnumerator.enumerateFiles(target, this.options.includeHidden !== false, { keyFile: this.options.keyFile });
+        const filters = await FilterSet.fromOptions({ filters: this.options.filters, include: this.options.include, exclude: this.options.exclude });
+        const stateFile = !target.isRemote ? path.relative(target.path, this.statePath).split(path.sep).join('/') : null;
+        const entries = new Map<string, FileMetadata>();
+
+        for (const file of files) {
+            const relativePath = file.relativePath.split(path.sep).join('/').replace(/^\.\//, '');
+            if (relativePath === stateFile || relativePath.endsWith('.sync-tmp')) continue;
+            if (!filters.isPathIncluded(relativePath, file.type === 'directory')) continue;
+            entries.set(relativePath, file);
+        }
+        return entries;
+    }
+
+    private async loadState(): Promise<TwoWaySyncState> {
+        try {
+            const state: TwoWaySyncState = JSON.parse(await fs.readFile(this.statePath, 'utf8'));
+            if (state.left !== this.describe(this.left) || state.right !== this.describe(this.right)) {
+                throw new Error(`State file ${this.statePath} belongs to a different pair of folders`);
+            }
+            return state;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') throw error;
+            return { version: 1, left: this.describe(this.left), right: this.describe(this.right), syncedAt: '', entries: {} };
+        }
+    }
+
+    /**
+     * Record the trees as they are now. Paths changed during this run are re-read from disk;
+     * failed ones keep their previous state so they're retried.
+     */
+    private async saveState(
+        state: TwoWaySyncState,
+        leftFiles: Map<string, FileMetadata>,
+        rightFiles: Map<string, FileMetadata>,
+        touched: Set<string>,
+        failed: Set<string>,
+        result: TwoWaySyncResult
+    ): Promise<void> {
+        let [leftNow, rightNow] = [leftFiles, rightFiles];
+        if (touched.size > 0) {
+            [leftNow, rightNow] = await Promise.all([this.scan(this.left), this.scan(this.right)]);
+        }
+
+        const skipped = new Set(result.conflicts.map(conflict => conflict.relativePath)
+            .filter(relativePath => !touched.has(relativePath)));
+        const entries: TwoWaySyncState['entries'] = {};
+
+        for (const relativePath of new Set([...leftNow.keys(), ...rightNow.keys(), ...Object.keys(state.entries)])) {
+            if (failed.has(relativePath) || skipped.has(relativePath)) {
+                if (state.entries[relativePath]) entries[relativePath] = state.entries[relativePath];
+                continue;
+            }
+
+            const source = touched.has(relativePath) ? [leftNow, rightNow] : [leftFiles, rightFiles];
+            const leftFile = source[0].get(relativePath);
+            const rightFile = source[1].get(relativePath);
+            if (leftFile && rightFile) {
+                entries[relativePath] = { left: this.toState(leftFile), right: this.toState(rightFile) };
+            }
+        }
+
+        const next: TwoWaySyncState = { ...state, syncedAt: new Date().toISOString(), entries };
+        const tempPath = `${this.statePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(next, null, 2), 'utf8');
+        await fs.rename(tempPath, this.statePath);
+    }
+
+    private describe(target: TransferTarget): string {
+        return target.isRemote
+            ? `${target.user ? `${target.user}@` : ''}${target.host}:${target.path}`
+            : path.resolve(target.path);
+    }
+
+    /**
+     * Copy to a temporary name beside the destination and rename it into place, so the old
+     * version is replaced whole (and tools that skip newer destinations can't skip it)
+     */
+    private async copy(from: TransferTarget, to: TransferTarget, fromPath: string, toPath: string): Promise<void> {
+        const dir = path.posix.dirname(toPath);
+        const tempPath = path.posix.join(dir, `.${path.posix.basename(toPath)}.${process.pid}.sync-tmp`);
+        await this.mkdir(to, dir);
+
+        const manager = await this.getManager();
+        const result = await manager.transfer(
+            { ...from, path: this.locate(from, fromPath).path },
+            this.locate(to, tempPath),
+            { ...this.options.transferOptions, keyFile: this.options.keyFile ?? this.options.transferOptions?.keyFile }
+        );
+        if (!result.success) {
+            await this.remove(to, tempPath, false).catch(() => undefined);
+            throw new Error(result.error || `Failed to copy ${fromPath}`);
+        }
+        await this.rename(to, tempPath, toPath);
+    }
+
+    private async mkdir(target: TransferTarget, relativePath: string): Promise<void> {
+        if (relativePath === '.' || relativePath === '') return;
+        const dir = this.locate(target, relativePath).path;
+        if (target.isRemote) {
+            await this.runSsh(target, `mkdir -p -- ${quoteShellArg(dir)}`);
+        } else {
+            await fs.mkdir(dir, { recursive: true });
+        }
+    }
+
+    /**
+     * Directories are only removed once empty, so anything added inside them on the other side
+     * keeps the directory alive
+     */
+    private async remove(target: TransferTarget, relativePath: string, isDirectory: boolean): Promise<void> {
+        const file = this.locate(target, relativePath).path;
+        if (target.isRemote) {
+            await this.runSsh(target, isDirectory
+                ? `rmdir -- ${quoteShellArg(file)} 2>/dev/null || [ -n "$(ls -A -- ${quoteShellArg(file)})" ]`
+                : `rm -f -- ${quoteShellArg(file)}`);
+        } else if (isDirectory) {
+            await fs.rmdir(file).catch((error) => {
+                if (error.code !== 'ENOTEMPTY' && error.code !== 'EEXIST') throw error;
+            });
+        } else {
+            await fs.rm(file, { force: true });
+        }
+    }
+
+    private async rename(target: TransferTarget, from: string, to: string): Promise<void> {
+        const [fromPath, toPath] = [this.locate(target, from).path, this.locate(target, to).path];
+        if (target.isRemote) {
+            await this.runSsh(target, `mv -- ${quoteShellArg(fromPath)} ${quoteShellArg(toPath)}`);
+        } else {
+            await fs.rename(fromPath, toPath);
+        }
+    }
+
+    private locate(target: TransferTarget, relativePath: string): TransferTarget {
+        const joined = target.isRemote
+            ? path.posix.join(target.path, relativePath)
+            : path.join(target.path, ...relativePath.split('/'));
+        return { ...target, path: joined };
+    }
+
+    private getManager(): Promise<UnifiedTransferManager> {
+        if (!this.managerPromise) {
+            this.managerPromise = createUnifiedTransferManager();
+        }
+        return this.managerPromise;
+    }
+
+    private async runSsh(target: TransferTarget, command: string): Promise<string> {
+        const result = await runRemoteCommand({ host: target.host!, user: target.user, port: target.port, keyFile: this.options.keyFile }, command);
+        if (result.error) throw result.error;
+        if (result.exitCode !== 0) {
+            throw new Error(`Command failed on ${target.host}: ${result.stderr.trim() || `ssh exited with ${result.exitCode}`}`);
+        }
+        return result.stdout;
+    }
+}
@@ -0,0 +1,391 @@
+import { createReadStream, Stats } from 'fs';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { join, dirname, basename, sep } from 'path';
+import { TransferOptions, TransferTarget, ConflictMode } from './interfaces.js';
+import { FilterSet } from './filters.js';
+
+export type VerifyMode = 'size' | 'mtime' | 'sha256' | 'xxhash';
+
+export interface VerificationMismatch {
+    relativePath: string;
+    reason: 'missing' | 'type' | 'size' | 'mtime' | 'hash';
+    expected?: string | number;
+    actual?: string | number;
+}
+
+export interface VerificationResult {
+    mode: VerifyMode;
+    filesChecked: number;
+    mismatches: VerificationMismatch[];   // Everything that differed, including files later repaired
+    repaired: string[];                   // Relative paths re-copied and verified successfully
+    skipped?: string;                     // Why verification didn't run (e.g. remote endpoint)
+    kept?: string[];                      // Existing files onConflict left alone, so not compared
+}
+
+export interface FileHasher {
+    update(chunk: Buffer): void;
+    digest(): string;
+}
+
+const PRIME32_1 = 0x9E3779B1;
+const PRIME32_2 = 0x85EBCA77;
+const PRIME32_3 = 0xC2B2AE3D;
+const PRIME32_4 = 0x27D4EB2F;
+const PRIME32_5 = 0x165667B1;
+
+function rotl32(value: number, bits: number): number {
+    return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
+
+/**
+ * Streaming XXH32. Not cryptographic, but several times faster than sha256 for catching corruption.
+ */
+export class XXH32 implements FileHasher {
+    private v1: number;
+    private v2: number;
+    private v3: number;
+    private v4: number;
+    private totalLength = 0;
+    private buffer = Buffer.alloc(16);
+    private bufferSize = 0;
+
+    constructor(private seed: number = 0) {
+        this.v1 = (seed + PRIME32_1 + PRIME32_2) >>> 0;
+        this.v2 = (seed + PRIME32_2) >>> 0;
+        this.v3 = seed >>> 0;
+        this.v4 = (seed - PRIME32_1) >>> 0;
+    }
+
+    update(chunk: Buffer): void {
+        this.totalLength += chunk.length;
+        let offset = 0;
+
+        if (this.bufferSize > 0) {
+            const take = Math.min(16 - this.bufferSize, chunk.length);
+            chunk.copy(this.buffer, this.bufferSize, 0, take);
+            this.bufferSize += take;
+            offset = take;
+            if (this.bufferSize < 16) return;
+            this.processStripe(this.buffer, 0);
+            this.bufferSize = 0;
+        }
+
+        for (; offset + 16 <= chunk.length; offset += 16) {
+            this.processStripe(chunk, offset);
+        }
+
+        if (offset < chunk.length) {
+            chunk.copy(this.buffer, 0, offset);
+            this.bufferSize = chunk.length - offset;
+        }
+    }
+
+    digest(): string {
+        let hash = this.totalLength >= 16
+            ? (rotl32(this.v1, 1) + rotl32(this.v2, 7) + rotl32(this.v3, 12) + rotl32(this.v4, 18)) >>> 0
+            : (this.seed + PRIME32_5) >>> 0;
+        hash = (hash + (this.totalLength % 0x100000000)) >>> 0;
+
+        let i = 0;
+        for (; i + 4 <= this.bufferSize; i += 4) {
+            hash = (hash + Math.imul(this.buffer.readUInt32LE(i), PRIME32_3)) >>> 0;
+            hash = Math.imul(rotl32(hash, 17), PRIME32_4) >>> 0;
+        }
+        for (; i < this.bufferSize; i++) {
+            hash = (hash + Math.imul(this.buffer[i], PRIME32_5)) >>> 0;
+            hash = Math.imul(rotl32(hash, 11), PRIME32_1) >>> 0;
+        }
+
+        hash ^= hash >>> 15;
+        hash = Math.imul(hash, PRIME32_2) >>> 0;
+        hash ^= hash >>> 13;
+        hash = Math.imul(hash, PRIME32_3) >>> 0;
+        hash ^= hash >>> 16;
+
+        return (hash >>> 0).toString(16).padStart(8, '0');
+    }
+
+    private processStripe(data: Buffer, offset: number): void {
+        this.v1 = this.round(this.v1, data.readUInt32LE(offset));
+        this.v2 = this.round(this.v2, data.readUInt32LE(offset + 4));
+        this.v3 = this.round(this.v3, data.readUInt32LE(offset + 8));
+        this.v4 = this.round(this.v4, data.readUInt32LE(offset + 12));
+    }
+
+    private round(acc: number, lane: number): number {
+        acc = (acc + Math.imul(lane, PRIME32_2)) >>> 0;
+        return Math.imul(rotl32(acc, 13), PRIME32_1) >>> 0;
+    }
+}
+
+/**
+ * Hasher for a hash-based verify mode
+ */
+export function createFileHasher(mode: 'sha256' | 'xxhash'): FileHasher {
+    if (mode === 'xxhash') {
+        return new XXH32();
+    }
+
+    const hash = createHash('sha256');
+    return {
+        update: (chunk) => { hash.update(chunk); },
+        digest: () => hash.digest('hex')
+    };
+}
+
+export function isHashMode(mode: VerifyMode): mode is 'sha256' | 'xxhash' {
+    return mode === 'sha256' || mode === 'xxhash';
+}
+
+export function hashFile(filePath: string, mode: 'sha256' | 'xxhash'): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hasher = createFileHasher(mode);
+        createReadStream(filePath)
+            .on('data', (chunk) => hasher.update(chunk as Buffer))
+            .on('end', () => resolve(hasher.digest()))
+            .on('error', reject);
+    });
+}
+
+/**
+ * Compare one source file with its copy. `sourceHash` skips re-reading a source already hashed
+ * during the copy. Returns null when they match.
+ */
+export async function compareFile(
+    sourcePath: string,
+    destPath: string,
+    relativePath: string,
+    mode: VerifyMode,
+    sourceHash?: string
+): Promise<VerificationMismatch | null> {
+    const sourceStats = await fs.lstat(sourcePath);
+    let destStats: Stats;
+    try {
+        destStats = await fs.lstat(destPath);
+    } catch {
+        return { relativePath, reason: 'missing' };
+    }
+
+    if (sourceStats.isSymbolicLink()) {
+        // A link may have been copied as a link or followed; either way its target decides
+        if (destStats.isSymbolicLink()) {
+            const [expected, actual] = await Promise.all([fs.readlink(sourcePath), fs.readlink(destPath)]);
+            return expected === actual ? null : { relativePath, reason: 'hash', expected, actual };
+        }
+        return null;
+    }
+
+    if (!destStats.isFile()) {
+        return { relativePath, reason: 'type' };
+    }
+    if (destStats.size !== sourceStats.size) {
+        return { relativePath, reason: 'size', expected: sourceStats.size, actual: destStats.size };
+    }
+
+    if (mode === 'mtime') {
+        const expected = Math.floor(sourceStats.mtimeMs / 1000);
+        const actual = Math.floor(destStats.mtimeMs / 1000);
+        return expected === actual ? null : { relativePath, reason: 'mtime', expected, actual };
+    }
+
+    if (isHashMode(mode)) {
+        const [expected, actual] = await Promise.all([
+            sourceHash ?? hashFile(sourcePath, mode),
+            hashFile(destPath, mode)
+        ]);
+        return expected === actual ? null : { relativePath, reason: 'hash', expected, actual };
+    }
+
+    return null;
+}
+
+/**
+ * Where a provider put the copy of `source`. Tools disagree on whether a directory lands in
+ * the destination or inside it, so this follows each one's convention; `destinationExisted`
+ * is whether the destination was there before the transfer.
+ */
+export async function resolveCopyRoot(
+    source: TransferTarget,
+    destination: TransferTarget,
+    method: string,
+    destinationExisted: boolean
+): Promise<string> {
+    const sourceStats = await fs.stat(source.path);
+    const name = basename(source.path);
+
+    if (!sourceStats.isDirectory()) {
+        const destStats = await fs.stat(destination.path).catch(() => null);
+        return destStats?.isDirectory() ? join(destination.path, name) : destination.path;
+    }
+
+    if (source.path.endsWith('/') || source.path.endsWith(sep)) {
+        return destination.path;
+    }
+
+    switch (method) {
+        case 'robocopy':
+        case 'xcopy':
+        case 'ditto':
+            return destination.path;
+        case 'rsync':
+        case 'tar':
+            return join(destination.path, name);
+        default:
+            // cp, scp and node-fs only nest the directory when the destination already existed
+            return destinationExisted ? join(destination.path, name) : destination.path;
+    }
+}
+
+/**
+ * Compare every file under `sourceRoot` with its counterpart under `destRoot`, honouring the
+ * transfer's filters. Paths in `kept` are existing files the conflict policy left alone; they
+ * are listed in the result but not compared, so they can't be reported or repaired as mismatches.
+ */
+export async function verifyTree(
+    sourceRoot: string,
+    destRoot: string,
+    mode: VerifyMode,
+    options: TransferOptions = {},
+    kept: Set<string> = new Set()
+): Promise<VerificationResult> {
+    const result: VerificationResult = { mode, filesChecked: 0, mismatches: [], repaired: [] };
+    const singleFile = !(await fs.lstat(sourceRoot)).isDirectory();
+
+    await walkSourceFiles(sourceRoot, options, async (relativePath) => {
+        if (kept.has(relativePath)) {
+            result.kept = [...(result.kept ?? []), relativePath];
+            return;
+        }
+
+        result.filesChecked++;
+        const mismatch = singleFile
+            ? await compareFile(sourceRoot, destRoot, relativePath, mode)
+            : await compareFile(join(sourceRoot, relativePath), join(destRoot, relativePath), relativePath, mode);
+        if (mismatch) result.mismatches.push(mismatch);
+    });
+
+    return result;
+}
+
+/**
+ * Files under `sourceRoot` that already exist under `destRoot` and that `onConflict` will
+ * leave alone: every one for 'skip', and those at least as new as the source for 'newer'.
+ * Call this before the transfer; afterwards a copied file is indistinguishable from a kept one.
+ */
+export async function keptByConflictPolicy(
+    sourceRoot: string,
+    destRoot: string,
+    onConflict: ConflictMode,
+    options: TransferOptions = {}
+): Promise<Set<string>> {
+    const kept = new Set<string>();
+    if (onConflict !== 'skip' && onConflict !== 'newer') {
+        return kept;
+    }
+    const singleFile = !(await fs.lstat(sourceRoot)).isDirectory();
+
+    await walkSourceFiles(sourceRoot, options, async (relativePath) => {
+        const sourcePath = singleFile ? sourceRoot : join(sourceRoot, relativePath);
+        const destPath = singleFile ? destRoot : join(destRoot, relativePath);
+        const destStats = await fs.lstat(destPath).catch(() => null);
+        if (!destStats) return;
+
+        // Tools disagree on equal timestamps, so a tie counts as kept
+        if (onConflict === 'skip' || Math.floor(destStats.mtimeMs / 1000) >= Math.floor((await fs.lstat(sourcePath)).mtimeMs / 1000)) {
+            kept.add(relativePath);
+        }
+    });
+
+    return kept;
+}
+
+/**
+ * Call `visit` with the relative path of every file and symlink under `sourceRoot` the
+ * transfer's filters include. A single-file source is visited by its name.
+ */
+async function walkSourceFiles(
+    sourceRoot: string,
+    options: TransferOptions,
+    visit: (relativePath: string) => Promise<void>
+): Promise<void> {
+    const rootStats = await fs.lstat(sourceRoot);
+    if (!rootStats.isDirectory()) {
+        await visit(basename(sourceRoot));
+        return;
+    }
+
+    const filters = await FilterSet.fromOptions(options, sourceRoot);
+    const walk = async (relativeDir: string): Promise<void> => {
+        const entries = await fs.readdir(join(sourceRoot, relativeDir), { withFileTypes: true });
+
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (!filters.isIncluded(relativePath, entry.isDirectory())) continue;
+
+            if (entry.isDirectory()) {
+                await walk(relativePath);
+                continue;
+            }
+            if (!entry.isFile() && !entry.isSymbolicLink()) continue;
+            if (filters.hasSizeRules || filters.hasAgeRules) {
+                if (!filters.isIncluded(relativePath, false, await fs.lstat(join(sourceRoot, relativePath)))) continue;
+            }
+
+            await visit(relativePath);
+        }
+    };
+
+    await walk('');
+}
+
+/**
+ * Copy mismatched files again and re-check them. Paths that now match are added to `repaired`.
+ */
+export async function repairMismatches(
+    sourceRoot: string,
+    destRoot: string,
+    result: VerificationResult
+): Promise<VerificationResult> {
+    const singleFile = !(await fs.lstat(sourceRoot)).isDirectory();
+
+    for (const mismatch of result.mismatches) {
+        const sourcePath = singleFile ? sourceRoot : join(sourceRoot, mismatch.relativePath);
+        const destPath = singleFile ? destRoot : join(destRoot, mismatch.relativePath);
+
+        try {
+            const stats = await fs.lstat(sourcePath);
+            await fs.mkdir(dirname(destPath), { recursive: true });
+            await fs.rm(destPath, { recursive: true, force: true });
+
+            if (stats.isSymbolicLink()) {
+                await fs.symlink(await fs.readlink(sourcePath), destPath);
+            } else {
+                await fs.copyFile(sourcePath, destPath);
+                await fs.chmod(destPath, stats.mode & 0o7777);
+                await fs.utimes(destPath, stats.atime, stats.mtime);
+            }
+
+            if (!await compareFile(sourcePath, destPath, mismatch.relativePath, result.mode)) {
+                result.repaired.push(mismatch.relativePath);
+            }
+        } catch {
+            // Left in mismatches without a repair entry
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Mismatches that weren't fixed by a repair
+ */
+export function unresolvedMismatches(result: VerificationResult): VerificationMismatch[] {
+    return result.mismatches.filter(mismatch => !result.repaired.includes(mismatch.relativePath));
+}
+
+export function verificationError(unresolved: VerificationMismatch[]): string {
+    const sample = unresolved.slice(0, 5).map(m => `${m.relativePath} (${m.reason})`).join(', ');
+    const more = unresolved.length > 5 ? ` and ${unresolved.length - 5} more` : '';
+    return `Verification failed for ${unresolved.length} file(s): ${sample}${more}`;
+}
@@ -0,0 +1,187 @@
+import { spawn } from 'child_process';
+import * as os from 'os';
+import type { PauseSignal } from '../transfer/interfaces.js';
+import { processGroupOptions, bindAbortSignal, bindPauseSignal, killProcessTree } from './process-control.js';
+
+/**
+ * Run external tools without a shell. Arguments reach the program exactly as given, so file
+ * names can't be reinterpreted; the one place a shell is unavoidable is the remote end of ssh,
+ * and runRemoteCommand quotes every argument for it.
+ */
+
+export interface RunCommandOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;        // Environment for the child (default: process.env)
+    input?: string;                 // Written to stdin, which is then closed
+    timeout?: number;               // Milliseconds before the process tree is killed
+    signal?: AbortSignal;           // Kill the process tree when aborted
+    pauseSignal?: PauseSignal;      // Suspend the process tree while paused
+    onStdout?: (chunk: string) => void;
+    onStderr?: (chunk: string) => void;
+}
+
+export interface CommandResult {
+    exitCode: number;               // -1 if the program couldn't start or was killed
+    stdout: string;
+    stderr: string;
+    cancelled: boolean;             // Stopped through options.signal
+    timedOut: boolean;
+    error?: Error;                  // Why the program couldn't be started (e.g. ENOENT)
+}
+
+export interface SshConnection {
+    host: string;
+    user?: string;
+    port?: number;
+    keyFile?: string;
+    connectTimeout?: number;        // Seconds (default: 10)
+    sshOptions?: string[];          // Extra ssh arguments, e.g. ['-o', 'Compression=yes']
+    batchMode?: boolean;            // Default: true. Turn off to let an SSH_ASKPASS helper answer password prompts
+}
+
+/**
+ * Run a program with an argv array. Never rejects: failures to start, non-zero exits,
+ * timeouts and cancellation are all reported in the result.
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions = {}): Promise<CommandResult> {
+    return new Promise((resolve) => {
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+        let startError: Error | undefined;
+
+        const child = spawn(command, args, {
+            cwd: options.cwd,
+            env: options.env,
+            stdio: [options.input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+            windowsHide: true,
+            ...processGroupOptions()
+        });
+        const unbindAbort = bindAbortSignal(child, options.signal);
+        const unbindPause = bindPauseSignal(child, options.pauseSignal);
+        const timer = options.timeout
+            ? setTimeout(() => {
+                timedOut = true;
+                killProcessTree(child);
+            }, options.timeout)
+            : undefined;
+
+        if (options.input !== undefined) {
+            child.stdin!.on('error', () => undefined); // The program may exit without reading it
+            child.stdin!.end(options.input);
+        }
+
+        // Decode as a stream so multi-byte characters split across chunks survive
+        child.stdout!.setEncoding('utf8');
+        child.stderr!.setEncoding('utf8');
+        child.stdout!.on('data', (chunk: string) => {
+            stdout += chunk;
+            options.onStdout?.(chunk);
+        });
+        child.stderr!.on('data', (chunk: string) => {
+            stderr += chunk;
+            options.onStderr?.(chunk);
+        });
+
+        child.on('error', (error) => { startError = error; });
+        child.on('close', (code) => {
+            if (timer) clearTimeout(timer);
+            unbindAbort();
+            unbindPause();
+            resolve({
+                exitCode: code ?? -1,
+                stdout,
+                stderr,
+                cancelled: options.signal?.aborted === true,
+                timedOut,
+                error: startError
+            });
+        });
+    });
+}
+
+/**
+ * Quote a value for a POSIX shell: single quotes, with embedded single quotes closed,
+ * escaped and reopened. Safe for any byte sequence, including `$`, backticks and newlines.
+ */
+export function quoteShellArg(value: string): string {
+    if (/^[A-Za-z0-9_\/.,:@%+-]+$/.test(value)) {
+        return value;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a value as a PowerShell string literal
+ */
+export function quotePowerShellArg(value: string): string {
+    return `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`;
+}
+
+/**
+ * Join a program and its arguments into one command line for a POSIX shell
+ */
+export function shellCommand(command: string, args: string[]): string {
+    return [command, ...args].map(quoteShellArg).join(' ');
+}
+
+/**
+ * Join a program and its arguments the way Windows programs split their command line
+ */
+export function windowsCommand(command: string, args: string[]): string {
+    return [command, ...args].map(arg => {
+        if (arg !== '' && !/[\s"]/.test(arg)) return arg;
+        // Backslashes are only special right before a quote
+        return `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, '$1$1')}"`;
+    }).join(' ');
+}
+
+/**
+ * ssh arguments up to and including the destination, without the remote command. Throws
+ * for a host or user that ssh could take for an option, such as `-oProxyCommand=...`.
+ */
+export function sshArgs(connection: SshConnection): string[] {
+    if (connection.host.startsWith('-') || connection.user?.startsWith('-')) {
+        throw new Error(`Invalid ssh destination: ${JSON.stringify(connection.user ? `${connection.user}@${connection.host}` : connection.host)}`);
+    }
+
+    const args = ['-o', `BatchMode=${connection.batchMode === false ? 'no' : 'yes'}`, '-o', `ConnectTimeout=${connection.connectTimeout ?? 10}`];
+    if (connection.keyFile) args.push('-i', connection.keyFile);
+    if (connection.port) args.push('-p', connection.port.toString());
+    args.push(...(connection.sshOptions || []));
+    args.push('--', connection.user ? `${connection.user}@${connection.host}` : connection.host);
+    return args;
+}
+
+/**
+ * Run a command on a remote host over ssh. An argv array is quoted for the remote shell;
+ * a string is passed through as a script, so quote anything interpolated into it with
+ * quoteShellArg. Like runCommand it never rejects; an invalid destination is reported as `error`.
+ */
+export function runRemoteCommand(connection: SshConnection, command: string | string[], options: RunCommandOptions = {}): Promise<CommandResult> {
+    let args: string[];
+    try {
+        args = sshArgs(connection);
+    } catch (error) {
+        return Promise.resolve({ exitCode: -1, stdout: '', stderr: '', cancelled: false, timedOut: false, error: error as Error });
+    }
+    const script = Array.isArray(command) ? shellCommand(command[0], command.slice(1)) : command;
+    return runCommand('ssh', [...args, script], options);
+}
+
+/**
+ * Whether a program can be found on the PATH
+ */
+export async function commandExists(command: string): Promise<boolean> {
+    const result = await runCommand(os.platform() === 'win32' ? 'where' : 'which', [command], { timeout: 3000 });
+    return result.exitCode === 0;
+}
+
+/**
+ * A one-line description of why a command failed, for error messages
+ */
+export function commandFailure(command: string, result: CommandResult): string {
+    if (result.error) return `${command} could not be started: ${result.error.message}`;
+    if (result.timedOut) return `${command} timed out`;
+    return result.stderr.trim().split('\n').pop() || `${command} exited with ${result.exitCode}`;
+}
@@ -38,7 +38,7 @@ function isRetryableError(error: any, retryableErrors: string[]): boolean {
 /**
  * Calculate delay with exponential backoff and jitter
  */
-function calculateDelay(attempt: number, initialDelay: number, maxDelay: number, backoffFactor: number): number {
+export function calculateDelay(attempt: number, initialDelay: number, maxDelay: number, backoffFactor: number): number {
     const exponentialDelay = initialDelay * Math.pow(backoffFactor, attempt);
     const jitter = Math.random() * 0.3 * exponentialDelay; // Add 0-30% jitter
     return Math.min(exponentialDelay + jitter, maxDelay);
@@ -0,0 +1,151 @@
+import { redactSecrets } from '../transfer/credentials.js';
+
+/**
+ * Internal diagnostics go through a Logger rather than the console, so applications decide
+ * what is shown and where. The default logger writes warnings and errors to stderr.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFields = { [key: string]: unknown };
+
+export interface LogEntry {
+    time: string;                   // ISO timestamp
+    level: Exclude<LogLevel, 'silent'>;
+    scope?: string;                 // Dotted path of child scopes, e.g. 'manager.transfer'
+    message: string;
+    fields?: LogFields;             // Context from child loggers plus the call's own fields
+}
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    child(scope: string, fields?: LogFields): Logger; // Adds a scope and fields to every entry
+}
+
+export interface RedactionOptions {
+    secrets?: string[];             // Exact strings to remove, e.g. passwords
+    keyPaths?: boolean;             // Paths to ssh keys (id_rsa, *.pem, *.key, *.ppk)
+    userHosts?: boolean;            // user@host pairs
+}
+
+export interface LoggerOptions {
+    level?: LogLevel;               // Lowest level written (default: 'warn')
+    format?: 'text' | 'json';       // One line per entry either way (default: 'text')
+    write?: (line: string, entry: LogEntry) => void; // Default: process.stderr
+    redact?: boolean | RedactionOptions; // true redacts key paths and user@host pairs
+}
+
+const LEVELS: { [level in LogLevel]: number } = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const KEY_PATH = /[^\s'"=,]*(?:id_(?:rsa|dsa|ecdsa|ed25519)(?:_sk)?|\.pem|\.key|\.ppk)(?![\w.-])/g;
+const USER_HOST = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*/g;
+
+/**
+ * Remove configured secrets from a message
+ */
+export function redactText(text: string, redaction: RedactionOptions): string {
+    let redacted = redactSecrets(text, redaction.secrets ?? []);
+    if (redaction.keyPaths) {
+        redacted = redacted.replace(KEY_PATH, '<key>');
+    }
+    if (redaction.userHosts) {
+        redacted = redacted.replace(USER_HOST, '<user>@<host>');
+    }
+    return redacted;
+}
+
+/**
+ * A logger writing `text` lines like `2024-05-01T12:00:00.000Z WARN [manager] message key=value`
+ * or one JSON object per line
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+    const threshold = LEVELS[options.level ?? 'warn'];
+    const redaction = options.redact === true
+        ? { keyPaths: true, userHosts: true }
+        : options.redact || undefined;
+    const write = options.write ?? ((line: string) => { process.stderr.write(line + '\n'); });
+
+    const build = (scope: string | undefined, context: LogFields): Logger => {
+        const log = (level: LogEntry['level'], message: string, fields?: LogFields) => {
+            if (LEVELS[level] < threshold) return;
+
+            const merged = { ...context, ...fields };
+            const entry: LogEntry = {
+                time: new Date().toISOString(),
+                level,
+                scope,
+                message: redaction ? redactText(message, redaction) : message,
+                fields: Object.keys(merged).length > 0 ? serializeFields(merged, redaction) : undefined
+            };
+            write(options.format === 'json' ? JSON.stringify(entry) : formatText(entry), entry);
+        };
+
+        return {
+            debug: (message, fields) => log('debug', message, fields),
+            info: (message, fields) => log('info', message, fields),
+            warn: (message, fields) => log('warn', message, fields),
+            error: (message, fields) => log('error', message, fields),
+            child: (childScope, fields) => build(scope ? `${scope}.${childScope}` : childScope, { ...context, ...fields })
+        };
+    };
+
+    return build(undefined, {});
+}
+
+/**
+ * A logger that drops everything
+ */
+export const silentLogger: Logger = createLogger({ level: 'silent' });
+
+let defaultLogger: Logger = createLogger();
+
+/**
+ * Replace the logger used by everything that wasn't given one explicitly
+ */
+export function setDefaultLogger(logger: Logger): void {
+    defaultLogger = logger;
+}
+
+/**
+ * The default logger, scoped if a scope is given. Look it up when logging rather than
+ * keeping it, so a later setDefaultLogger() takes effect.
+ */
+export function getLogger(scope?: string): Logger {
+    return scope ? defaultLogger.child(scope) : defaultLogger;
+}
+
+/**
+ * Plain-data copies of log fields, with errors reduced to their message and strings redacted
+ */
+function serializeFields(fields: LogFields, redaction?: RedactionOptions): LogFields {
+    const convert = (value: unknown): unknown => {
+        if (value instanceof Error) {
+            const code = (value as NodeJS.ErrnoException).code;
+            return code ? { message: convert(value.message), code } : convert(value.message);
+        }
+        if (typeof value === 'string') {
+            return redaction ? redactText(value, redaction) : value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(convert);
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, convert(item)]));
+        }
+        return value;
+    };
+    return convert(fields) as LogFields;
+}
+
+function formatText(entry: LogEntry): string {
+    const parts = [entry.time, entry.level.toUpperCase()];
+    if (entry.scope) parts.push(`[${entry.scope}]`);
+    parts.push(entry.message);
+    for (const [key, value] of Object.entries(entry.fields ?? {})) {
+        parts.push(`${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+    return parts.join(' ');
+}
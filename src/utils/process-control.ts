@@ -0,0 +1,103 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import type { PauseSignal } from '../transfer/interfaces.js';
+
+/**
+ * Spawn options that give the child its own process group, so signals reach the whole tree
+ * (e.g. the ssh process rsync spawns, or cp under a shell)
+ */
+export function processGroupOptions(): { detached: boolean } {
+    return { detached: os.platform() !== 'win32' };
+}
+
+/**
+ * Send a signal to a child process and everything it spawned
+ */
+export function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): boolean {
+    if (child.pid === undefined || child.exitCode !== null) {
+        return false;
+    }
+
+    if (os.platform() === 'win32') {
+        // No process groups on Windows; taskkill walks the tree instead
+        if (signal === 'SIGTERM' || signal === 'SIGKILL') {
+            spawn('taskkill', ['/pid', child.pid.toString(), '/T', '/F'], { stdio: 'ignore' });
+            return true;
+        }
+        return false;
+    }
+
+    try {
+        process.kill(-child.pid, signal);
+        return true;
+    } catch {
+        // Not a group leader (spawned without processGroupOptions) - signal the child alone
+        return child.kill(signal);
+    }
+}
+
+/**
+ * Terminate a child process and its descendants
+ */
+export function killProcessTree(child: ChildProcess): void {
+    signalProcessTree(child, 'SIGTERM');
+    // A suspended tree only acts on SIGTERM once continued
+    if (os.platform() !== 'win32') {
+        signalProcessTree(child, 'SIGCONT');
+    }
+}
+
+/**
+ * Kill the child's process tree when the signal aborts. Returns a function that detaches the listener.
+ */
+export function bindAbortSignal(child: ChildProcess, signal?: AbortSignal): () => void {
+    if (!signal) {
+        return () => undefined;
+    }
+
+    const onAbort = () => killProcessTree(child);
+
+    if (signal.aborted) {
+        onAbort();
+        return () => undefined;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Whether spawned tools can be suspended in place with SIGSTOP/SIGCONT
+ */
+export function supportsProcessSuspend(): boolean {
+    return os.platform() !== 'win32';
+}
+
+/**
+ * Suspend the child's process tree on 'pause' and continue it on 'resume'. Where tools can't
+ * be suspended, pauses are refused for as long as the child runs instead.
+ * Returns a function that detaches the listeners.
+ */
+export function bindPauseSignal(child: ChildProcess, pauseSignal?: PauseSignal): () => void {
+    if (!pauseSignal) {
+        return () => undefined;
+    }
+    if (!supportsProcessSuspend()) {
+        return pauseSignal.preventPause(`${path.basename(child.spawnfile)} can't be suspended on ${os.platform()}`);
+    }
+
+    const onPause = () => signalProcessTree(child, 'SIGSTOP');
+    const onResume = () => signalProcessTree(child, 'SIGCONT');
+
+    pauseSignal.on('pause', onPause);
+    pauseSignal.on('resume', onResume);
+    if (pauseSignal.paused) {
+        onPause();
+    }
+
+    return () => {
+        pauseSignal.off('pause', onPause);
+        pauseSignal.off('resume', onResume);
+    };
+}
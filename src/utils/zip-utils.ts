@@ -1,10 +1,12 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { execSync } from 'child_process';
 import * as os from 'os';
 import { TransferTarget, TransferResult, TransferOptions } from '../transfer/interfaces.js';
 import { createUnifiedTransferManager } from '../transfer/manager.js';
+import { FilterSet } from '../transfer/filters.js';
 import { FileEnumerator, FileMetadata } from '../transfer/advanced-utils.js';
+import { resolveCredentials, redactSecrets } from '../transfer/credentials.js';
+import { runCommand, runRemoteCommand, shellCommand, quoteShellArg, quotePowerShellArg, commandFailure, RunCommandOptions, CommandResult } from './command-runner.js';
 
 export interface ZipTransferOptions extends TransferOptions {
     compressionLevel?: number; // 0-9
@@ -59,7 +61,7 @@ export class ZipTransferManager {
                 };
 
                 const transferResult = await manager.transfer(zipSource, destination, {
-                    include: [path.basename(zipResult.zipPath)]
+                    filters: FilterSet.selectionRules([path.basename(zipResult.zipPath)])
                 });
 
                 // Cleanup if manager has cleanup method
@@ -93,6 +95,7 @@ export class ZipTransferManager {
      * Create a zip file from the source target
      */
     static async createZip(source: TransferTarget, options: ZipTransferOptions = {}): Promise<ZipResult> {
+        let secrets: string[] = [];
         try {
             // Enumerate files to be zipped
             const files = await FileEnumerator.enumerateFiles(source, options.includeHiddenFiles || false);
@@ -118,11 +121,13 @@ export class ZipTransferManager {
 
             // Create the zip file
             const compressionLevel = Math.min(options.compressionLevel || this.DEFAULT_COMPRESSION_LEVEL, this.MAX_COMPRESSION_LEVEL);
+            const password = (await resolveCredentials(options, { purpose: 'zip' }))?.password;
+            secrets = password ? [password] : [];
             
             if (source.isRemote) {
-                await this.createRemoteZip(source, zipPath, files, compressionLevel, options);
+                await this.createRemoteZip(source, zipPath, files, compressionLevel, { ...options, password });
             } else {
-                await this.createLocalZip(source, zipPath, files, compressionLevel, options);
+                await this.createLocalZip(source, zipPath, files, compressionLevel, { ...options, password });
             }
 
             // Get compressed file size
@@ -146,7 +151,7 @@ export class ZipTransferManager {
                 compressedSize: 0,
                 compressionRatio: 0,
                 fileCount: 0,
-                error: error instanceof Error ? error.message : 'Unknown error during zip creation'
+                error: error instanceof Error ? redactSecrets(error.message, secrets) : 'Unknown error during zip creation'
             };
         }
     }
@@ -169,7 +174,7 @@ export class ZipTransferManager {
             return {
                 success: false,
                 extractedFiles: 0,
-                error: error instanceof Error ? error.message : 'Unknown error during extraction'
+                error: error instanceof Error ? redactSecrets(error.message, password ? [password] : []) : 'Unknown error during extraction'
             };
         }
     }
@@ -198,13 +203,14 @@ export class ZipTransferManager {
         options: ZipTransferOptions
     ): Promise<void> {
         // Create zip on remote system via SSH
-        const fileList = files.map(f => f.relativePath).join(' ');
-        const passwordOption = options.password ? `-P ${options.password}` : '';
-        const compressionOption = `-${compressionLevel}`;
-        
-        const command = `ssh ${source.user ? source.user + '@' : ''}${source.host} "cd ${source.path} && zip ${passwordOption} ${compressionOption} -r ${zipPath} ${fileList}"`;
-        
-        execSync(command, { timeout: 300000 }); // 5 minute timeout
+        const zip = shellCommand('zip', this.zipArgs(zipPath, files, compressionLevel));
+        const script = `cd -- ${quoteShellArg(source.path)} && ${this.remotePasswordPrefix('ZIPOPT', options.password)}${zip}`;
+        const result = await runRemoteCommand(
+            { host: source.host!, user: source.user, port: source.port, keyFile: options.keyFile },
+            script,
+            { input: this.remotePasswordInput(options.password), timeout: 300000 } // 5 minute timeout
+        );
+        this.check('zip', result);
     }
 
     private static async createZipWithPowerShell(
@@ -224,15 +230,15 @@ export class ZipTransferManager {
 
         const level = compressionLevelMap[compressionLevel] || 'Optimal';
         
-        // Create a list of files to include
-        const fileList = files.map(f => `"${path.join(source.path, f.relativePath)}"`).join(',');
+        // Create a list of files to include; -LiteralPath keeps [ and ] in names from acting as wildcards
+        const fileList = files.map(f => quotePowerShellArg(path.join(source.path, f.relativePath))).join(',');
         
         const script = `
             $files = @(${fileList})
-            Compress-Archive -Path $files -DestinationPath "${zipPath}" -CompressionLevel ${level} -Force
+            Compress-Archive -LiteralPath $files -DestinationPath ${quotePowerShellArg(zipPath)} -CompressionLevel ${level} -Force
         `;
 
-        execSync(`powershell -Command "${script}"`, { timeout: 300000 });
+        await this.run('powershell', ['-NoProfile', '-NonInteractive', '-Command', script], { timeout: 300000 });
     }
 
     private static async createZipWithCommand(
@@ -243,13 +249,63 @@ export class ZipTransferManager {
         options: ZipTransferOptions
     ): Promise<void> {
         // Use system zip command
-        const fileList = files.map(f => `"${f.relativePath}"`).join(' ');
-        const passwordOption = options.password ? `-P ${options.password}` : '';
-        const compressionOption = `-${compressionLevel}`;
-        
-        const command = `cd "${source.path}" && zip ${passwordOption} ${compressionOption} -r "${zipPath}" ${fileList}`;
-        
-        execSync(command, { timeout: 300000 });
+        await this.run('zip', this.zipArgs(zipPath, files, compressionLevel), {
+            cwd: source.path,
+            env: this.passwordEnv('ZIPOPT', options.password),
+            timeout: 300000
+        });
+    }
+
+    /**
+     * zip arguments for an archive of `files`, relative to the working directory. Each name
+     * gets a ./ prefix so one starting with a dash isn't taken for an option; zip strips it.
+     */
+    private static zipArgs(zipPath: string, files: FileMetadata[], compressionLevel: number): string[] {
+        return [`-${compressionLevel}`, '-r', zipPath, ...files.map(f => `./${f.relativePath}`)];
+    }
+
+    /**
+     * zip and unzip also read options from ZIPOPT and UNZIP, which other users can't see the
+     * way they can see a command line. Their parser has no escape for a double quote inside
+     * a quoted value, so such passwords are refused rather than mangled.
+     */
+    private static passwordOption(password: string): string {
+        if (/["\r\n]/.test(password)) {
+            throw new Error('Zip passwords containing double quotes or line breaks are not supported');
+        }
+        return `-P "${password}"`;
+    }
+
+    private static passwordEnv(variable: 'ZIPOPT' | 'UNZIP', password?: string): NodeJS.ProcessEnv | undefined {
+        return password ? { ...process.env, [variable]: this.passwordOption(password) } : undefined;
+    }
+
+    /**
+     * For remote hosts the password is sent on stdin and put into the variable there, so it
+     * isn't part of the ssh command line on either end
+     */
+    private static remotePasswordPrefix(variable: 'ZIPOPT' | 'UNZIP', password?: string): string {
+        if (!password) return '';
+        this.passwordOption(password);
+        return `IFS= read -r secret && ${variable}="-P \\"$secret\\"" `;
+    }
+
+    private static remotePasswordInput(password?: string): string | undefined {
+        return password ? `${password}\n` : undefined;
+    }
+
+    /**
+     * Run a tool and throw with its error output if it fails
+     */
+    private static async run(command: string, args: string[], options: RunCommandOptions): Promise<CommandResult> {
+        return this.check(command, await runCommand(command, args, options));
+    }
+
+    private static check(command: string, result: CommandResult): CommandResult {
+        if (result.exitCode !== 0) {
+            throw new Error(commandFailure(command, result));
+        }
+        return result;
     }
 
     private static async extractLocalZip(
@@ -285,13 +341,15 @@ export class ZipTransferManager {
         password?: string
     ): Promise<{ success: boolean; extractedFiles: number; error?: string }> {
         try {
-            const passwordOption = password ? `-P ${password}` : '';
-            const command = `ssh ${destination.user ? destination.user + '@' : ''}${destination.host} "cd ${destination.path} && unzip ${passwordOption} -o ${zipPath}"`;
-            
-            const output = execSync(command, { encoding: 'utf8', timeout: 300000 });
+            const unzip = shellCommand('unzip', ['-o', zipPath, '-d', destination.path]);
+            const result = this.check('unzip', await runRemoteCommand(
+                { host: destination.host!, user: destination.user, port: destination.port },
+                `${this.remotePasswordPrefix('UNZIP', password)}${unzip}`,
+                { input: this.remotePasswordInput(password), timeout: 300000 }
+            ));
             
             // Parse output to count extracted files
-            const extractedFiles = (output.match(/inflating:/g) || []).length;
+            const extractedFiles = (result.stdout.match(/inflating:/g) || []).length;
             
             return { success: true, extractedFiles };
             
@@ -313,8 +371,8 @@ export class ZipTransferManager {
             throw new Error('Password-protected zip extraction not supported with PowerShell');
         }
         
-        const script = `Expand-Archive -Path "${zipPath}" -DestinationPath "${destination.path}" -Force`;
-        execSync(`powershell -Command "${script}"`, { timeout: 300000 });
+        const script = `Expand-Archive -LiteralPath ${quotePowerShellArg(zipPath)} -DestinationPath ${quotePowerShellArg(destination.path)} -Force`;
+        await this.run('powershell', ['-NoProfile', '-NonInteractive', '-Command', script], { timeout: 300000 });
     }
 
     private static async extractZipWithCommand(
@@ -322,10 +380,10 @@ export class ZipTransferManager {
         destination: TransferTarget,
         password?: string
     ): Promise<void> {
-        const passwordOption = password ? `-P ${password}` : '';
-        const command = `unzip ${passwordOption} -o "${zipPath}" -d "${destination.path}"`;
-        
-        execSync(command, { timeout: 300000 });
+        await this.run('unzip', ['-o', zipPath, '-d', destination.path], {
+            env: this.passwordEnv('UNZIP', password),
+            timeout: 300000
+        });
     }
 
     private static generateZipName(source: TransferTarget): string {
@@ -382,7 +440,7 @@ export class NetworkSpeedDetector {
             };
 
             const result = await manager.transfer(source, testTarget, {
-                include: [path.basename(testFile)]
+                filters: FilterSet.selectionRules([path.basename(testFile)])
             });
 
             const endTime = Date.now();
@@ -428,16 +486,12 @@ export class NetworkSpeedDetector {
      */
     static async pingHost(host: string, count: number = 4): Promise<{ avgLatencyMs: number; packetLoss: number; error?: string }> {
         try {
-            const platform = os.platform();
-            let command: string;
-            
-            if (platform === 'win32') {
-                command = `ping -n ${count} ${host}`;
-            } else {
-                command = `ping -c ${count} ${host}`;
+            const countFlag = os.platform() === 'win32' ? '-n' : '-c';
+            const result = await runCommand('ping', [countFlag, count.toString(), host], { timeout: 10000 });
+            if (result.exitCode !== 0 && !result.stdout) {
+                throw new Error(commandFailure('ping', result));
             }
-
-            const output = execSync(command, { encoding: 'utf8', timeout: 10000 });
+            const output = result.stdout;
             
             // Parse ping output
             const latencies: number[] = [];
@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+/**
+ * Copies over existing files with onConflict 'skip' and 'newer' plus verify, with and without
+ * repairMismatches, and checks that files the policy kept are neither reported nor overwritten
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const HOUR = 3600_000;
+
+interface Case {
+    method: 'cp' | 'tar' | 'node-fs';
+    onConflict: 'skip' | 'newer';
+    repair: boolean;
+}
+
+async function runCase(scratch: string, testCase: Case): Promise<boolean> {
+    const { createUnifiedTransferManager } = await import('../src/transfer/manager.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    const label = `${testCase.method}, ${testCase.onConflict}${testCase.repair ? ', repair' : ''}`;
+    const root = await fs.mkdtemp(path.join(scratch, 'case-'));
+    const source = path.join(root, 'source');
+    const destination = path.join(root, 'destination');
+    const copy = path.join(destination, 'source'); // Every method nests the directory in an existing destination
+    await fs.mkdir(source);
+    await fs.mkdir(copy, { recursive: true });
+
+    const now = Date.now();
+    const setTime = (file: string, time: number) => fs.utimes(file, new Date(time), new Date(time));
+
+    // stale.txt is older at the destination, fresh.txt newer; new.txt isn't there yet
+    await fs.writeFile(path.join(source, 'stale.txt'), 'new-content');
+    await fs.writeFile(path.join(copy, 'stale.txt'), 'old');
+    await setTime(path.join(copy, 'stale.txt'), now - HOUR);
+    await fs.writeFile(path.join(source, 'fresh.txt'), 'from the source');
+    await setTime(path.join(source, 'fresh.txt'), now - HOUR);
+    await fs.writeFile(path.join(copy, 'fresh.txt'), 'edited at the destination');
+    await fs.writeFile(path.join(source, 'new.txt'), 'new');
+
+    const manager = await createUnifiedTransferManager({ logger: silentLogger });
+    if (!(await manager.getAvailableMethods()).fallbackMethods.some(method => method.name === testCase.method)) {
+        console.log(`  ${label}: not available, skipping`);
+        return true;
+    }
+
+    const result = await manager.transfer({ path: source, isRemote: false }, { path: destination, isRemote: false }, {
+        recursive: true,
+        preferredMethod: testCase.method,
+        onConflict: testCase.onConflict,
+        verify: 'sha256',
+        repairMismatches: testCase.repair
+    });
+
+    const read = (name: string) => fs.readFile(path.join(copy, name), 'utf8').catch(() => null);
+    const expected: { [name: string]: string } = {
+        'stale.txt': testCase.onConflict === 'skip' ? 'old' : 'new-content',
+        'fresh.txt': 'edited at the destination',
+        'new.txt': 'new'
+    };
+    const expectedKept = testCase.onConflict === 'skip' ? ['fresh.txt', 'stale.txt'] : ['fresh.txt'];
+
+    const problems: string[] = [];
+    if (result.method !== testCase.method) {
+        problems.push(`ran with ${result.method}`);
+    }
+    if (!result.success) {
+        problems.push(`failed: ${result.error}`);
+    }
+    for (const [name, contents] of Object.entries(expected)) {
+        const actual = await read(name);
+        if (actual !== contents) {
+            problems.push(`${name} holds ${JSON.stringify(actual)}, expected ${JSON.stringify(contents)}`);
+        }
+    }
+    if (result.verification?.repaired.length) {
+        problems.push(`repaired ${JSON.stringify(result.verification.repaired)}`);
+    }
+    if (JSON.stringify([...(result.verification?.kept ?? [])].sort()) !== JSON.stringify(expectedKept)) {
+        problems.push(`kept ${JSON.stringify(result.verification?.kept)}, expected ${JSON.stringify(expectedKept)}`);
+    }
+
+    for (const problem of problems) {
+        console.log(`  ${label}: ${problem}`);
+    }
+    if (problems.length === 0) {
+        console.log(`  ${label}: ok`);
+    }
+    return problems.length === 0;
+}
+
+async function testConflictVerify(scratch: string): Promise<boolean> {
+    console.log('Testing onConflict with verify');
+    console.log('='.repeat(60));
+
+    const cases: Case[] = [];
+    for (const method of ['cp', 'tar', 'node-fs'] as const) {
+        for (const onConflict of ['skip', 'newer'] as const) {
+            for (const repair of [false, true]) {
+                cases.push({ method, onConflict, repair });
+            }
+        }
+    }
+
+    let ok = true;
+    for (const testCase of cases) {
+        ok = await runCase(scratch, testCase) && ok;
+    }
+
+    console.log(ok ? 'onConflict with verify passed' : 'onConflict with verify failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Conflict Policy Verification Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-conflict-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testConflictVerify(scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
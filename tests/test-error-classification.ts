@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+
+/**
+ * Classifies sample failures from rsync, robocopy, cp, tar, scp and node-fs and checks the
+ * error codes, per-file errors and TransferError subclasses that come out
+ */
+
+import type { TransferResult } from '../src/transfer/interfaces.js';
+import type { TransferErrorCode } from '../src/transfer/errors.js';
+
+interface Sample {
+    name: string;
+    result: Pick<TransferResult, 'method' | 'exitCode'> & Partial<Pick<TransferResult, 'output' | 'error' | 'status'>>;
+    errorCode: TransferErrorCode;
+    fileErrors?: string[];          // Expected `path:code` pairs
+}
+
+const SAMPLES: Sample[] = [
+    {
+        name: 'rsync timeout exit',
+        result: { method: 'rsync', exitCode: 30, error: 'rsync error: timeout in data send/receive (code 30)' },
+        errorCode: 'TIMEOUT'
+    },
+    {
+        name: 'rsync protocol stream exit with a reset connection',
+        result: { method: 'rsync', exitCode: 12, error: 'rsync: connection unexpectedly closed (0 bytes received so far) [sender]' },
+        errorCode: 'CONNECTION_LOST'
+    },
+    {
+        name: 'rsync vanished files',
+        result: { method: 'rsync', exitCode: 24, output: 'file has vanished: "/data/tmp/lock"\n' },
+        errorCode: 'VANISHED_SOURCE',
+        fileErrors: ['/data/tmp/lock:VANISHED_SOURCE']
+    },
+    {
+        name: 'rsync generic exit over ssh with a bad key',
+        result: { method: 'rsync', exitCode: 255, error: 'user@host: Permission denied (publickey).\r\nrsync: connection unexpectedly closed' },
+        errorCode: 'AUTH_FAILED'
+    },
+    {
+        name: 'rsync unknown host',
+        result: { method: 'rsync', exitCode: 255, error: 'ssh: Could not resolve hostname nas.local: Name or service not known' },
+        errorCode: 'HOST_UNREACHABLE'
+    },
+    {
+        name: 'rsync disk full',
+        result: { method: 'rsync', exitCode: 23, error: 'rsync: [receiver] write failed on "/backup/big.iso": No space left on device (28)' },
+        errorCode: 'PARTIAL_TRANSFER',
+        fileErrors: ['/backup/big.iso:ENOSPC']
+    },
+    {
+        name: 'cp with one unreadable file',
+        result: { method: 'cp', exitCode: 1, error: "cp: cannot open '/src/secret.txt' for reading: Permission denied" },
+        errorCode: 'EACCES',
+        fileErrors: ['/src/secret.txt:EACCES']
+    },
+    {
+        name: 'cp with mixed failures',
+        result: {
+            method: 'cp',
+            exitCode: 1,
+            error: "cp: cannot open '/src/a' for reading: Permission denied\ncp: error writing '/dst/b': No space left on device"
+        },
+        errorCode: 'PARTIAL_TRANSFER',
+        fileErrors: ['/src/a:EACCES', '/dst/b:ENOSPC']
+    },
+    {
+        name: 'tar missing source',
+        result: { method: 'tar', exitCode: 2, error: 'tar: missing: Cannot stat: No such file or directory\ntar: Exiting with failure status due to previous errors' },
+        errorCode: 'ENOENT',
+        fileErrors: ['missing:ENOENT']
+    },
+    {
+        name: 'scp reset connection',
+        result: { method: 'scp', exitCode: 1, error: 'client_loop: send disconnect: Connection reset by peer\nlost connection' },
+        errorCode: 'CONNECTION_LOST'
+    },
+    {
+        name: 'missing tool',
+        result: { method: 'tar', exitCode: -1, error: 'spawn tar ENOENT' },
+        errorCode: 'TOOL_UNAVAILABLE'
+    },
+    {
+        name: 'robocopy with failed files',
+        result: {
+            method: 'robocopy',
+            exitCode: 9,
+            output: '2024/05/01 12:00:00 ERROR 5 (0x00000005) Copying File C:\\src\\locked.db\nAccess is denied.\n'
+        },
+        errorCode: 'PARTIAL_TRANSFER',
+        fileErrors: ['C:\\src\\locked.db:EACCES']
+    },
+    {
+        name: 'robocopy unreachable share',
+        result: { method: 'robocopy', exitCode: 16, output: 'ERROR 53 (0x00000035) Accessing Source Directory \\\\nas\\share\\\nThe network path was not found.\n' },
+        errorCode: 'HOST_UNREACHABLE',
+        fileErrors: ['\\\\nas\\share\\:HOST_UNREACHABLE']
+    },
+    {
+        name: 'cancelled transfer',
+        result: { method: 'rsync', exitCode: 20, status: 'cancelled' },
+        errorCode: 'CANCELLED'
+    },
+    {
+        name: 'unrecognised failure',
+        result: { method: 'cp', exitCode: 1, error: 'something odd happened' },
+        errorCode: 'UNKNOWN'
+    }
+];
+
+async function testClassifyResult(): Promise<boolean> {
+    console.log('Testing classifyResult');
+    console.log('='.repeat(60));
+
+    const { classifyResult } = await import('../src/transfer/errors.js');
+    let ok = true;
+
+    for (const sample of SAMPLES) {
+        const classified = classifyResult({ success: false, output: '', fallbackUsed: false, ...sample.result });
+        const fileErrors = classified.fileErrors.map(error => `${error.path}:${error.code}`);
+
+        if (classified.errorCode !== sample.errorCode) {
+            console.log(`  ${sample.name}: got ${classified.errorCode}, expected ${sample.errorCode}`);
+            ok = false;
+        }
+        if (JSON.stringify(fileErrors) !== JSON.stringify(sample.fileErrors ?? [])) {
+            console.log(`  ${sample.name}: file errors ${JSON.stringify(fileErrors)}, expected ${JSON.stringify(sample.fileErrors ?? [])}`);
+            ok = false;
+        }
+    }
+
+    console.log(ok ? `All ${SAMPLES.length} samples classified correctly` : 'classifyResult failed');
+    return ok;
+}
+
+async function testErrorClasses(): Promise<boolean> {
+    console.log('\nTesting TransferError subclasses');
+    console.log('='.repeat(60));
+
+    const {
+        TransferError,
+        FileSystemError,
+        ConnectionError,
+        ConfigurationError,
+        PartialTransferError,
+        classifyNodeError
+    } = await import('../src/transfer/errors.js');
+    let ok = true;
+
+    const expectations: [TransferErrorCode, Function, boolean][] = [
+        ['ENOSPC', FileSystemError, false],
+        ['TIMEOUT', ConnectionError, true],
+        ['CONNECTION_LOST', ConnectionError, true],
+        ['AUTH_FAILED', ConnectionError, false],
+        ['NO_PROVIDER', ConfigurationError, false],
+        ['VERIFICATION_FAILED', PartialTransferError, false],
+        ['UNKNOWN', TransferError, false]
+    ];
+    for (const [code, expectedClass, retryable] of expectations) {
+        const error = TransferError.fromCode(code, 'sample');
+        if (!(error instanceof expectedClass) || error.code !== code || error.retryable !== retryable) {
+            console.log(`  ${code}: ${error.constructor.name}, retryable ${error.retryable}`);
+            ok = false;
+        }
+    }
+
+    const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+    const full = Object.assign(new Error('write failed'), { code: 'ENOSPC' });
+    if (classifyNodeError(reset) !== 'CONNECTION_LOST' || classifyNodeError(full) !== 'ENOSPC') {
+        console.log('  classifyNodeError misread errno codes');
+        ok = false;
+    }
+
+    console.log(ok ? 'Error classes passed' : 'Error classes failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Transfer Error Classification Tests\n');
+
+    const results = [
+        await testClassifyResult(),
+        await testErrorClasses()
+    ];
+    const passed = results.filter(Boolean).length;
+    const failed = results.length - passed;
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
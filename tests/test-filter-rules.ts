@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+
+/**
+ * Checks FilterSet's rsync-style matching, gitignore parsing, per-directory ignore files,
+ * literal patterns for names that contain wildcard characters, and that rsync is given rules
+ * selecting the same files as the other providers
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { FilterOptions } from '../src/transfer/filters.js';
+
+interface MatchCase {
+    options: FilterOptions;
+    included: string[];             // Directories end with '/'
+    excluded: string[];
+}
+
+const MATCH_CASES: MatchCase[] = [
+    {
+        options: { exclude: ['*.log'] },
+        included: ['app.txt', 'logs/', 'logs/readme.md'],
+        excluded: ['debug.log', 'logs/deep/trace.log']
+    },
+    {
+        options: { exclude: ['/build'] },
+        included: ['src/build', 'src/build/', 'src/main.ts'],
+        excluded: ['build', 'build/', 'build/out.js']
+    },
+    {
+        options: { exclude: ['cache/'] },
+        included: ['cache', 'notes/cache'],
+        excluded: ['cache/', 'a/b/cache/', 'cache/item']
+    },
+    {
+        options: { exclude: ['docs/**/*.pdf'] },
+        included: ['docs/guide.md', 'mydocs/a.pdf'],
+        excluded: ['docs/a.pdf', 'docs/x/y/z.pdf', 'other/docs/a.pdf']
+    },
+    {
+        // Include wins over exclude, and `filters` are checked before both
+        options: { filters: ['- secret.log'], include: ['*.log'], exclude: ['*'] },
+        included: ['app.log'],
+        excluded: ['secret.log', 'app.txt']
+    },
+    {
+        options: { filters: ['+ /data/', '+ /data/*.csv', '- *'] },
+        included: ['data/', 'data/a.csv'],
+        excluded: ['data/a.json', 'readme.md', 'data/sub/']
+    },
+    {
+        options: { exclude: ['file?.txt', 'img[0-9].png'] },
+        included: ['file10.txt', 'imgA.png'],
+        excluded: ['file1.txt', 'img7.png']
+    }
+];
+
+async function testMatching(): Promise<boolean> {
+    console.log('Testing rule matching');
+    console.log('='.repeat(60));
+
+    const { FilterSet } = await import('../src/transfer/filters.js');
+    let ok = true;
+
+    for (const testCase of MATCH_CASES) {
+        const filters = await FilterSet.fromOptions(testCase.options);
+        const check = (entry: string, expected: boolean) => {
+            const isDirectory = entry.endsWith('/');
+            const actual = filters.isPathIncluded(isDirectory ? entry.slice(0, -1) : entry, isDirectory);
+            if (actual !== expected) {
+                console.log(`  ${JSON.stringify(testCase.options)}: ${entry} ${actual ? 'included' : 'excluded'}`);
+                ok = false;
+            }
+        };
+        testCase.included.forEach(entry => check(entry, true));
+        testCase.excluded.forEach(entry => check(entry, false));
+    }
+
+    console.log(ok ? 'Rule matching passed' : 'Rule matching failed');
+    return ok;
+}
+
+async function testLiteralNames(): Promise<boolean> {
+    console.log('\nTesting escaped names');
+    console.log('='.repeat(60));
+
+    const { FilterSet } = await import('../src/transfer/filters.js');
+    const names = ['report*.txt', 'a[1].txt', 'what?.txt', 'back\\slash.txt', 'plain.txt'];
+    const lookalikes = ['report1.txt', 'a1.txt', 'whatX.txt', 'backslash.txt'];
+    let ok = true;
+
+    const filters = await FilterSet.fromOptions({ exclude: names.map(name => `/${FilterSet.escape(name)}`) });
+    for (const name of names) {
+        if (filters.isIncluded(name, false)) {
+            console.log(`  ${JSON.stringify(name)} doesn't match its own escaped pattern`);
+            ok = false;
+        }
+    }
+    for (const name of lookalikes) {
+        if (!filters.isIncluded(name, false)) {
+            console.log(`  ${JSON.stringify(name)} matched an escaped pattern`);
+            ok = false;
+        }
+    }
+
+    console.log(ok ? 'Escaped names passed' : 'Escaped names failed');
+    return ok;
+}
+
+async function testIgnoreFiles(scratch: string): Promise<boolean> {
+    console.log('\nTesting per-directory ignore files');
+    console.log('='.repeat(60));
+
+    const { FilterSet } = await import('../src/transfer/filters.js');
+    const files: { [relativePath: string]: string } = {
+        '.gitignore': '# build output\n*.log\n!important.log\n/dist/\nnode_modules/\n',
+        'a.log': '',
+        'important.log': '',
+        'dist/bundle.js': '',
+        'src/dist/keep.js': '',
+        'src/main.ts': '',
+        'src/node_modules/dep/index.js': '',
+        'src/.gitignore': '*.tmp\n!debug.log\n',
+        'src/debug.log': '',
+        'src/x.tmp': '',
+        'x.tmp': '',
+        'data/.rsync-filter': '+ keep.bin\n- *.bin\n',
+        'data/keep.bin': '',
+        'data/drop.bin': '',
+        'data/nested/drop.bin': ''
+    };
+    for (const [relativePath, content] of Object.entries(files)) {
+        await fs.mkdir(path.join(scratch, path.dirname(relativePath)), { recursive: true });
+        await fs.writeFile(path.join(scratch, relativePath), content);
+    }
+
+    const filters = await FilterSet.fromOptions({ respectIgnoreFiles: true }, scratch);
+    const listed = (await filters.listIncluded(scratch)).filter(entry => !entry.isDirectory).map(entry => entry.relativePath).sort();
+    const expected = [
+        '.gitignore',
+        'data/.rsync-filter',
+        'data/keep.bin',
+        'important.log',
+        'src/.gitignore',
+        'src/debug.log',
+        'src/dist/keep.js',
+        'src/main.ts',
+        'x.tmp'
+    ];
+
+    const ok = JSON.stringify(listed) === JSON.stringify(expected);
+    if (!ok) {
+        console.log(`  Listed ${JSON.stringify(listed)}`);
+        console.log(`  Expected ${JSON.stringify(expected)}`);
+    }
+
+    console.log(ok ? 'Ignore files passed' : 'Ignore files failed');
+    return ok;
+}
+
+async function testRsyncArgs(): Promise<boolean> {
+    console.log('\nTesting rsync translation');
+    console.log('='.repeat(60));
+
+    const { FilterSet } = await import('../src/transfer/filters.js');
+    let ok = true;
+
+    const filters = await FilterSet.fromOptions({ include: ['keep.log'], exclude: ['*.log', '/build/', 'docs/**/*.pdf'], respectIgnoreFiles: ['.rsync-filter'], minSize: 10 });
+    const args = filters.toRsyncArgs('project');
+    const expected = [
+        '--filter=+ /project',
+        '--filter=+ keep.log',
+        '--filter=- *.log',
+        '--filter=- /project/build/',
+        '--filter=- docs/*.pdf',        // rsync's ** doesn't match an empty directory list
+        '--filter=- docs/**/*.pdf',
+        '--filter=: .rsync-filter',
+        '--min-size=10'
+    ];
+    if (JSON.stringify(args) !== JSON.stringify(expected)) {
+        console.log(`  Got ${JSON.stringify(args)}`);
+        ok = false;
+    }
+
+    // rsync would read an unread .gitignore as plain excludes, so it has to be read first
+    if ((await FilterSet.fromOptions({ respectIgnoreFiles: ['.gitignore'] })).toRsyncArgs() !== undefined) {
+        console.log('  A pending .gitignore was handed to rsync');
+        ok = false;
+    }
+
+    // rsync can't filter on age, so the set has to be applied another way
+    if ((await FilterSet.fromOptions({ maxAge: 60 })).toRsyncArgs() !== undefined) {
+        console.log('  Age rules were translated for rsync');
+        ok = false;
+    }
+
+    console.log(ok ? 'rsync translation passed' : 'rsync translation failed');
+    return ok;
+}
+
+async function testIgnoreFilesUnderRsync(scratch: string): Promise<boolean> {
+    console.log('\nTesting ignore files under rsync and node-fs');
+    console.log('='.repeat(60));
+
+    const { FilterSet } = await import('../src/transfer/filters.js');
+    const { createUnifiedTransferManager } = await import('../src/transfer/manager.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    // A negation, and a mid-slash pattern git anchors to the .gitignore's directory
+    const source = path.join(scratch, 'rsync', 'project');
+    const files: { [relativePath: string]: string } = {
+        '.gitignore': '*.log\n!important.log\ndocs/build\n',
+        'a.log': '',
+        'important.log': '',
+        'docs/build/out.html': '',
+        'src/docs/build/keep.html': '',
+        'src/.gitignore': 'gen/\n!gen/keep.ts\n',
+        'src/gen/drop.ts': '',
+        'src/gen/keep.ts': ''
+    };
+    for (const [relativePath, content] of Object.entries(files)) {
+        await fs.mkdir(path.join(source, path.dirname(relativePath)), { recursive: true });
+        await fs.writeFile(path.join(source, relativePath), content);
+    }
+
+    const options = { recursive: true, respectIgnoreFiles: ['.gitignore'] };
+    const listFiles = async (root: string) => (await new FilterSet().listIncluded(root)).filter(entry => !entry.isDirectory).map(entry => entry.relativePath).sort();
+    let ok = true;
+
+    // What node-fs copies is what FilterSet selects
+    const manager = await createUnifiedTransferManager({ logger: silentLogger });
+    const nodeDestination = path.join(scratch, 'rsync', 'node-fs');
+    await fs.mkdir(nodeDestination);
+    await manager.transfer({ path: source, isRemote: false }, { path: nodeDestination, isRemote: false }, { ...options, preferredMethod: 'node-fs' });
+    const expected = await listFiles(path.join(nodeDestination, 'project'));
+
+    let selected: string[];
+    const rsyncDestination = path.join(scratch, 'rsync', 'rsync');
+    await fs.mkdir(rsyncDestination);
+    if ((await manager.getAvailableMethods()).rsyncAvailable) {
+        const result = await manager.transfer({ path: source, isRemote: false }, { path: rsyncDestination, isRemote: false }, { ...options, preferredMethod: 'rsync' });
+        selected = result.method === 'rsync' ? await listFiles(path.join(rsyncDestination, 'project')) : [];
+    } else {
+        // Without rsync, a stand-in records the arguments it gets and they are played back through FilterSet
+        console.log('  rsync not available, checking the rules it would be given');
+        const bin = path.join(scratch, 'bin');
+        const argsFile = path.join(scratch, 'rsync-args');
+        await fs.mkdir(bin);
+        await fs.writeFile(path.join(bin, 'rsync'),
+            `#!/bin/sh\n[ "$1" = --version ] && echo 'rsync  version 3.2.7  protocol version 31' && exit 0\nfor arg do printf '%s\\0' "$arg"; done > '${argsFile}'\n`,
+            { mode: 0o755 });
+        const originalPath = process.env.PATH;
+        process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+        try {
+            const standIn = await createUnifiedTransferManager({ logger: silentLogger });
+            await standIn.transfer({ path: source, isRemote: false }, { path: rsyncDestination, isRemote: false }, { ...options, preferredMethod: 'rsync' });
+        } finally {
+            process.env.PATH = originalPath;
+        }
+
+        const args = (await fs.readFile(argsFile, 'utf8').catch(() => '')).split('\0');
+        const rules = args.filter(arg => arg.startsWith('--filter=')).map(arg => arg.slice('--filter='.length));
+        const merged = rules.filter(rule => !/^[+-] /.test(rule));
+        if (merged.length > 0) {
+            console.log(`  rsync was left to read ${JSON.stringify(merged)} itself`);
+            ok = false;
+        }
+        const replayed = await FilterSet.fromOptions({ filters: rules.filter(rule => !merged.includes(rule)) });
+        selected = Object.keys(files).filter(relativePath => replayed.isPathIncluded(`project/${relativePath}`, false)).sort();
+    }
+
+    if (expected.length === 0 || JSON.stringify(selected) !== JSON.stringify(expected)) {
+        console.log(`  rsync selects ${JSON.stringify(selected)}`);
+        console.log(`  node-fs copies ${JSON.stringify(expected)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Ignore files under rsync passed' : 'Ignore files under rsync failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Filter Rule Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-filters-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testMatching(),
+            await testLiteralNames(),
+            await testIgnoreFiles(scratch),
+            await testRsyncArgs(),
+            await testIgnoreFilesUnderRsync(scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+
+/**
+ * Copies a tree of awkwardly named files with the cp and tar providers and checks every
+ * name arrives unchanged, that quoted arguments survive a round trip through sh and that ssh
+ * never takes a host for an option
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+// Names that break string-built commands: quoting, expansion, word splitting, option parsing
+const HOSTILE_NAMES = [
+    'plain.txt',
+    'with space.txt',
+    'double"quote.txt',
+    "single'quote.txt",
+    'dollar$HOME.txt',
+    'backtick`id`.txt',
+    'subshell$(id).txt',
+    'semi;colon.txt',
+    'pipe|and&amp.txt',
+    'redirect>out.txt',
+    'new\nline.txt',
+    'tab\there.txt',
+    '-leading-dash.txt',
+    '--option-like',
+    'glob*star?.txt',
+    '[brackets].txt',
+    'colon:name.txt',
+    'back\\slash.txt',
+    'tilde~',
+    '=equals',
+    'ünïcødé.txt'
+];
+
+async function createTree(root: string): Promise<void> {
+    await fs.mkdir(path.join(root, "nested dir 'x'"), { recursive: true });
+    for (const name of HOSTILE_NAMES) {
+        await fs.writeFile(path.join(root, name), name);
+        await fs.writeFile(path.join(root, "nested dir 'x'", name), name);
+    }
+}
+
+async function listTree(root: string, prefix = ''): Promise<string[]> {
+    const names: string[] = [];
+    for (const entry of await fs.readdir(path.join(root, prefix), { withFileTypes: true })) {
+        const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+        names.push(relative);
+        if (entry.isDirectory()) {
+            names.push(...await listTree(root, relative));
+        }
+    }
+    return names.sort();
+}
+
+async function testQuoting(): Promise<boolean> {
+    console.log('Testing shell quoting round trip');
+    console.log('='.repeat(60));
+
+    const { runCommand, quoteShellArg, shellCommand } = await import('../src/utils/command-runner.js');
+    let ok = true;
+
+    for (const name of HOSTILE_NAMES) {
+        const result = await runCommand('sh', ['-c', `printf %s ${quoteShellArg(name)}`]);
+        if (result.stdout !== name) {
+            console.log(`  quoteShellArg changed ${JSON.stringify(name)} into ${JSON.stringify(result.stdout)}`);
+            ok = false;
+        }
+    }
+
+    // Each argument must come back as exactly one word
+    const result = await runCommand('sh', ['-c', shellCommand('printf', ['%s\\0', ...HOSTILE_NAMES])]);
+    const words = result.stdout.split('\0').slice(0, -1);
+    if (JSON.stringify(words) !== JSON.stringify(HOSTILE_NAMES)) {
+        console.log(`  shellCommand split the arguments differently: ${JSON.stringify(words)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Quoting round trip passed' : 'Quoting round trip failed');
+    return ok;
+}
+
+async function testSshDestination(): Promise<boolean> {
+    console.log('\nTesting ssh destinations that look like options');
+    console.log('='.repeat(60));
+
+    const { sshArgs, runRemoteCommand } = await import('../src/utils/command-runner.js');
+    let ok = true;
+
+    const args = sshArgs({ host: 'nas', user: 'backup', port: 2222 });
+    if (JSON.stringify(args.slice(-2)) !== JSON.stringify(['--', 'backup@nas'])) {
+        console.log(`  The destination is not after --: ${JSON.stringify(args)}`);
+        ok = false;
+    }
+
+    for (const connection of [{ host: '-oProxyCommand=touch /tmp/pwned' }, { host: 'nas', user: '-oProxyCommand=id' }]) {
+        try {
+            sshArgs(connection);
+            console.log(`  sshArgs accepted ${JSON.stringify(connection)}`);
+            ok = false;
+        } catch {
+            // Expected
+        }
+        const result = await runRemoteCommand(connection, ['true']);
+        if (result.exitCode !== -1 || !result.error) {
+            console.log(`  runRemoteCommand ran ssh for ${JSON.stringify(connection)}`);
+            ok = false;
+        }
+    }
+
+    console.log(ok ? 'ssh destinations passed' : 'ssh destinations failed');
+    return ok;
+}
+
+async function testProvider(name: 'cp' | 'tar', scratch: string): Promise<boolean> {
+    console.log(`\nTesting ${name} provider`);
+    console.log('='.repeat(60));
+
+    const { CpProvider, TarProvider } = await import('../src/transfer/providers/linux.js');
+    const provider = name === 'cp' ? new CpProvider() : new TarProvider();
+
+    if (!await provider.isAvailable()) {
+        console.log(`${name} is not available, skipping`);
+        return true;
+    }
+
+    // The roots themselves start with a dash and contain quotes
+    const source = path.join(scratch, `-${name} source "$USER"`);
+    const destination = path.join(scratch, `-${name} dest 'x'`);
+    await createTree(source);
+    await fs.mkdir(destination);
+
+    const result = await provider.transfer(
+        { path: source, isRemote: false },
+        { path: destination, isRemote: false },
+        { recursive: true }
+    );
+    if (!result.success) {
+        console.log(`  Transfer failed: ${result.error}`);
+        return false;
+    }
+
+    // Both providers copy the source directory itself into the destination
+    const copy = path.join(destination, path.basename(source));
+    const expected = await listTree(source);
+    const actual = await listTree(copy);
+    const missing = expected.filter(entry => !actual.includes(entry));
+    if (missing.length > 0) {
+        console.log(`  Missing after transfer: ${JSON.stringify(missing)}`);
+        return false;
+    }
+
+    for (const file of HOSTILE_NAMES) {
+        if (await fs.readFile(path.join(copy, file), 'utf8') !== file) {
+            console.log(`  Contents differ for ${JSON.stringify(file)}`);
+            return false;
+        }
+    }
+
+    console.log(`${name} copied all ${expected.length} entries`);
+    return true;
+}
+
+async function runTests() {
+    console.log('Hostile File Name Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-hostile-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testQuoting(),
+            await testSshDestination(),
+            await testProvider('cp', scratch),
+            await testProvider('tar', scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+/**
+ * Simulates a crash part way through a journaled transfer and checks that recover() skips
+ * exactly the files already copied, including names containing wildcard characters
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const PASSWORD = 'hunter2';
+
+// Finished before the crash: names that read as patterns if they aren't escaped
+const FINISHED = ['report*.txt', 'a[1].txt', 'what?.txt', 'back\\slash.txt'];
+// Not copied yet: 'report1.txt' and 'whatX.txt' match the finished names as patterns
+const UNFINISHED = ['report1.txt', 'whatX.txt', 'plain.txt'];
+
+async function testRecover(scratch: string): Promise<boolean> {
+    console.log('Testing recover() after a crash');
+    console.log('='.repeat(60));
+
+    const { TransferJournal } = await import('../src/transfer/journal.js');
+    const { createUnifiedTransferManager } = await import('../src/transfer/manager.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    const source = path.join(scratch, 'source');
+    const destination = path.join(scratch, 'destination');
+    const journalDir = path.join(scratch, 'journal');
+    await fs.mkdir(source);
+    for (const name of [...FINISHED, ...UNFINISHED]) {
+        await fs.writeFile(path.join(source, name), `source ${name}`);
+    }
+
+    const manager = await createUnifiedTransferManager({ logger: silentLogger });
+
+    // The first process records the job and the files it finished, then dies
+    const crashed = new TransferJournal(journalDir, manager);
+    const job = await crashed.createJob({ path: source, isRemote: false }, { path: destination, isRemote: false }, {
+        recursive: true,
+        password: PASSWORD,
+        logger: silentLogger
+    });
+    await fs.mkdir(destination);
+    for (const name of FINISHED) {
+        const sourcePath = path.join(source, name);
+        const destPath = path.join(destination, name);
+        const stats = await fs.stat(sourcePath);
+        // Same size as the source but different bytes and an older time, so a second copy would show
+        await fs.writeFile(destPath, `copied ${name}`);
+        await fs.utimes(destPath, new Date(stats.mtimeMs - 3600_000), new Date(stats.mtimeMs - 3600_000));
+        await crashed.recordFile(job.id, { relativePath: name, destPath, size: stats.size, mtime: stats.mtimeMs });
+    }
+
+    let ok = true;
+    const saved = await fs.readFile(path.join(journalDir, `${job.id}.json`), 'utf8');
+    if (saved.includes(PASSWORD) || 'logger' in JSON.parse(saved).options) {
+        console.log('  The journal saved the password or logger');
+        ok = false;
+    }
+
+    // A new process picks the job up
+    const copied: string[] = [];
+    const journal = new TransferJournal(journalDir, manager);
+    const recovered = await journal.recover({ onFileTransferred: file => copied.push(file.relativePath) });
+
+    if (recovered.length !== 1 || !recovered[0].result?.success) {
+        console.log(`  Recovery failed: ${recovered[0]?.error ?? recovered[0]?.result?.error}`);
+        return false;
+    }
+    if (recovered[0].skippedFiles !== FINISHED.length) {
+        console.log(`  Skipped ${recovered[0].skippedFiles} files, expected ${FINISHED.length}`);
+        ok = false;
+    }
+
+    const expected = [...UNFINISHED].sort();
+    if (JSON.stringify(copied.sort()) !== JSON.stringify(expected)) {
+        console.log(`  Copied ${JSON.stringify(copied)}, expected ${JSON.stringify(expected)}`);
+        ok = false;
+    }
+
+    for (const name of FINISHED) {
+        if (await fs.readFile(path.join(destination, name), 'utf8') !== `copied ${name}`) {
+            console.log(`  ${JSON.stringify(name)} was copied again`);
+            ok = false;
+        }
+    }
+    for (const name of UNFINISHED) {
+        const contents = await fs.readFile(path.join(destination, name), 'utf8').catch(() => null);
+        if (contents !== `source ${name}`) {
+            console.log(`  ${JSON.stringify(name)} is missing after recovery`);
+            ok = false;
+        }
+    }
+
+    if ((await journal.listUnfinished()).length > 0) {
+        console.log('  The job is still unfinished');
+        ok = false;
+    }
+
+    console.log(ok ? 'Recovery passed' : 'Recovery failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Transfer Journal Recovery Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-journal-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testRecover(scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
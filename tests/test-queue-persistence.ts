@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Saves a paused TransferQueue to disk, checks that secrets, loggers and callbacks stayed out
+ * of the file, then reloads it into a new queue and runs the restored jobs to completion
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { SavedQueueJob } from '../src/transfer/queue.js';
+
+const PASSWORD = 'hunter2';
+
+// Saves are written in the background, so wait until the file holds what we expect
+async function waitForSavedJobs(storagePath: string, count: number): Promise<SavedQueueJob[]> {
+    for (let i = 0; i < 100; i++) {
+        try {
+            const saved = JSON.parse(await fs.readFile(storagePath, 'utf8'));
+            if (saved.length === count) return saved;
+        } catch {
+            // Not written yet, or mid-rename
+        }
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`${storagePath} never held ${count} jobs`);
+}
+
+async function testSavedOptions(scratch: string): Promise<boolean> {
+    console.log('Testing what a saved queue contains');
+    console.log('='.repeat(60));
+
+    const { TransferQueue } = await import('../src/transfer/queue.js');
+    const { CredentialProvider } = await import('../src/transfer/credentials.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    const storagePath = path.join(scratch, 'queue.json');
+    const queue = new TransferQueue({ storagePath });
+    queue.pause();
+
+    queue.add({ path: path.join(scratch, 'source'), isRemote: false }, { path: path.join(scratch, 'low'), isRemote: false }, {
+        recursive: true,
+        exclude: ['*.tmp'],
+        password: PASSWORD,
+        credentials: CredentialProvider.fromEnv('QUEUE_TEST', { QUEUE_TEST_PASSWORD: PASSWORD }),
+        logger: silentLogger,
+        onProgress: () => {}
+    }, 1);
+    queue.add({ path: path.join(scratch, 'source'), isRemote: false }, { path: path.join(scratch, 'high'), isRemote: false }, {
+        recursive: true
+    }, 5);
+
+    const saved = await waitForSavedJobs(storagePath, 2);
+    const raw = await fs.readFile(storagePath, 'utf8');
+    let ok = true;
+
+    for (const key of ['password', 'credentials', 'logger', 'onProgress']) {
+        if (saved.some(job => key in job.options)) {
+            console.log(`  Saved options still contain ${key}`);
+            ok = false;
+        }
+    }
+    if (raw.includes(PASSWORD)) {
+        console.log('  The password was written to the queue file');
+        ok = false;
+    }
+    if (JSON.stringify(saved[1].options.exclude) !== JSON.stringify(['*.tmp'])) {
+        console.log(`  Plain options were lost: ${JSON.stringify(saved[1].options)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Saved options passed' : 'Saved options failed');
+    return ok;
+}
+
+async function testReload(scratch: string): Promise<boolean> {
+    console.log('\nTesting reloading and running saved jobs');
+    console.log('='.repeat(60));
+
+    const { TransferQueue } = await import('../src/transfer/queue.js');
+    const { createUnifiedTransferManager } = await import('../src/transfer/manager.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    const source = path.join(scratch, 'source');
+    await fs.mkdir(source, { recursive: true });
+    await fs.writeFile(path.join(source, 'keep.txt'), 'keep');
+    await fs.writeFile(path.join(source, 'skip.tmp'), 'skip');
+
+    const manager = await createUnifiedTransferManager({ logger: silentLogger });
+    const storagePath = path.join(scratch, 'queue.json');
+    const queue = new TransferQueue({ storagePath, manager });
+    queue.pause();
+
+    const restored = await queue.load({ password: PASSWORD });
+    let ok = true;
+
+    if (restored.map(job => path.basename(job.destination.path)).join(',') !== 'high,low') {
+        console.log(`  Restored out of priority order: ${restored.map(job => job.destination.path).join(', ')}`);
+        ok = false;
+    }
+    if (!restored.every(job => job.status === 'queued' && job.addedAt instanceof Date && job.options.password === PASSWORD)) {
+        console.log('  Restored jobs are missing their status, date or the password passed to load()');
+        ok = false;
+    }
+
+    // Jobs saved with a logger or credential provider used to come back as empty objects and crash here
+    queue.resume();
+    await queue.onDrained();
+    await waitForSavedJobs(storagePath, 0);
+
+    for (const job of restored) {
+        if (job.status !== 'completed') {
+            console.log(`  ${job.destination.path} ended ${job.status}: ${job.error}`);
+            ok = false;
+        }
+    }
+
+    const low = path.join(scratch, 'low');
+    const copied = await fs.readFile(path.join(low, 'keep.txt'), 'utf8').catch(() => null);
+    const excluded = await fs.access(path.join(low, 'skip.tmp')).then(() => true, () => false);
+    if (copied !== 'keep' || excluded) {
+        console.log('  The restored job ignored its saved options');
+        ok = false;
+    }
+
+    console.log(ok ? 'Reload passed' : 'Reload failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Transfer Queue Persistence Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-queue-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testSavedOptions(scratch),
+            await testReload(scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Leaves an interrupted backup behind, deletes a file from the source and checks that the
+ * next snapshot continues from the leftover without keeping the deleted file
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const LEFTOVER = 'backup-2024-05-01_12-00-00.inprogress';
+
+async function testResume(scratch: string): Promise<boolean> {
+    console.log('Testing a snapshot that resumes an interrupted run');
+    console.log('='.repeat(60));
+
+    const { default: RsyncManager } = await import('../src/rsync/lib/rsync.js');
+    const { SnapshotManager } = await import('../src/rsync/lib/snapshots.js');
+
+    const source = path.join(scratch, 'source');
+    const root = path.join(scratch, 'backups');
+    await fs.mkdir(source);
+    await fs.writeFile(path.join(source, 'kept.txt'), 'kept');
+
+    // The interrupted run had copied a file that has since been deleted from the source
+    await fs.mkdir(path.join(root, LEFTOVER), { recursive: true });
+    await fs.writeFile(path.join(root, LEFTOVER, 'kept.txt'), 'kept');
+    await fs.writeFile(path.join(root, LEFTOVER, 'deleted.txt'), 'deleted');
+
+    // Without rsync, a stand-in records the arguments it gets and creates the destination
+    const bin = path.join(scratch, 'bin');
+    const argsFile = path.join(scratch, 'rsync-args');
+    await fs.mkdir(bin);
+    await fs.writeFile(path.join(bin, 'rsync'),
+        `#!/bin/sh\n[ "$1" = --version ] && echo 'rsync  version 3.2.7  protocol version 31' && exit 0\n`
+        + `for arg do printf '%s\\0' "$arg"; last="$arg"; done > '${argsFile}'\nmkdir -p "$last"\n`,
+        { mode: 0o755 });
+
+    const rsync = new RsyncManager();
+    // A missing rsync is reported as an 'error' event as well as by initialize()
+    rsync.on('error', () => {});
+    const originalPath = process.env.PATH;
+    const realRsync = await rsync.initialize();
+    if (!realRsync) {
+        console.log('  rsync not available, checking the arguments it would be given');
+        process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+    }
+
+    let ok = true;
+    try {
+        if (!realRsync && !await rsync.initialize()) {
+            console.log('  The rsync stand-in was not picked up');
+            return false;
+        }
+
+        const result = await new SnapshotManager(rsync, { path: root, isRemote: false }).createSnapshot(`${source}/`);
+        if (!result.success || !result.snapshotPath) {
+            console.log(`  Snapshot failed: ${result.error}`);
+            return false;
+        }
+        if (await fs.stat(path.join(root, LEFTOVER)).then(() => true, () => false)) {
+            console.log('  The leftover was not picked up');
+            ok = false;
+        }
+
+        if (realRsync) {
+            const files = (await fs.readdir(result.snapshotPath)).sort();
+            if (JSON.stringify(files) !== JSON.stringify(['kept.txt'])) {
+                console.log(`  The snapshot holds ${JSON.stringify(files)}`);
+                ok = false;
+            }
+        } else {
+            const args = (await fs.readFile(argsFile, 'utf8')).split('\0');
+            if (!args.includes('--delete')) {
+                console.log(`  rsync was run without --delete: ${JSON.stringify(args)}`);
+                ok = false;
+            }
+        }
+    } finally {
+        process.env.PATH = originalPath;
+    }
+
+    console.log(ok ? 'Resume passed' : 'Resume failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Snapshot Resume Tests\n');
+
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'fast-transfer-snapshots-'));
+    let passed = 0;
+    let failed = 0;
+
+    try {
+        const results = [
+            await testResume(scratch)
+        ];
+        passed = results.filter(Boolean).length;
+        failed = results.length - passed;
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Drives a TransferHandle through a run that can't be paused, as robocopy and xcopy can't be
+ * on Windows, and checks that pauses are refused or lifted with a reason instead of leaving
+ * the handle 'paused' while the copy carries on
+ */
+
+import type { TransferControls, TransferHandleStatus } from '../src/transfer/handle.js';
+import type { TransferResult } from '../src/transfer/interfaces.js';
+
+const DONE: TransferResult = { success: true, exitCode: 0, output: '', method: 'robocopy', fallbackUsed: true };
+const REASON = "robocopy can't be suspended on win32";
+
+async function createHandle(run: (controls: TransferControls) => Promise<TransferResult>) {
+    const { TransferHandle } = await import('../src/transfer/handle.js');
+
+    const handle = new TransferHandle(run);
+    const statuses: TransferHandleStatus[] = [];
+    const reasons: string[] = [];
+    handle.on('stateChange', ({ status }) => statuses.push(status));
+    handle.on('pauseUnsupported', (reason: string) => reasons.push(reason));
+    return { handle, statuses, reasons };
+}
+
+async function testRefused(): Promise<boolean> {
+    console.log('Testing a pause while the tool is running');
+    console.log('='.repeat(60));
+
+    let finish!: () => void;
+    const { handle, statuses, reasons } = await createHandle(async ({ pauseSignal }) => {
+        const release = pauseSignal.preventPause(REASON);
+        await new Promise<void>(resolve => { finish = resolve; });
+        release();
+        return DONE;
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    let ok = true;
+
+    if (handle.pause() || handle.status !== 'running' || JSON.stringify(reasons) !== JSON.stringify([REASON])) {
+        console.log(`  pause() left the handle ${handle.status} with reasons ${JSON.stringify(reasons)}`);
+        ok = false;
+    }
+
+    finish();
+    await handle.result;
+    if (JSON.stringify(statuses) !== JSON.stringify(['running', 'completed'])) {
+        console.log(`  Went through ${JSON.stringify(statuses)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Refused pause passed' : 'Refused pause failed');
+    return ok;
+}
+
+async function testLifted(): Promise<boolean> {
+    console.log('\nTesting a pause requested before the tool starts');
+    console.log('='.repeat(60));
+
+    let startTool!: () => void;
+    const toolStarts = new Promise<void>(resolve => { startTool = resolve; });
+    let pausedAtStart = false;
+    let pausedWhileRunning = true;
+    const { handle, statuses, reasons } = await createHandle(async ({ pauseSignal }) => {
+        await toolStarts;
+        pausedAtStart = pauseSignal.paused;
+        const release = pauseSignal.preventPause(REASON);
+        pausedWhileRunning = pauseSignal.paused;
+        release();
+        // Once the tool is done, pausing works again
+        return pauseSignal.pause() ? DONE : { ...DONE, success: false };
+    });
+    const accepted = handle.pause();
+    startTool();
+    const result = await handle.result;
+    let ok = true;
+
+    if (!accepted || !pausedAtStart || pausedWhileRunning) {
+        console.log(`  pause() returned ${accepted}; paused at start ${pausedAtStart}, while running ${pausedWhileRunning}`);
+        ok = false;
+    }
+    if (JSON.stringify(statuses) !== JSON.stringify(['running', 'paused', 'running', 'completed']) || JSON.stringify(reasons) !== JSON.stringify([REASON])) {
+        console.log(`  Went through ${JSON.stringify(statuses)} with reasons ${JSON.stringify(reasons)}`);
+        ok = false;
+    }
+    if (!result.success) {
+        console.log('  The refusal outlived the tool');
+        ok = false;
+    }
+
+    console.log(ok ? 'Lifted pause passed' : 'Lifted pause failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Transfer Handle Tests\n');
+
+    const results = [
+        await testRefused(),
+        await testLifted()
+    ];
+    const passed = results.filter(Boolean).length;
+    const failed = results.length - passed;
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+/**
+ * Runs transfers through a provider that fails a set number of times and checks which
+ * failures are retried, the backoff between attempts, the 'retry' events and the attempts
+ * recorded in the result
+ */
+
+import type { TransferTarget, TransferOptions, TransferResult, TransferEstimate, FallbackCapabilities } from '../src/transfer/interfaces.js';
+import type { UnifiedTransferOptions } from '../src/transfer/manager.js';
+
+const SOURCE: TransferTarget = { path: '/nonexistent/source', isRemote: false };
+const DESTINATION: TransferTarget = { path: '/nonexistent/destination', isRemote: false };
+
+async function createFlakyProvider(failures: number, error: string) {
+    const { TransferProvider } = await import('../src/transfer/interfaces.js');
+
+    class FlakyProvider extends TransferProvider {
+        name = 'flaky';
+        capabilities: FallbackCapabilities = {
+            supportsCompression: false,
+            supportsProgress: false,
+            supportsResume: false,
+            supportsDelete: false,
+            supportsSymlinks: false,
+            supportsPermissions: false,
+            supportsTimestamps: false,
+            supportsNetworkTransfer: true,
+            supportsAuthentication: false,
+            maxRetries: 0,
+            preferredFor: []
+        };
+        calls = 0;
+        cleanups = 0;
+
+        async isAvailable(): Promise<boolean> { return true; }
+        async getVersion(): Promise<string | null> { return '1.0'; }
+        async prepare(): Promise<boolean> { return true; }
+        async cleanup(): Promise<void> { this.cleanups++; }
+        async estimateTransfer(): Promise<TransferEstimate> { return { totalBytes: 0, totalFiles: 0 }; }
+        async validateTargets() { return { valid: true, errors: [] }; }
+
+        async transfer(source: TransferTarget, destination: TransferTarget, options: TransferOptions): Promise<TransferResult> {
+            this.calls++;
+            if (this.calls <= failures) {
+                return { success: false, exitCode: 1, output: '', error, method: 'unknown', fallbackUsed: true, duration: 1 };
+            }
+            return { success: true, exitCode: 0, output: 'done', method: 'unknown', fallbackUsed: true, duration: 1, filesTransferred: 1 };
+        }
+    }
+
+    return new FlakyProvider();
+}
+
+async function transferWithRetries(failures: number, error: string, options: UnifiedTransferOptions) {
+    const { UnifiedTransferManager } = await import('../src/transfer/manager.js');
+    const { silentLogger } = await import('../src/utils/logger.js');
+
+    const provider = await createFlakyProvider(failures, error);
+    const manager = new UnifiedTransferManager({ logger: silentLogger });
+    manager.registerProvider(provider, { priority: 1000 });
+
+    const events: any[] = [];
+    manager.on('retry', event => events.push(event));
+    const result = await manager.transfer(SOURCE, DESTINATION, { preferredMethod: 'flaky', ...options });
+    return { result, events, provider };
+}
+
+async function testRecovers(): Promise<boolean> {
+    console.log('Testing a transfer that recovers');
+    console.log('='.repeat(60));
+
+    const { result, events, provider } = await transferWithRetries(2, 'Read from remote host nas: Operation timed out', {
+        retries: 3,
+        retryOptions: { initialDelay: 10, maxDelay: 15, backoffFactor: 2 }
+    });
+    let ok = true;
+
+    if (!result.success || provider.calls !== 3 || provider.cleanups !== 3) {
+        console.log(`  success ${result.success} after ${provider.calls} calls and ${provider.cleanups} cleanups`);
+        ok = false;
+    }
+
+    const attempts = (result.attempts ?? []).map(attempt => `${attempt.attempt}:${attempt.success}:${attempt.errorCode}`);
+    if (JSON.stringify(attempts) !== JSON.stringify(['1:false:TIMEOUT', '2:false:TIMEOUT', '3:true:undefined'])) {
+        console.log(`  Attempts recorded as ${JSON.stringify(attempts)}`);
+        ok = false;
+    }
+
+    if (events.length !== 2 || events.some((event, i) => event.attempt !== i + 1 || event.nextAttempt !== i + 2 || event.maxAttempts !== 4)) {
+        console.log(`  retry events: ${JSON.stringify(events)}`);
+        ok = false;
+    }
+    // 10ms plus up to 30% jitter, then 20ms capped at 15ms
+    const delays = (result.attempts ?? []).map(attempt => attempt.retryDelay);
+    if (!(delays[0]! >= 10 && delays[0]! <= 13 && delays[1] === 15 && delays[2] === undefined)) {
+        console.log(`  Delays were ${JSON.stringify(delays)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Recovery passed' : 'Recovery failed');
+    return ok;
+}
+
+async function testRetryable(): Promise<boolean> {
+    console.log('\nTesting which failures are retried');
+    console.log('='.repeat(60));
+
+    const retryOptions = { initialDelay: 1, maxDelay: 1 };
+    let ok = true;
+
+    // Only connection drops and timeouts are worth another go by default
+    const reset = await transferWithRetries(5, 'client_loop: send disconnect: Connection reset by peer', { retries: 2, retryOptions });
+    if (reset.result.success || reset.provider.calls !== 3 || reset.result.attempts?.length !== 3 || reset.result.errorCode !== 'CONNECTION_LOST') {
+        console.log(`  Connection reset: ${reset.provider.calls} calls, ${reset.result.errorCode}`);
+        ok = false;
+    }
+
+    const full = await transferWithRetries(5, 'cp: error writing \'/dst/big.iso\': No space left on device', { retries: 2, retryOptions });
+    if (full.provider.calls !== 1 || full.events.length !== 0 || full.result.errorCode !== 'ENOSPC') {
+        console.log(`  Disk full: ${full.provider.calls} calls, ${full.result.errorCode}`);
+        ok = false;
+    }
+
+    // retryOn replaces the default codes
+    const custom = await transferWithRetries(1, 'No space left on device', { retries: 2, retryOptions: { ...retryOptions, retryOn: ['ENOSPC'] } });
+    if (!custom.result.success || custom.provider.calls !== 2) {
+        console.log(`  retryOn ['ENOSPC']: ${custom.provider.calls} calls`);
+        ok = false;
+    }
+
+    const none = await transferWithRetries(1, 'Connection reset by peer', {});
+    if (none.result.success || none.provider.calls !== 1 || none.result.attempts?.length !== 1) {
+        console.log(`  Without retries: ${none.provider.calls} calls`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Retryable codes passed' : 'Retryable codes failed');
+    return ok;
+}
+
+async function testAbortDuringBackoff(): Promise<boolean> {
+    console.log('\nTesting an abort while waiting to retry');
+    console.log('='.repeat(60));
+
+    const controller = new AbortController();
+    const started = Date.now();
+    const pending = transferWithRetries(5, 'Connection reset by peer (password hunter2)', {
+        retries: 3,
+        password: 'hunter2',
+        signal: controller.signal,
+        retryOptions: { initialDelay: 10_000 }
+    });
+    setTimeout(() => controller.abort(), 50);
+    const { events, provider } = await pending;
+    let ok = true;
+
+    // The provider here ignores the signal, so the attempt after the wait still runs
+    if (Date.now() - started > 5_000 || provider.calls !== 2) {
+        console.log(`  Waited ${Date.now() - started}ms and made ${provider.calls} calls`);
+        ok = false;
+    }
+    if (events.length !== 1 || events[0].error.includes('hunter2')) {
+        console.log(`  retry events: ${JSON.stringify(events)}`);
+        ok = false;
+    }
+
+    console.log(ok ? 'Abort passed' : 'Abort failed');
+    return ok;
+}
+
+async function testCalculateDelay(): Promise<boolean> {
+    console.log('\nTesting calculateDelay');
+    console.log('='.repeat(60));
+
+    const { calculateDelay } = await import('../src/utils/file-retry.js');
+    let ok = true;
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+        const base = 100 * Math.pow(2, attempt);
+        const delay = calculateDelay(attempt, 100, 2000, 2);
+        if (delay < Math.min(base, 2000) || delay > Math.min(base * 1.3, 2000)) {
+            console.log(`  Attempt ${attempt}: ${delay}ms is outside ${base}-${base * 1.3}ms (capped at 2000)`);
+            ok = false;
+        }
+    }
+
+    console.log(ok ? 'calculateDelay passed' : 'calculateDelay failed');
+    return ok;
+}
+
+async function runTests() {
+    console.log('Transfer Retry Tests\n');
+
+    const results = [
+        await testRecovers(),
+        await testRetryable(),
+        await testAbortDuringBackoff(),
+        await testCalculateDelay()
+    ];
+    const passed = results.filter(Boolean).length;
+    const failed = results.length - passed;
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`Test Results: ${passed} passed, ${failed} failed`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return failed === 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+    runTests().catch(console.error);
+}
+
+export default runTests;